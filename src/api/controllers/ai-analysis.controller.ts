@@ -1,6 +1,9 @@
-import { Controller, Post, Body, HttpCode, HttpStatus } from '@nestjs/common';
-import { ApiTags, ApiOperation, ApiResponse } from '@nestjs/swagger';
+import { Controller, Post, Body, HttpCode, HttpStatus, Res } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiProduces } from '@nestjs/swagger';
+import { Response } from 'express';
 import { AiAnalysisService } from '../../core/ai/ai-analysis.service';
+import { AiNarrativeService } from '../../core/ai/ai-narrative.service';
+import { AiAnalysisStreamService } from '../../core/ai/ai-analysis-stream.service';
 import { CalculateZiweiDto } from '../../api/dto/ziwei.dto';
 import { 
   AiAnalysisResult,
@@ -11,6 +14,9 @@ import {
   HealthAnalysis,
   FortuneTrend
 } from '../../shared/types/ai-analysis.types';
+import { WithNarrative } from '../../shared/types/llm.types';
+import { AnalysisStreamEvent } from '../../shared/types/analysis-stream.types';
+import { ChartInputPipe } from '../../api/pipes/chart-input.pipe';
 import { ApiSuccessResponse } from '../../shared/decorators/api-success-response.decorator';
 
 /**
@@ -20,25 +26,78 @@ import { ApiSuccessResponse } from '../../shared/decorators/api-success-response
 @ApiTags('ai-analysis')
 @Controller('api/ai-analysis')
 export class AiAnalysisController {
-  constructor(private readonly aiAnalysisService: AiAnalysisService) {}
+  constructor(
+    private readonly aiAnalysisService: AiAnalysisService,
+    private readonly aiNarrativeService: AiNarrativeService,
+    private readonly aiAnalysisStreamService: AiAnalysisStreamService
+  ) {}
 
   /**
    * 生成完整的命理分析报告
    * @param dto 包含出生信息的请求数据
-   * @returns AI命理分析结果
+   * @returns AI命理分析结果，各分节附带解读
    */
   @Post('complete-analysis')
   @HttpCode(HttpStatus.OK)
   @ApiOperation({ 
     summary: '生成完整命理分析报告',
-    description: '根据出生信息生成包含性格、事业、感情、健康和运势走势的完整命理分析报告，供AI解读'
+    description: '根据出生信息生成包含性格、事业、感情、健康和运势走势的完整命理分析报告，各分节附带 narrative 解读（由配置的大模型撰写，失败时回退到本地模板）'
   })
   @ApiResponse({ status: HttpStatus.BAD_REQUEST, description: '输入参数错误' })
   @ApiSuccessResponse(AiAnalysisResult, '命理分析报告生成成功')
   async generateCompleteAnalysis(
-    @Body() dto: CalculateZiweiDto
+    @Body(ChartInputPipe) dto: CalculateZiweiDto
   ): Promise<AiAnalysisResult> {
-    return this.aiAnalysisService.generateCompleteAnalysis(dto);
+    const result = await this.aiAnalysisService.generateCompleteAnalysis(dto);
+    return this.aiNarrativeService.attachNarratives(dto, result);
+  }
+
+  /**
+   * 以 Server-Sent Events 流式生成完整的命理分析报告
+   * 参数错误在开始输出前按普通 HTTP 错误返回；客户端断开后停止输出
+   * @param dto 包含出生信息的请求数据
+   * @param res 响应对象
+   */
+  @Post('complete-analysis/stream')
+  @ApiOperation({ 
+    summary: '流式生成完整命理分析报告',
+    description: '以 SSE 逐节输出完整报告：start 列出分节；每节就绪时依次发送 section 与 progress；' +
+      '分节失败发送带 section 的 error 并继续，整体失败发送不带 section 的 error；最后发送 done'
+  })
+  @ApiProduces('text/event-stream')
+  @ApiResponse({ status: HttpStatus.OK, description: 'SSE 事件流' })
+  @ApiResponse({ status: HttpStatus.BAD_REQUEST, description: '输入参数错误' })
+  async streamCompleteAnalysis(
+    @Body(ChartInputPipe) dto: CalculateZiweiDto,
+    @Res() res: Response
+  ): Promise<void> {
+    const events = this.aiAnalysisStreamService.streamCompleteAnalysis(dto);
+    let next = await events.next();
+
+    res.status(HttpStatus.OK).set({
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive'
+    });
+    res.flushHeaders();
+
+    let closed = false;
+    res.on('close', () => {
+      closed = true;
+    });
+
+    try {
+      while (!next.done && !closed) {
+        this.writeEvent(res, next.value);
+        next = await events.next();
+      }
+    } catch (error) {
+      this.writeEvent(res, { event: 'error', data: { message: error.message } });
+    }
+    if (closed) {
+      await events.return(undefined);
+    }
+    res.end();
   }
 
   /**
@@ -54,9 +113,10 @@ export class AiAnalysisController {
   })
   @ApiSuccessResponse(PersonalityAnalysis, '性格分析生成成功')
   async getPersonalityAnalysis(
-    @Body() dto: CalculateZiweiDto
-  ): Promise<PersonalityAnalysis> {
-    return this.aiAnalysisService.getPersonalityAnalysis(dto);
+    @Body(ChartInputPipe) dto: CalculateZiweiDto
+  ): Promise<WithNarrative<PersonalityAnalysis>> {
+    const analysis = await this.aiAnalysisService.getPersonalityAnalysis(dto);
+    return this.aiNarrativeService.attachNarrative('personality', dto, analysis);
   }
 
   /**
@@ -72,9 +132,10 @@ export class AiAnalysisController {
   })
   @ApiSuccessResponse(CareerAnalysis, '事业财运分析生成成功')
   async getCareerAnalysis(
-    @Body() dto: CalculateZiweiDto
-  ): Promise<CareerAnalysis> {
-    return this.aiAnalysisService.getCareerAnalysis(dto);
+    @Body(ChartInputPipe) dto: CalculateZiweiDto
+  ): Promise<WithNarrative<CareerAnalysis>> {
+    const analysis = await this.aiAnalysisService.getCareerAnalysis(dto);
+    return this.aiNarrativeService.attachNarrative('career', dto, analysis);
   }
 
   /**
@@ -90,9 +151,10 @@ export class AiAnalysisController {
   })
   @ApiSuccessResponse(RelationshipAnalysis, '感情婚姻分析生成成功')
   async getRelationshipAnalysis(
-    @Body() dto: CalculateZiweiDto
-  ): Promise<RelationshipAnalysis> {
-    return this.aiAnalysisService.getRelationshipAnalysis(dto);
+    @Body(ChartInputPipe) dto: CalculateZiweiDto
+  ): Promise<WithNarrative<RelationshipAnalysis>> {
+    const analysis = await this.aiAnalysisService.getRelationshipAnalysis(dto);
+    return this.aiNarrativeService.attachNarrative('relationship', dto, analysis);
   }
 
   /**
@@ -108,9 +170,10 @@ export class AiAnalysisController {
   })
   @ApiSuccessResponse(HealthAnalysis, '健康状况分析生成成功')
   async getHealthAnalysis(
-    @Body() dto: CalculateZiweiDto
-  ): Promise<HealthAnalysis> {
-    return this.aiAnalysisService.getHealthAnalysis(dto);
+    @Body(ChartInputPipe) dto: CalculateZiweiDto
+  ): Promise<WithNarrative<HealthAnalysis>> {
+    const analysis = await this.aiAnalysisService.getHealthAnalysis(dto);
+    return this.aiNarrativeService.attachNarrative('health', dto, analysis);
   }
 
   /**
@@ -126,8 +189,18 @@ export class AiAnalysisController {
   })
   @ApiSuccessResponse(FortuneTrend, '运势走势分析生成成功')
   async getFortuneTrend(
-    @Body() dto: CalculateZiweiDto
-  ): Promise<FortuneTrend> {
-    return this.aiAnalysisService.getFortuneTrend(dto);
+    @Body(ChartInputPipe) dto: CalculateZiweiDto
+  ): Promise<WithNarrative<FortuneTrend>> {
+    const analysis = await this.aiAnalysisService.getFortuneTrend(dto);
+    return this.aiNarrativeService.attachNarrative('fortuneTrend', dto, analysis);
+  }
+
+  /**
+   * 写出一条 SSE 事件
+   * @param res 响应对象
+   * @param event 流式分析事件
+   */
+  private writeEvent(res: Response, event: AnalysisStreamEvent): void {
+    res.write(`event: ${event.event}\ndata: ${JSON.stringify(event.data)}\n\n`);
   }
 }
\ No newline at end of file
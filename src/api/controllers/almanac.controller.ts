@@ -1,12 +1,23 @@
-import { Controller, Post, Body, HttpCode, HttpStatus, Get, Query } from '@nestjs/common';
-import { ApiTags, ApiOperation, ApiResponse } from '@nestjs/swagger';
+import { Controller, Post, Body, HttpCode, HttpStatus, Get, Query, Res } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiQuery, ApiProduces } from '@nestjs/swagger';
+import { Response } from 'express';
 import { AlmanacService } from '../../core/almanac/almanac.service';
+import { DateSelectionService } from '../../core/almanac/date-selection.service';
+import { AlmanacCalendarService } from '../../core/almanac/almanac-calendar.service';
 import { GetAlmanacDto } from '../../api/dto/almanac.dto';
+import { SelectDatesDto } from '../../api/dto/date-selection.dto';
 import { 
   AlmanacResult, 
   LuckyDayResult, 
-  SolarTermResult 
+  SolarTermResult,
+  HourlyAlmanacResult,
+  MonthCalendarResult,
+  YearCalendarResult,
+  AlmanacCalendarEventType
 } from '../../shared/types/almanac.types';
+import { ALMANAC_CALENDAR_EVENT_TYPES } from '../../shared/constants/almanac.constants';
+import { SuitableAvoidResult } from '../../shared/types/suitability.types';
+import { DateSelectionResult } from '../../shared/types/date-selection.types';
 import { ApiSuccessResponse } from '../../shared/decorators/api-success-response.decorator';
 
 /**
@@ -16,7 +27,11 @@ import { ApiSuccessResponse } from '../../shared/decorators/api-success-response
 @ApiTags('almanac')
 @Controller('api/almanac')
 export class AlmanacController {
-  constructor(private readonly almanacService: AlmanacService) {}
+  constructor(
+    private readonly almanacService: AlmanacService,
+    private readonly dateSelectionService: DateSelectionService,
+    private readonly almanacCalendarService: AlmanacCalendarService
+  ) {}
 
   /**
    * 获取指定日期的黄历信息
@@ -57,6 +72,46 @@ export class AlmanacController {
     return this.almanacService.getLuckyDays(year, month);
   }
 
+  /**
+   * 获取指定月份的月历
+   * @param year 年份
+   * @param month 月份
+   * @returns 月历查询结果
+   */
+  @Get('month')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ 
+    summary: '获取指定月份月历',
+    description: '返回当月每日的公历农历、干支、建除、星宿、节气、节日、宜忌摘要及吉日标记，标出农历月首、闰月与交节换月'
+  })
+  @ApiResponse({ status: HttpStatus.BAD_REQUEST, description: '输入参数错误' })
+  @ApiSuccessResponse(MonthCalendarResult, '月历查询成功')
+  async getMonthCalendar(
+    @Query('year') year: number,
+    @Query('month') month: number
+  ): Promise<MonthCalendarResult> {
+    return this.almanacService.getMonthCalendar(year, month);
+  }
+
+  /**
+   * 获取指定年份的年历
+   * @param year 年份
+   * @returns 年历查询结果
+   */
+  @Get('year')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ 
+    summary: '获取指定年份年历',
+    description: '按月返回全年每日的精简黄历，并给出当年农历闰月'
+  })
+  @ApiResponse({ status: HttpStatus.BAD_REQUEST, description: '输入参数错误' })
+  @ApiSuccessResponse(YearCalendarResult, '年历查询成功')
+  async getYearCalendar(
+    @Query('year') year: number
+  ): Promise<YearCalendarResult> {
+    return this.almanacService.getYearCalendar(year);
+  }
+
   /**
    * 获取指定年份的节气信息
    * @param year 年份
@@ -84,16 +139,90 @@ export class AlmanacController {
   @HttpCode(HttpStatus.OK)
   @ApiOperation({ 
     summary: '获取指定日期宜忌事项',
-    description: '查询指定日期的适宜和避免事项'
+    description: '按建除十二神、黄道黑道及月令神煞推算指定日期的适宜和避免事项'
   })
-  @ApiSuccessResponse(Object, '宜忌事项查询成功')
+  @ApiSuccessResponse(SuitableAvoidResult, '宜忌事项查询成功')
   async getSuitableAvoid(
     @Query('date') date: string
-  ): Promise<{
-    suitable: string[];
-    avoid: string[];
-    date: string;
-  }> {
+  ): Promise<SuitableAvoidResult> {
     return this.almanacService.getSuitableAvoid(date);
   }
-}
\ No newline at end of file
+
+  /**
+   * 获取指定日期的十二时辰黄历
+   * @param date 日期 (YYYY-MM-DD)
+   * @returns 时辰黄历查询结果
+   */
+  @Get('hours')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ 
+    summary: '获取指定日期十二时辰吉凶',
+    description: '查询指定日期十二时辰的干支、黄道黑道、吉凶、冲煞及宜忌；子时分早子时与晚子时，晚子时按次日日干起时干'
+  })
+  @ApiSuccessResponse(HourlyAlmanacResult, '时辰黄历查询成功')
+  async getHourlyAlmanac(
+    @Query('date') date: string
+  ): Promise<HourlyAlmanacResult> {
+    return this.almanacService.getHourlyAlmanac(date);
+  }
+
+  /**
+   * 按事项择日
+   * @param dto 择日事项、日期范围及参与者出生信息
+   * @returns 按评分排序的候选日
+   */
+  @Post('select-dates')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ 
+    summary: '按事项择日',
+    description: '在日期范围内按事项宜忌、黄道黑道、神煞及与参与者年支日支的冲刑害为日期评分，返回排序后的候选日及评分依据'
+  })
+  @ApiResponse({ status: HttpStatus.BAD_REQUEST, description: '输入参数错误' })
+  @ApiSuccessResponse(DateSelectionResult, '择日成功')
+  async selectDates(
+    @Body() dto: SelectDatesDto
+  ): Promise<DateSelectionResult> {
+    return this.dateSelectionService.selectDates(dto);
+  }
+
+  /**
+   * 导出 iCalendar 日历
+   * @param startDate 起始日期 (YYYY-MM-DD)
+   * @param endDate 结束日期 (YYYY-MM-DD，含)
+   * @param types 事件类型，逗号分隔
+   * @param res HTTP响应
+   */
+  @Get('calendar.ics')
+  @ApiOperation({ 
+    summary: '导出黄历 iCalendar 日历',
+    description: '将日期范围内的黄道吉日、节气交节时刻和节日导出为 RFC 5545 iCalendar，可直接订阅或导入日历应用'
+  })
+  @ApiQuery({ name: 'startDate', description: '起始日期 (YYYY-MM-DD)', example: '2024-01-01' })
+  @ApiQuery({ name: 'endDate', description: '结束日期 (YYYY-MM-DD，含)，范围不超过366天', example: '2024-12-31' })
+  @ApiQuery({
+    name: 'types',
+    required: false,
+    description: `事件类型，逗号分隔，可选 ${ALMANAC_CALENDAR_EVENT_TYPES.join(', ')}，默认全部`
+  })
+  @ApiProduces('text/calendar')
+  @ApiResponse({ status: HttpStatus.OK, description: 'iCalendar 文本' })
+  @ApiResponse({ status: HttpStatus.BAD_REQUEST, description: '输入参数错误' })
+  async exportCalendar(
+    @Query('startDate') startDate: string,
+    @Query('endDate') endDate: string,
+    @Query('types') types: string | undefined,
+    @Res() res: Response
+  ): Promise<void> {
+    const calendar = await this.almanacCalendarService.exportCalendar(
+      startDate,
+      endDate,
+      types ? (types.split(',').map(type => type.trim()) as AlmanacCalendarEventType[]) : undefined
+    );
+
+    res
+      .status(HttpStatus.OK)
+      .type('text/calendar; charset=utf-8')
+      .setHeader('Content-Disposition', 'attachment; filename="almanac.ics"');
+    res.send(calendar);
+  }
+}
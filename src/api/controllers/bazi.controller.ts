@@ -0,0 +1,36 @@
+import { Controller, Post, Body, HttpCode, HttpStatus } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse } from '@nestjs/swagger';
+import { BaziService } from '../../core/bazi/bazi.service';
+import { CalculateBaziDto } from '../../api/dto/bazi.dto';
+import { BaziResult } from '../../shared/types/bazi.types';
+import { ChartInputPipe } from '../../api/pipes/chart-input.pipe';
+import { ApiSuccessResponse } from '../../shared/decorators/api-success-response.decorator';
+
+/**
+ * 八字控制器
+ * 处理与八字排盘相关的API请求
+ */
+@ApiTags('bazi')
+@Controller('api/bazi')
+export class BaziController {
+  constructor(private readonly baziService: BaziService) {}
+
+  /**
+   * 八字排盘
+   * @param dto 包含出生信息的请求数据
+   * @returns 八字分析结果
+   */
+  @Post('calculate')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: '八字排盘',
+    description: '根据出生信息计算四柱的十神、藏干、纳音、十二长生，五行力量与日主旺衰，以及大运（按距节气天数起运）和流年'
+  })
+  @ApiResponse({ status: HttpStatus.BAD_REQUEST, description: '输入参数错误' })
+  @ApiSuccessResponse(BaziResult, '八字排盘成功')
+  async calculateBazi(
+    @Body(ChartInputPipe) dto: CalculateBaziDto
+  ): Promise<BaziResult> {
+    return this.baziService.calculateBazi(dto);
+  }
+}
@@ -0,0 +1,77 @@
+import { Controller, Post, Body, HttpCode, HttpStatus } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse } from '@nestjs/swagger';
+import { CalendarService } from '../../core/calendar/calendar.service';
+import { ConvertDateDto, DayPillarLookupDto, LunarDateLookupDto } from '../../api/dto/calendar.dto';
+import {
+  DateConversionResult,
+  DayPillarLookupResult,
+  LunarDateLookupResult
+} from '../../shared/types/calendar.types';
+import { ApiSuccessResponse } from '../../shared/decorators/api-success-response.decorator';
+
+/**
+ * 历法换算控制器
+ * 处理公历农历互换及日期反查相关的API请求
+ */
+@ApiTags('calendar')
+@Controller('api/calendar')
+export class CalendarController {
+  constructor(private readonly calendarService: CalendarService) {}
+
+  /**
+   * 公历农历互换
+   * @param dto 日期及其类型
+   * @returns 换算结果
+   */
+  @Post('convert')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: '公历农历互换',
+    description: '公历转农历或农历转公历（支持闰月），同时返回年月日干支'
+  })
+  @ApiResponse({ status: HttpStatus.BAD_REQUEST, description: '日期不存在或超出1900-2100范围' })
+  @ApiSuccessResponse(DateConversionResult, '日期换算成功')
+  async convert(
+    @Body() dto: ConvertDateDto
+  ): Promise<DateConversionResult> {
+    return this.calendarService.convert(dto);
+  }
+
+  /**
+   * 按日柱反查公历日期
+   * @param dto 日柱干支及年份范围
+   * @returns 匹配的公历日期
+   */
+  @Post('lookup/day-pillar')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: '按日柱反查日期',
+    description: '查找年份范围内日柱为指定干支的全部公历日期，默认范围1900-2100'
+  })
+  @ApiResponse({ status: HttpStatus.BAD_REQUEST, description: '干支无效或年份超出范围' })
+  @ApiSuccessResponse(DayPillarLookupResult, '日柱反查成功')
+  async lookupDayPillar(
+    @Body() dto: DayPillarLookupDto
+  ): Promise<DayPillarLookupResult> {
+    return this.calendarService.findDayPillarDates(dto);
+  }
+
+  /**
+   * 按农历月日反查各年公历日期
+   * @param dto 农历月日及年份范围
+   * @returns 各年对应日期
+   */
+  @Post('lookup/lunar-date')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: '按农历月日反查日期',
+    description: '查找各农历年中指定农历月日（如八月十五、闰四月初一）对应的公历日期，并列出不存在该日期的年份'
+  })
+  @ApiResponse({ status: HttpStatus.BAD_REQUEST, description: '月日无效或年份超出范围' })
+  @ApiSuccessResponse(LunarDateLookupResult, '农历日期反查成功')
+  async lookupLunarDate(
+    @Body() dto: LunarDateLookupDto
+  ): Promise<LunarDateLookupResult> {
+    return this.calendarService.findLunarDates(dto);
+  }
+}
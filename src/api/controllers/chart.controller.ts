@@ -0,0 +1,113 @@
+import { Controller, Get, Post, Put, Delete, Body, Param, HttpCode, HttpStatus } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiParam } from '@nestjs/swagger';
+import { ChartStorageService } from '../../core/storage/chart-storage.service';
+import { SaveChartDto } from '../../api/dto/chart-storage.dto';
+import { StoredChart, StoredChartList, StoredChartSummary } from '../../shared/types/chart-storage.types';
+import { ApiSuccessResponse } from '../../shared/decorators/api-success-response.decorator';
+
+/**
+ * 命盘存储控制器
+ * 保存、查询、更新与删除命盘，保存后紫微斗数与AI命理分析接口可用 chartId 代替出生信息
+ */
+@ApiTags('charts')
+@Controller('api/charts')
+export class ChartController {
+  constructor(private readonly chartStorageService: ChartStorageService) {}
+
+  /**
+   * 保存命盘
+   * @param dto 出生信息及档案名
+   * @returns 已保存的命盘
+   */
+  @Post()
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({ 
+    summary: '保存命盘',
+    description: '保存规范化的出生信息及计算所得星盘，返回命盘标识；可指定唯一的档案名（如 me、spouse）作为 chartId 使用'
+  })
+  @ApiResponse({ status: HttpStatus.BAD_REQUEST, description: '输入参数错误或档案名已存在' })
+  @ApiSuccessResponse(StoredChart, '命盘保存成功')
+  async saveChart(
+    @Body() dto: SaveChartDto
+  ): Promise<StoredChart> {
+    return this.chartStorageService.saveChart(dto);
+  }
+
+  /**
+   * 列出已保存的命盘
+   * @returns 命盘概要列表
+   */
+  @Get()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ 
+    summary: '列出已保存的命盘',
+    description: '按创建时间列出全部命盘的标识、档案名与出生信息，不含星盘'
+  })
+  @ApiSuccessResponse(StoredChartList, '命盘列表查询成功')
+  async listCharts(): Promise<StoredChartList> {
+    return this.chartStorageService.listCharts();
+  }
+
+  /**
+   * 获取命盘
+   * @param id 命盘标识或档案名
+   * @returns 已保存的命盘
+   */
+  @Get(':id')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ 
+    summary: '获取命盘',
+    description: '按命盘标识或档案名获取出生信息及保存时计算的星盘'
+  })
+  @ApiParam({ name: 'id', description: '命盘标识或档案名', example: 'me' })
+  @ApiResponse({ status: HttpStatus.NOT_FOUND, description: '命盘不存在' })
+  @ApiSuccessResponse(StoredChart, '命盘查询成功')
+  async getChart(
+    @Param('id') id: string
+  ): Promise<StoredChart> {
+    return this.chartStorageService.getChart(id);
+  }
+
+  /**
+   * 更新命盘
+   * @param id 命盘标识或档案名
+   * @param dto 出生信息及档案名
+   * @returns 更新后的命盘
+   */
+  @Put(':id')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ 
+    summary: '更新命盘',
+    description: '以新的出生信息重新计算星盘并覆盖保存；未提供档案名或备注名称时保持原值'
+  })
+  @ApiParam({ name: 'id', description: '命盘标识或档案名', example: 'me' })
+  @ApiResponse({ status: HttpStatus.BAD_REQUEST, description: '输入参数错误或档案名已存在' })
+  @ApiResponse({ status: HttpStatus.NOT_FOUND, description: '命盘不存在' })
+  @ApiSuccessResponse(StoredChart, '命盘更新成功')
+  async updateChart(
+    @Param('id') id: string,
+    @Body() dto: SaveChartDto
+  ): Promise<StoredChart> {
+    return this.chartStorageService.updateChart(id, dto);
+  }
+
+  /**
+   * 删除命盘
+   * @param id 命盘标识或档案名
+   * @returns 被删除命盘的概要
+   */
+  @Delete(':id')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ 
+    summary: '删除命盘',
+    description: '按命盘标识或档案名删除命盘'
+  })
+  @ApiParam({ name: 'id', description: '命盘标识或档案名', example: 'me' })
+  @ApiResponse({ status: HttpStatus.NOT_FOUND, description: '命盘不存在' })
+  @ApiSuccessResponse(StoredChartSummary, '命盘删除成功')
+  async deleteChart(
+    @Param('id') id: string
+  ): Promise<StoredChartSummary> {
+    return this.chartStorageService.deleteChart(id);
+  }
+}
@@ -0,0 +1,80 @@
+import { Controller, Post, Get, Delete, Req, Res, HttpStatus, Logger } from '@nestjs/common';
+import { ApiExcludeController } from '@nestjs/swagger';
+import { Request, Response } from 'express';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { McpService } from '../../mcp/mcp.service';
+
+/**
+ * MCP控制器
+ * 以无状态 Streamable HTTP 方式提供MCP协议接入
+ */
+@ApiExcludeController()
+@Controller('mcp')
+export class McpController {
+  private readonly logger = new Logger(McpController.name);
+
+  constructor(private readonly mcpService: McpService) {}
+
+  /**
+   * 处理MCP JSON-RPC请求
+   * 每个请求创建独立的Server与Transport，请求结束后释放
+   * @param req HTTP请求
+   * @param res HTTP响应
+   */
+  @Post()
+  async handleRequest(@Req() req: Request, @Res() res: Response): Promise<void> {
+    const server = this.mcpService.createServer();
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: undefined
+    });
+
+    res.on('close', () => {
+      transport.close();
+      server.close();
+    });
+
+    try {
+      await server.connect(transport);
+      await transport.handleRequest(req, res, req.body);
+    } catch (error) {
+      this.logger.error('MCP请求处理失败', error.stack);
+      if (!res.headersSent) {
+        res.status(HttpStatus.INTERNAL_SERVER_ERROR).json({
+          jsonrpc: '2.0',
+          error: { code: -32603, message: 'Internal server error' },
+          id: null
+        });
+      }
+    }
+  }
+
+  /**
+   * 无状态模式不支持服务端推送流
+   * @param res HTTP响应
+   */
+  @Get()
+  handleStream(@Res() res: Response): void {
+    this.rejectMethod(res);
+  }
+
+  /**
+   * 无状态模式不存在可终止的会话
+   * @param res HTTP响应
+   */
+  @Delete()
+  handleSessionDelete(@Res() res: Response): void {
+    this.rejectMethod(res);
+  }
+
+  /**
+   * 返回不支持的请求方法错误
+   * @param res HTTP响应
+   */
+  private rejectMethod(res: Response): void {
+    res.status(HttpStatus.METHOD_NOT_ALLOWED).json({
+      jsonrpc: '2.0',
+      error: { code: -32000, message: 'Method not allowed.' },
+      id: null
+    });
+  }
+}
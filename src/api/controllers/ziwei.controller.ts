@@ -1,8 +1,22 @@
-import { Controller, Post, Body, HttpCode, HttpStatus } from '@nestjs/common';
-import { ApiTags, ApiOperation, ApiResponse } from '@nestjs/swagger';
+import { Controller, Post, Body, HttpCode, HttpStatus, Res } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiProduces } from '@nestjs/swagger';
+import { Response } from 'express';
 import { ZiweiService } from '../../core/ziwei/ziwei.service';
-import { CalculateZiweiDto } from '../../api/dto/ziwei.dto';
+import { CompatibilityService } from '../../core/ziwei/compatibility.service';
+import { ChartRendererService } from '../../core/ziwei/chart-renderer.service';
+import { ChartContextService } from '../../core/ziwei/chart-context.service';
+import { PatternService } from '../../core/ziwei/pattern.service';
+import { CalculateZiweiDto, ZiweiTimelineDto } from '../../api/dto/ziwei.dto';
+import { CheckTransformationDto } from '../../api/dto/transformation.dto';
+import { CompatibilityDto } from '../../api/dto/compatibility.dto';
+import { ChartContextDto } from '../../api/dto/chart-context.dto';
 import { ZiweiChartResult } from '../../shared/types/ziwei.types';
+import { PalaceTransformationCheckResult } from '../../shared/types/transformation.types';
+import { ZiweiTimelineResult } from '../../shared/types/timeline.types';
+import { CompatibilityResult } from '../../shared/types/compatibility.types';
+import { ChartContextResult } from '../../shared/types/chart-context.types';
+import { PatternAnalysisResult } from '../../shared/types/pattern.types';
+import { ChartInputPipe } from '../../api/pipes/chart-input.pipe';
 import { ApiSuccessResponse } from '../../shared/decorators/api-success-response.decorator';
 
 /**
@@ -12,7 +26,13 @@ import { ApiSuccessResponse } from '../../shared/decorators/api-success-response
 @ApiTags('ziwei')
 @Controller('api/ziwei')
 export class ZiweiController {
-  constructor(private readonly ziweiService: ZiweiService) {}
+  constructor(
+    private readonly ziweiService: ZiweiService,
+    private readonly compatibilityService: CompatibilityService,
+    private readonly chartRendererService: ChartRendererService,
+    private readonly chartContextService: ChartContextService,
+    private readonly patternService: PatternService
+  ) {}
 
   /**
    * 计算紫微斗数星盘
@@ -23,16 +43,134 @@ export class ZiweiController {
   @HttpCode(HttpStatus.OK)
   @ApiOperation({ 
     summary: '计算紫微斗数星盘',
-    description: '根据出生信息计算完整的紫微斗数12宫星盘数据、运限信息和星耀分析'
+    description: '根据出生信息计算完整的紫微斗数12宫星盘数据、运限信息和星耀分析，可指定运限参考日期'
   })
   @ApiResponse({ status: HttpStatus.BAD_REQUEST, description: '输入参数错误' })
   @ApiSuccessResponse(ZiweiChartResult, '紫微斗数星盘计算成功')
   async calculateZiweiChart(
-    @Body() dto: CalculateZiweiDto
+    @Body(ChartInputPipe) dto: CalculateZiweiDto
   ): Promise<ZiweiChartResult> {
     return this.ziweiService.calculateZiweiChart(dto);
   }
 
+  /**
+   * 绘制命盘 SVG
+   * @param dto 包含出生信息的请求数据
+   * @param res 响应对象
+   */
+  @Post('chart.svg')
+  @ApiOperation({ 
+    summary: '绘制命盘 SVG',
+    description: '按传统4×4方盘绘制十二宫，含宫干支、主星亮度、辅星、生年四化标记、当前大限与流年高亮及中央四柱信息'
+  })
+  @ApiProduces('image/svg+xml')
+  @ApiResponse({ status: HttpStatus.OK, description: 'SVG 图片' })
+  @ApiResponse({ status: HttpStatus.BAD_REQUEST, description: '输入参数错误' })
+  async renderChartSvg(
+    @Body(ChartInputPipe) dto: CalculateZiweiDto,
+    @Res() res: Response
+  ): Promise<void> {
+    const svg = await this.chartRendererService.renderSvg(dto);
+    res.status(HttpStatus.OK).type('image/svg+xml; charset=utf-8').send(svg);
+  }
+
+  /**
+   * 绘制命盘 PNG
+   * @param dto 包含出生信息的请求数据
+   * @param res 响应对象
+   */
+  @Post('chart.png')
+  @ApiOperation({ 
+    summary: '绘制命盘 PNG',
+    description: '与 chart.svg 内容相同，在服务端栅格化为 PNG，无需浏览器'
+  })
+  @ApiProduces('image/png')
+  @ApiResponse({ status: HttpStatus.OK, description: 'PNG 图片' })
+  @ApiResponse({ status: HttpStatus.BAD_REQUEST, description: '输入参数错误' })
+  async renderChartPng(
+    @Body(ChartInputPipe) dto: CalculateZiweiDto,
+    @Res() res: Response
+  ): Promise<void> {
+    const png = await this.chartRendererService.renderPng(dto);
+    res.status(HttpStatus.OK).type('image/png').send(png);
+  }
+
+  /**
+   * 导出命盘文本
+   * @param dto 包含出生信息及导出选项的请求数据
+   * @returns 命盘文本及预算使用情况
+   */
+  @Post('context')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ 
+    summary: '导出命盘文本',
+    description: '将星盘整理为可直接放入大模型提示词的纯文本或 Markdown，各节顺序固定（基本信息、四柱、生年四化、当前运限、宫位星曜、大限排列、宫干自化），可选详略与 token 预算'
+  })
+  @ApiResponse({ status: HttpStatus.BAD_REQUEST, description: '输入参数错误' })
+  @ApiSuccessResponse(ChartContextResult, '命盘文本导出成功')
+  async exportChartContext(
+    @Body(ChartInputPipe) dto: ChartContextDto
+  ): Promise<ChartContextResult> {
+    return this.chartContextService.exportContext(dto);
+  }
+
+  /**
+   * 格局分析
+   * @param dto 包含出生信息的请求数据
+   * @returns 命中的格局
+   */
+  @Post('patterns')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ 
+    summary: '格局分析',
+    description: '按规则库检查星盘中的星曜组合（紫府同宫、机月同梁、杀破狼、火贪格、羊陀夹忌、禄马交驰等），返回成立的格局、成格宫位、构成星曜与断语'
+  })
+  @ApiResponse({ status: HttpStatus.BAD_REQUEST, description: '输入参数错误' })
+  @ApiSuccessResponse(PatternAnalysisResult, '格局分析成功')
+  async analyzePatterns(
+    @Body(ChartInputPipe) dto: CalculateZiweiDto
+  ): Promise<PatternAnalysisResult> {
+    return this.patternService.analyzePatterns(dto);
+  }
+
+  /**
+   * 获取运限时间线
+   * @param dto 包含出生信息和年份范围的请求数据
+   * @returns 大限列表及逐年流年、小限信息
+   */
+  @Post('timeline')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ 
+    summary: '获取运限时间线',
+    description: '列出全部大限的宫位与宫干四化，并给出指定年份范围内每年的流年命宫、流年四化和小限宫位'
+  })
+  @ApiResponse({ status: HttpStatus.BAD_REQUEST, description: '输入参数错误' })
+  @ApiSuccessResponse(ZiweiTimelineResult, '运限时间线计算成功')
+  async calculateTimeline(
+    @Body(ChartInputPipe) dto: ZiweiTimelineDto
+  ): Promise<ZiweiTimelineResult> {
+    return this.ziweiService.calculateTimeline(dto);
+  }
+
+  /**
+   * 合盘分析
+   * @param dto 包含双方出生信息的请求数据
+   * @returns 合盘结果及分项得分
+   */
+  @Post('compatibility')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ 
+    summary: '合盘分析',
+    description: '比较两人的星盘与四柱：星曜叠入对方夫妻宫、交友宫、官禄宫，生年四化飞入对方宫位，年支日支合冲刑害及五行互补，并给出分项得分'
+  })
+  @ApiResponse({ status: HttpStatus.BAD_REQUEST, description: '输入参数错误' })
+  @ApiSuccessResponse(CompatibilityResult, '合盘分析成功')
+  async analyzeCompatibility(
+    @Body(ChartInputPipe) dto: CompatibilityDto
+  ): Promise<CompatibilityResult> {
+    return this.compatibilityService.analyzeCompatibility(dto);
+  }
+
   /**
    * 获取指定宫位的三方四正宫位
    * @param palaceName 宫位名称
@@ -58,32 +196,20 @@ export class ZiweiController {
 
   /**
    * 判断指定宫位是否存在四化
-   * @param params 包含宫位名称和四化类型的参数
-   * @returns 判断结果
+   * @param dto 包含出生信息、目标宫位和四化类型的请求数据
+   * @returns 本命、大限、流年三个层次的判断结果
    */
   @Post('check-transformation')
   @HttpCode(HttpStatus.OK)
   @ApiOperation({ 
     summary: '判断宫位是否存在四化',
-    description: '检查指定宫位三方四正是否存在指定类型的四化星'
+    description: '根据出生信息计算星盘，分别检查本命、大限和流年（以参考日期为准）的化禄、化权、化科、化忌是否落入指定宫位的三方四正'
   })
-  @ApiSuccessResponse(Object, '四化判断成功')
+  @ApiResponse({ status: HttpStatus.BAD_REQUEST, description: '输入参数错误' })
+  @ApiSuccessResponse(PalaceTransformationCheckResult, '四化判断成功')
   async checkPalaceTransformation(
-    @Body() params: {
-      palaceName: string;
-      transformationType: 'huaquan' | 'huake' | 'huaxing' | 'huaji';
-    }
-  ): Promise<{
-    exists: boolean;
-    details: Array<{
-      palace: string;
-      star: string;
-      transformation: string;
-    }>;
-  }> {
-    return this.ziweiService.checkPalaceTransformation(
-      params.palaceName,
-      params.transformationType
-    );
+    @Body(ChartInputPipe) dto: CheckTransformationDto
+  ): Promise<PalaceTransformationCheckResult> {
+    return this.ziweiService.checkPalaceTransformation(dto);
   }
 }
\ No newline at end of file
@@ -0,0 +1,14 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { CalculateZiweiDto } from './ziwei.dto';
+
+/**
+ * 八字排盘请求
+ * 出生信息与紫微斗数排盘相同，参考日期用于确定当前大运与流年
+ */
+export class CalculateBaziDto extends CalculateZiweiDto {
+  @ApiPropertyOptional({ description: '流年起始公历年，默认为参考日期所在大运的起始年', example: 2020 })
+  annualStartYear?: number;
+
+  @ApiPropertyOptional({ description: '流年结束公历年（含），默认为参考日期所在大运的结束年，范围不超过120年', example: 2029 })
+  annualEndYear?: number;
+}
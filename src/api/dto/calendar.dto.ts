@@ -0,0 +1,49 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+/**
+ * 公历农历互换请求
+ */
+export class ConvertDateDto {
+  @ApiProperty({ description: '日期 (YYYY-MM-DD)', example: '2024-08-15' })
+  date: string;
+
+  @ApiProperty({ description: '输入日期类型：solar 公历转农历 / lunar 农历转公历', enum: ['solar', 'lunar'], example: 'lunar' })
+  from: 'solar' | 'lunar';
+
+  @ApiPropertyOptional({ description: '农历日期是否为闰月（仅 from 为 lunar 时有效）', example: false })
+  isLeapMonth?: boolean;
+}
+
+/**
+ * 按日柱反查公历日期请求
+ */
+export class DayPillarLookupDto {
+  @ApiProperty({ description: '日柱干支', example: '甲子' })
+  ganzhi: string;
+
+  @ApiPropertyOptional({ description: '起始公历年，默认1900', example: 1900 })
+  startYear?: number;
+
+  @ApiPropertyOptional({ description: '结束公历年（含），默认2100', example: 2100 })
+  endYear?: number;
+}
+
+/**
+ * 按农历月日反查各年公历日期请求
+ */
+export class LunarDateLookupDto {
+  @ApiProperty({ description: '农历月 (1-12)', example: 8 })
+  month: number;
+
+  @ApiProperty({ description: '农历日 (1-30)', example: 15 })
+  day: number;
+
+  @ApiPropertyOptional({ description: '是否为闰月', example: false })
+  isLeapMonth?: boolean;
+
+  @ApiProperty({ description: '起始农历年', example: 2020 })
+  startYear: number;
+
+  @ApiProperty({ description: '结束农历年（含）', example: 2030 })
+  endYear: number;
+}
@@ -0,0 +1,22 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { CalculateZiweiDto } from './ziwei.dto';
+import { CONTEXT_DETAIL_LEVELS, CONTEXT_FORMATS } from '../../shared/constants/chart.constants';
+import { ContextDetailLevel, ContextFormat } from '../../shared/types/chart-context.types';
+
+/**
+ * 命盘文本导出请求
+ */
+export class ChartContextDto extends CalculateZiweiDto {
+  @ApiPropertyOptional({ description: '导出格式，默认为 text', enum: CONTEXT_FORMATS, example: 'markdown' })
+  format?: ContextFormat;
+
+  @ApiPropertyOptional({
+    description: '详略：summary 仅命宫三方四正主星，standard 为十二宫主辅煞星（默认），full 另含杂曜、长生十二神与宫干自化',
+    enum: CONTEXT_DETAIL_LEVELS,
+    example: 'standard'
+  })
+  detail?: ContextDetailLevel;
+
+  @ApiPropertyOptional({ description: 'token 预算（不少于50），超出时按优先级省略靠后的节', example: 800 })
+  maxTokens?: number;
+}
@@ -0,0 +1,14 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { CalculateZiweiDto } from './ziwei.dto';
+
+/**
+ * 保存命盘请求
+ * 仅保存出生信息字段；运限参考日期只用于计算随之保存的星盘
+ */
+export class SaveChartDto extends CalculateZiweiDto {
+  @ApiPropertyOptional({ description: '档案名，唯一，可代替命盘标识作为 chartId 使用，如 me、spouse', example: 'me' })
+  profile?: string;
+
+  @ApiPropertyOptional({ description: '备注名称', example: '本人' })
+  name?: string;
+}
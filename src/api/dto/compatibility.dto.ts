@@ -0,0 +1,22 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { CalculateZiweiDto } from './ziwei.dto';
+import { COMPATIBILITY_RELATIONSHIPS } from '../../shared/constants/compatibility.constants';
+import { CompatibilityRelationship } from '../../shared/types/compatibility.types';
+
+/**
+ * 合盘请求
+ */
+export class CompatibilityDto {
+  @ApiProperty({ description: '甲方出生信息', type: CalculateZiweiDto })
+  personA: CalculateZiweiDto;
+
+  @ApiProperty({ description: '乙方出生信息', type: CalculateZiweiDto })
+  personB: CalculateZiweiDto;
+
+  @ApiPropertyOptional({
+    description: '关系类型：couple 伴侣（侧重夫妻宫，默认）/ business 合作伙伴（侧重交友宫、官禄宫）',
+    enum: COMPATIBILITY_RELATIONSHIPS,
+    example: 'couple'
+  })
+  relationship?: CompatibilityRelationship;
+}
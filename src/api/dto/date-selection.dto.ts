@@ -0,0 +1,35 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+/**
+ * 择日参与者
+ */
+export class DateSelectionParticipantDto {
+  @ApiPropertyOptional({ description: '参与者名称，用于说明评分依据', example: '新郎' })
+  name?: string;
+
+  @ApiProperty({ description: '公历出生日期 (YYYY-MM-DD)', example: '1992-08-15' })
+  birthDate: string;
+}
+
+/**
+ * 择日请求
+ */
+export class SelectDatesDto {
+  @ApiProperty({ description: '择日事项，如嫁娶、开业、入宅、动土、出行', example: '嫁娶' })
+  activity: string;
+
+  @ApiProperty({ description: '起始日期 (YYYY-MM-DD，公历)', example: '2024-02-01' })
+  startDate: string;
+
+  @ApiProperty({ description: '结束日期 (YYYY-MM-DD，公历，含)，范围不超过366天', example: '2024-03-31' })
+  endDate: string;
+
+  @ApiPropertyOptional({
+    description: '参与者出生信息，用于排除与其年支、日支相冲刑害的日子',
+    type: [DateSelectionParticipantDto]
+  })
+  participants?: DateSelectionParticipantDto[];
+
+  @ApiPropertyOptional({ description: '返回候选日数量，默认10，最多100', example: 10 })
+  limit?: number;
+}
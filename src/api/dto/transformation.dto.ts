@@ -0,0 +1,16 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { CalculateZiweiDto } from './ziwei.dto';
+import { TRANSFORMATION_TYPES } from '../../shared/constants/ziwei.constants';
+import { TransformationType } from '../../shared/types/transformation.types';
+
+/**
+ * 宫位四化判断请求
+ * 在出生信息基础上指定目标宫位和四化类型
+ */
+export class CheckTransformationDto extends CalculateZiweiDto {
+  @ApiProperty({ description: '目标宫位名称', example: '命宫' })
+  palaceName: string;
+
+  @ApiProperty({ description: '四化类型', enum: TRANSFORMATION_TYPES, example: 'hualu' })
+  transformationType: TransformationType;
+}
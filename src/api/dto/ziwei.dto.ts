@@ -0,0 +1,80 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { ZI_HOUR_MODES } from '../../shared/constants/ziwei.constants';
+import { ZiHourMode } from '../../shared/types/birth-time.types';
+
+/**
+ * 紫微斗数星盘计算请求
+ */
+export class CalculateZiweiDto {
+  @ApiPropertyOptional({
+    description: '已保存命盘的标识或档案名（见 /api/charts），提供时使用保存的出生信息，可省略以下出生信息字段；运限参考日期等其余参数仍取自请求',
+    example: 'me'
+  })
+  chartId?: string;
+
+  @ApiProperty({ description: '出生日期 (YYYY-MM-DD)', example: '1990-05-17' })
+  birthDate: string;
+
+  @ApiProperty({ description: '出生时间 (HH:MM，24小时制)', example: '14:30' })
+  birthTime: string;
+
+  @ApiPropertyOptional({
+    description: '出生时间所用时区，IANA名称（如 America/New_York）或UTC偏移（如 +05:30），默认为 Asia/Shanghai 并按1986-1991年中国夏令时换算',
+    example: 'Asia/Shanghai'
+  })
+  timeZone?: string;
+
+  @ApiProperty({ description: '出生地点，用于查找经度做真太阳时校正，如“广东省深圳市”', example: '北京' })
+  birthPlace: string;
+
+  @ApiPropertyOptional({ description: '出生地经度（东经为正），指定后优先于出生地点查询结果', example: 116.41 })
+  longitude?: number;
+
+  @ApiPropertyOptional({ description: '出生地纬度（北纬为正）', example: 39.9 })
+  latitude?: number;
+
+  @ApiPropertyOptional({ description: '是否按真太阳时校正出生时间，默认为 true', example: true })
+  trueSolarTime?: boolean;
+
+  @ApiProperty({ description: '性别', enum: ['male', 'female'], example: 'male' })
+  gender: 'male' | 'female';
+
+  @ApiProperty({ description: '日期类型：solar 公历 / lunar 农历', enum: ['solar', 'lunar'], example: 'solar' })
+  dateType: 'solar' | 'lunar';
+
+  @ApiPropertyOptional({
+    description: '农历出生日期是否为闰月（仅 dateType 为 lunar 时有效），如闰四月填 birthDate 为 YYYY-04-DD 并设为 true',
+    example: false
+  })
+  isLeapMonth?: boolean;
+
+  @ApiPropertyOptional({
+    description: '子时换日方式：switchAt23 为23点起算次日（默认），switchAt0 为0点换日、23点后按当日晚子时排盘',
+    enum: ZI_HOUR_MODES,
+    example: 'switchAt23'
+  })
+  ziHourMode?: ZiHourMode;
+
+  @ApiPropertyOptional({
+    description: '运限参考日期 (YYYY-MM-DD，公历)，用于推算大限、小限、流年、流月、流日、流时，默认为当前日期',
+    example: '2019-06-01'
+  })
+  targetDate?: string;
+
+  @ApiPropertyOptional({
+    description: '运限参考时间 (HH:MM，24小时制)，用于推算流时，默认为 00:00；未指定参考日期时取当前时间',
+    example: '09:00'
+  })
+  targetTime?: string;
+}
+
+/**
+ * 运限时间线请求
+ */
+export class ZiweiTimelineDto extends CalculateZiweiDto {
+  @ApiProperty({ description: '起始农历年', example: 2015 })
+  startYear: number;
+
+  @ApiProperty({ description: '结束农历年（含），范围不超过120年', example: 2030 })
+  endYear: number;
+}
@@ -0,0 +1,42 @@
+import { Injectable, PipeTransform } from '@nestjs/common';
+import { ChartStorageService } from '../../core/storage/chart-storage.service';
+
+/**
+ * 命盘输入管道
+ * 将请求体中的 chartId 还原为已保存的出生信息；合盘等嵌套出生信息的请求体对带 chartId 的一级字段同样处理
+ */
+@Injectable()
+export class ChartInputPipe implements PipeTransform {
+  constructor(private readonly chartStorageService: ChartStorageService) {}
+
+  /**
+   * 还原出生信息
+   * @param value 请求体
+   * @returns 含完整出生信息的请求体
+   */
+  async transform(value: unknown): Promise<unknown> {
+    if (!value || typeof value !== 'object') {
+      return value;
+    }
+
+    const body = { ...(value as Record<string, unknown>) };
+    const nested = Object.keys(body).filter(key => this.isChartInput(body[key]));
+    if (nested.length === 0) {
+      return this.chartStorageService.resolveInput(body);
+    }
+
+    for (const key of nested) {
+      body[key] = await this.chartStorageService.resolveInput(body[key] as Record<string, unknown>);
+    }
+    return body;
+  }
+
+  /**
+   * 是否为嵌套的出生信息（含 chartId 或出生日期的对象）
+   * @param value 字段值
+   */
+  private isChartInput(value: unknown): boolean {
+    return Boolean(value) && typeof value === 'object' && !Array.isArray(value) &&
+      ('chartId' in (value as object) || 'birthDate' in (value as object));
+  }
+}
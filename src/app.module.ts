@@ -1,20 +1,64 @@
 import { Module } from '@nestjs/common';
 import { ZiweiController } from './api/controllers/ziwei.controller';
 import { AlmanacController } from './api/controllers/almanac.controller';
+import { CalendarController } from './api/controllers/calendar.controller';
+import { BaziController } from './api/controllers/bazi.controller';
 import { AiAnalysisController } from './api/controllers/ai-analysis.controller';
+import { McpController } from './api/controllers/mcp.controller';
+import { ChartController } from './api/controllers/chart.controller';
 import { ZiweiService } from './core/ziwei/ziwei.service';
+import { PalaceLayoutService } from './core/ziwei/palace-layout.service';
+import { BirthTimeService } from './core/ziwei/birth-time.service';
+import { CompatibilityService } from './core/ziwei/compatibility.service';
+import { ChartRendererService } from './core/ziwei/chart-renderer.service';
+import { ChartContextService } from './core/ziwei/chart-context.service';
+import { PatternService } from './core/ziwei/pattern.service';
 import { AlmanacService } from './core/almanac/almanac.service';
+import { SuitabilityService } from './core/almanac/suitability.service';
+import { DateSelectionService } from './core/almanac/date-selection.service';
+import { AlmanacCalendarService } from './core/almanac/almanac-calendar.service';
+import { CalendarService } from './core/calendar/calendar.service';
+import { BaziService } from './core/bazi/bazi.service';
 import { AiAnalysisService } from './core/ai/ai-analysis.service';
+import { AiNarrativeService } from './core/ai/ai-narrative.service';
+import { AiAnalysisStreamService } from './core/ai/ai-analysis-stream.service';
+import { LlmService } from './core/ai/llm.service';
+import { PromptBuilderService } from './core/ai/prompt-builder.service';
+import { ChartStorageService } from './core/storage/chart-storage.service';
 import { Tyme4tsService } from './services/tyme4ts/tyme4ts.service';
 import { IztroService } from './services/iztro/iztro.service';
+import { McpService } from './mcp/mcp.service';
 import { ConfigModule } from '@nestjs/config';
 import { SwaggerModule, DocumentBuilder } from '@nestjs/swagger';
 import { INestApplication } from '@nestjs/common';
 
 @Module({
   imports: [ConfigModule.forRoot()],
-  controllers: [ZiweiController, AlmanacController, AiAnalysisController],
-  providers: [ZiweiService, AlmanacService, AiAnalysisService, Tyme4tsService, IztroService],
+  controllers: [ZiweiController, AlmanacController, CalendarController, BaziController, AiAnalysisController, ChartController, McpController],
+  providers: [
+    ZiweiService,
+    PalaceLayoutService,
+    BirthTimeService,
+    CompatibilityService,
+    ChartRendererService,
+    ChartContextService,
+    PatternService,
+    AlmanacService,
+    SuitabilityService,
+    DateSelectionService,
+    AlmanacCalendarService,
+    CalendarService,
+    BaziService,
+    AiAnalysisService,
+    AiNarrativeService,
+    AiAnalysisStreamService,
+    LlmService,
+    PromptBuilderService,
+    ChartStorageService,
+    Tyme4tsService,
+    IztroService,
+    McpService
+  ],
 })
 export class AppModule {
   /**
@@ -28,7 +72,10 @@ export class AppModule {
       .setVersion('1.0')
       .addTag('ziwei', '紫微斗数相关接口')
       .addTag('almanac', '黄历查询相关接口')
+      .addTag('calendar', '历法换算相关接口')
+      .addTag('bazi', '八字排盘相关接口')
       .addTag('ai-analysis', 'AI命理分析相关接口')
+      .addTag('charts', '命盘存储相关接口')
       .build();
       
     const document = SwaggerModule.createDocument(app, config);
@@ -0,0 +1,90 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { AiAnalysisService } from './ai-analysis.service';
+import { LlmService } from './llm.service';
+import { ZiweiService } from '../ziwei/ziwei.service';
+import { PatternService } from '../ziwei/pattern.service';
+import { CalculateZiweiDto } from '../../api/dto/ziwei.dto';
+import { AnalysisNarrative, NarrativeSection } from '../../shared/types/llm.types';
+import { AnalysisStreamEvent } from '../../shared/types/analysis-stream.types';
+import { PatternMatch } from '../../shared/types/pattern.types';
+import { NARRATIVE_SECTIONS } from '../../shared/constants/llm.constants';
+
+/**
+ * 单一分节的解读生成结果
+ */
+type SectionOutcome =
+  | { section: NarrativeSection; patterns: PatternMatch[]; narrative: AnalysisNarrative }
+  | { section: NarrativeSection; patterns: PatternMatch[]; error: Error };
+
+/**
+ * AI命理分析流式输出服务
+ * 先生成结构化报告，再并行撰写各分节解读，按完成先后逐节输出事件，各分节附带引用的格局
+ */
+@Injectable()
+export class AiAnalysisStreamService {
+  private readonly logger = new Logger(AiAnalysisStreamService.name);
+
+  constructor(
+    private readonly aiAnalysisService: AiAnalysisService,
+    private readonly ziweiService: ZiweiService,
+    private readonly llmService: LlmService,
+    private readonly patternService: PatternService
+  ) {}
+
+  /**
+   * 流式生成完整命理分析报告
+   * 报告生成前的错误（如参数错误）直接抛出；分节解读失败时先输出该分节的 error 事件，再输出不含解读的分节
+   * @param dto 出生信息
+   * @returns 依次为 start、各分节的 section 与 progress、done 事件
+   */
+  async *streamCompleteAnalysis(dto: CalculateZiweiDto): AsyncGenerator<AnalysisStreamEvent> {
+    const report = (await this.aiAnalysisService.generateCompleteAnalysis(dto)) as Record<string, unknown>;
+    const chart = await this.ziweiService.calculateZiweiChart(dto);
+
+    const sections = (Object.keys(NARRATIVE_SECTIONS) as NarrativeSection[])
+      .filter(section => report[section] && typeof report[section] === 'object');
+    const meta = Object.fromEntries(
+      Object.entries(report).filter(([key]) => !sections.includes(key as NarrativeSection))
+    );
+    const total = sections.length;
+    this.logger.log(`开始流式生成完整报告: ${sections.join(', ')}`);
+    yield { event: 'start', data: { sections, total, meta } };
+
+    const pending = new Map<NarrativeSection, Promise<SectionOutcome>>();
+    sections.forEach(section => {
+      const patterns = this.patternService.evaluate(chart, section);
+      pending.set(
+        section,
+        this.llmService.generateNarrative(section, chart, report[section], patterns).then(
+          narrative => ({ section, patterns, narrative }),
+          error => ({ section, patterns, error })
+        )
+      );
+    });
+
+    let completed = 0;
+    let failed = 0;
+    while (pending.size > 0) {
+      const outcome = await Promise.race(pending.values());
+      const { section, patterns } = outcome;
+      pending.delete(section);
+      completed++;
+
+      const content: Record<string, unknown> & { patterns: PatternMatch[] } = {
+        ...(report[section] as Record<string, unknown>),
+        patterns
+      };
+      if ('error' in outcome) {
+        failed++;
+        this.logger.error(`${NARRATIVE_SECTIONS[section].label}解读生成失败`, outcome.error.stack);
+        yield { event: 'error', data: { section, message: outcome.error.message } };
+      } else {
+        content.narrative = outcome.narrative;
+      }
+      yield { event: 'section', data: { section, label: NARRATIVE_SECTIONS[section].label, content } };
+      yield { event: 'progress', data: { section, completed, total } };
+    }
+
+    yield { event: 'done', data: { total, failed } };
+  }
+}
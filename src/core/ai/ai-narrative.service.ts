@@ -0,0 +1,62 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ZiweiService } from '../ziwei/ziwei.service';
+import { LlmService } from './llm.service';
+import { PatternService } from '../ziwei/pattern.service';
+import { CalculateZiweiDto } from '../../api/dto/ziwei.dto';
+import { NarrativeSection, WithNarrative } from '../../shared/types/llm.types';
+import { NARRATIVE_SECTIONS } from '../../shared/constants/llm.constants';
+
+/**
+ * 命理解读服务
+ * 为 AI 命理分析的各分节结果附加由大模型（或本地模板）撰写的 narrative 解读，以及该分节引用的 patterns 格局
+ */
+@Injectable()
+export class AiNarrativeService {
+  private readonly logger = new Logger(AiNarrativeService.name);
+
+  constructor(
+    private readonly ziweiService: ZiweiService,
+    private readonly llmService: LlmService,
+    private readonly patternService: PatternService
+  ) {}
+
+  /**
+   * 为单一分节附加解读及引用的格局
+   * @param section 解读分节
+   * @param dto 出生信息
+   * @param analysis 该分节的结构化分析结果
+   * @returns 附带解读的分析结果
+   */
+  async attachNarrative<T extends object>(
+    section: NarrativeSection,
+    dto: CalculateZiweiDto,
+    analysis: T
+  ): Promise<WithNarrative<T>> {
+    const chart = await this.ziweiService.calculateZiweiChart(dto);
+    this.logger.log(`生成${NARRATIVE_SECTIONS[section].label}解读`);
+    const patterns = this.patternService.evaluate(chart, section);
+    const narrative = await this.llmService.generateNarrative(section, chart, analysis, patterns);
+    return { ...analysis, narrative, patterns };
+  }
+
+  /**
+   * 为完整分析报告的各分节附加解读及引用的格局，各分节并行生成
+   * @param dto 出生信息
+   * @param result 完整分析报告
+   * @returns 各分节附带解读的分析报告
+   */
+  async attachNarratives<T extends object>(dto: CalculateZiweiDto, result: T): Promise<T> {
+    const chart = await this.ziweiService.calculateZiweiChart(dto);
+    const report = { ...result } as Record<string, unknown>;
+    const sections = (Object.keys(NARRATIVE_SECTIONS) as NarrativeSection[])
+      .filter(section => report[section] && typeof report[section] === 'object');
+
+    this.logger.log(`生成完整报告解读: ${sections.join(', ')}`);
+    await Promise.all(sections.map(async section => {
+      const patterns = this.patternService.evaluate(chart, section);
+      const narrative = await this.llmService.generateNarrative(section, chart, report[section], patterns);
+      report[section] = { ...(report[section] as object), narrative, patterns };
+    }));
+    return report as T;
+  }
+}
@@ -0,0 +1,138 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { PromptBuilderService } from './prompt-builder.service';
+import { ChartContextService } from '../ziwei/chart-context.service';
+import { OpenAiProvider } from './providers/openai.provider';
+import { AnthropicProvider } from './providers/anthropic.provider';
+import { TemplateProvider } from './providers/template.provider';
+import {
+  AnalysisNarrative,
+  LlmProvider,
+  LlmProviderName,
+  LlmRequest,
+  NarrativeSection
+} from '../../shared/types/llm.types';
+import { ZiweiChartResult } from '../../shared/types/ziwei.types';
+import { PatternMatch } from '../../shared/types/pattern.types';
+import {
+  DEFAULT_PROMPT_VERSION,
+  LLM_DEFAULT_BASE_URLS,
+  LLM_DEFAULTS,
+  LLM_PROVIDERS,
+  PROMPT_TEMPLATES
+} from '../../shared/constants/llm.constants';
+
+/**
+ * 大模型解读服务
+ * 按配置选择提供方生成分节解读，远程调用超时或失败时回退到本地模板
+ *
+ * 配置项（环境变量）：
+ * - LLM_PROVIDER：openai | anthropic | template，默认 template
+ * - LLM_BASE_URL、LLM_API_KEY、LLM_MODEL：远程接口地址、密钥与模型
+ * - LLM_TIMEOUT_MS、LLM_MAX_TOKENS、LLM_TEMPERATURE：生成参数
+ * - LLM_PROMPT_VERSION：提示词版本，默认 v2（引用命中格局），v1 为不含格局的旧版
+ */
+@Injectable()
+export class LlmService {
+  private readonly logger = new Logger(LlmService.name);
+  private readonly provider: LlmProvider;
+  private readonly templateProvider: TemplateProvider;
+  private readonly timeoutMs: number;
+  private readonly promptVersion: string;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly promptBuilder: PromptBuilderService,
+    private readonly chartContextService: ChartContextService
+  ) {
+    this.templateProvider = new TemplateProvider(this.chartContextService);
+    this.timeoutMs = Number(this.configService.get('LLM_TIMEOUT_MS', LLM_DEFAULTS.timeoutMs));
+    this.promptVersion = this.configService.get<string>('LLM_PROMPT_VERSION', DEFAULT_PROMPT_VERSION);
+    if (!PROMPT_TEMPLATES[this.promptVersion]) {
+      throw new Error(`未知的提示词版本 LLM_PROMPT_VERSION=${this.promptVersion}`);
+    }
+    this.provider = this.createProvider();
+  }
+
+  /**
+   * 生成分节解读
+   * @param section 解读分节
+   * @param chart 星盘计算结果
+   * @param analysis 该分节的结构化分析结果
+   * @param patterns 该分节引用的格局
+   * @returns 分节解读
+   */
+  async generateNarrative(
+    section: NarrativeSection,
+    chart: ZiweiChartResult,
+    analysis: unknown,
+    patterns: PatternMatch[]
+  ): Promise<AnalysisNarrative> {
+    const request: LlmRequest = {
+      section,
+      chart,
+      patterns,
+      prompt: this.promptBuilder.build(section, chart, analysis, patterns, this.promptVersion)
+    };
+
+    if (this.provider !== this.templateProvider) {
+      try {
+        const content = await this.provider.generate(request, AbortSignal.timeout(this.timeoutMs));
+        return this.toNarrative(this.provider, content, false);
+      } catch (error) {
+        this.logger.warn(`${this.provider.name} 生成解读失败，回退到本地模板: ${error.message}`);
+      }
+    }
+
+    const content = await this.templateProvider.generate(request);
+    return this.toNarrative(this.templateProvider, content, this.provider !== this.templateProvider);
+  }
+
+  /**
+   * 按配置创建提供方；远程提供方缺少模型或密钥时使用本地模板
+   * @returns 大模型提供方
+   */
+  private createProvider(): LlmProvider {
+    const name = this.configService.get<string>('LLM_PROVIDER', 'template') as LlmProviderName;
+    if (!LLM_PROVIDERS.includes(name)) {
+      throw new Error(`不支持的大模型提供方 LLM_PROVIDER=${name}`);
+    }
+    if (name === 'template') {
+      return this.templateProvider;
+    }
+
+    const apiKey = this.configService.get<string>('LLM_API_KEY', '');
+    const model = this.configService.get<string>('LLM_MODEL', '');
+    if (!apiKey || !model) {
+      this.logger.warn(`LLM_PROVIDER=${name} 未配置 LLM_API_KEY 或 LLM_MODEL，使用本地模板生成解读`);
+      return this.templateProvider;
+    }
+
+    const options = {
+      baseUrl: this.configService.get<string>('LLM_BASE_URL', LLM_DEFAULT_BASE_URLS[name]).replace(/\/+$/, ''),
+      apiKey,
+      model,
+      maxTokens: Number(this.configService.get('LLM_MAX_TOKENS', LLM_DEFAULTS.maxTokens)),
+      temperature: Number(this.configService.get('LLM_TEMPERATURE', LLM_DEFAULTS.temperature))
+    };
+    this.logger.log(`使用 ${name} 生成解读，模型 ${model}`);
+    return name === 'openai' ? new OpenAiProvider(options) : new AnthropicProvider(options);
+  }
+
+  /**
+   * 组装分节解读
+   * @param provider 实际生成解读的提供方
+   * @param content 解读正文
+   * @param fallback 是否为回退结果
+   * @returns 分节解读
+   */
+  private toNarrative(provider: LlmProvider, content: string, fallback: boolean): AnalysisNarrative {
+    return {
+      content,
+      provider: provider.name,
+      model: provider.model,
+      promptVersion: this.promptVersion,
+      fallback
+    };
+  }
+}
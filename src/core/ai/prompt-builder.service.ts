@@ -0,0 +1,78 @@
+import { Injectable } from '@nestjs/common';
+import { ChartContextService } from '../ziwei/chart-context.service';
+import { ZiweiChartResult } from '../../shared/types/ziwei.types';
+import { LlmPrompt, NarrativeSection } from '../../shared/types/llm.types';
+import { PatternMatch } from '../../shared/types/pattern.types';
+import { NARRATIVE_SECTIONS, PROMPT_TEMPLATES } from '../../shared/constants/llm.constants';
+
+/**
+ * 提示词构建服务
+ * 按版本化模板渲染解读提示词，命盘部分取命盘文本导出的 standard 详略
+ */
+@Injectable()
+export class PromptBuilderService {
+  constructor(private readonly chartContextService: ChartContextService) {}
+
+  /**
+   * 构建分节解读提示词
+   * @param section 解读分节
+   * @param chart 星盘计算结果
+   * @param analysis 该分节的结构化分析结果
+   * @param patterns 该分节引用的格局
+   * @param version 提示词版本
+   * @returns 渲染后的提示词
+   */
+  build(
+    section: NarrativeSection,
+    chart: ZiweiChartResult,
+    analysis: unknown,
+    patterns: PatternMatch[],
+    version: string
+  ): LlmPrompt {
+    const template = PROMPT_TEMPLATES[version];
+    if (!template) {
+      throw new Error(`未知的提示词版本: ${version}`);
+    }
+
+    return {
+      version,
+      system: template.system,
+      user: this.render(template.user, {
+        label: NARRATIVE_SECTIONS[section].label,
+        instruction: template.sections[section],
+        chart: this.chartContextService.buildContext(chart, { format: 'text', detail: 'standard' }).content,
+        patterns: this.formatPatterns(patterns),
+        analysis: JSON.stringify(analysis, null, 2)
+      })
+    };
+  }
+
+  /**
+   * 格局列表文本，每个格局一行
+   * @param patterns 格局
+   * @returns 格局文本
+   */
+  private formatPatterns(patterns: PatternMatch[]): string {
+    if (patterns.length === 0) {
+      return '无';
+    }
+    return patterns
+      .map(pattern => {
+        const stars = pattern.stars
+          .map(star => `${star.star}${star.transformation || ''}（${star.palace}）`)
+          .join('、');
+        return `- ${pattern.name}（${pattern.palace}，${pattern.category === 'auspicious' ? '吉格' : '凶格'}）：${stars}。${pattern.reading}`;
+      })
+      .join('\n');
+  }
+
+  /**
+   * 替换模板中的 {{name}} 占位符
+   * @param template 模板
+   * @param values 占位符取值
+   * @returns 渲染结果
+   */
+  private render(template: string, values: Record<string, string>): string {
+    return template.replace(/\{\{(\w+)\}\}/g, (match, key: string) => values[key] ?? match);
+  }
+}
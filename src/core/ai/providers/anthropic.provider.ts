@@ -0,0 +1,56 @@
+import { LlmProvider, LlmProviderOptions, LlmRequest } from '../../../shared/types/llm.types';
+import { ANTHROPIC_API_VERSION } from '../../../shared/constants/llm.constants';
+
+/**
+ * Anthropic 兼容接口提供方
+ * 调用 /messages，适用于 Anthropic 及兼容该协议的服务
+ */
+export class AnthropicProvider implements LlmProvider {
+  readonly name = 'anthropic';
+  readonly model: string;
+
+  constructor(private readonly options: LlmProviderOptions) {
+    this.model = options.model;
+  }
+
+  /**
+   * 生成解读文本
+   * @param request 解读生成请求
+   * @param signal 超时中止信号
+   * @returns 解读文本
+   */
+  async generate(request: LlmRequest, signal: AbortSignal): Promise<string> {
+    const response = await fetch(`${this.options.baseUrl}/messages`, {
+      method: 'POST',
+      headers: {
+        'content-type': 'application/json',
+        'x-api-key': this.options.apiKey,
+        'anthropic-version': ANTHROPIC_API_VERSION
+      },
+      body: JSON.stringify({
+        model: this.model,
+        max_tokens: this.options.maxTokens,
+        temperature: this.options.temperature,
+        system: request.prompt.system,
+        messages: [{ role: 'user', content: request.prompt.user }]
+      }),
+      signal
+    });
+
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}: ${(await response.text()).slice(0, 200)}`);
+    }
+
+    const data = await response.json();
+    const content = Array.isArray(data.content)
+      ? data.content
+        .filter((block: { type: string }) => block.type === 'text')
+        .map((block: { text: string }) => block.text)
+        .join('')
+      : '';
+    if (!content.trim()) {
+      throw new Error('响应中没有解读文本');
+    }
+    return content.trim();
+  }
+}
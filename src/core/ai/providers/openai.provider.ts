@@ -0,0 +1,51 @@
+import { LlmProvider, LlmProviderOptions, LlmRequest } from '../../../shared/types/llm.types';
+
+/**
+ * OpenAI 兼容接口提供方
+ * 调用 /chat/completions，适用于 OpenAI 及兼容该协议的服务
+ */
+export class OpenAiProvider implements LlmProvider {
+  readonly name = 'openai';
+  readonly model: string;
+
+  constructor(private readonly options: LlmProviderOptions) {
+    this.model = options.model;
+  }
+
+  /**
+   * 生成解读文本
+   * @param request 解读生成请求
+   * @param signal 超时中止信号
+   * @returns 解读文本
+   */
+  async generate(request: LlmRequest, signal: AbortSignal): Promise<string> {
+    const response = await fetch(`${this.options.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'content-type': 'application/json',
+        authorization: `Bearer ${this.options.apiKey}`
+      },
+      body: JSON.stringify({
+        model: this.model,
+        max_tokens: this.options.maxTokens,
+        temperature: this.options.temperature,
+        messages: [
+          { role: 'system', content: request.prompt.system },
+          { role: 'user', content: request.prompt.user }
+        ]
+      }),
+      signal
+    });
+
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}: ${(await response.text()).slice(0, 200)}`);
+    }
+
+    const data = await response.json();
+    const content = data.choices?.[0]?.message?.content;
+    if (typeof content !== 'string' || !content.trim()) {
+      throw new Error('响应中没有解读文本');
+    }
+    return content.trim();
+  }
+}
@@ -0,0 +1,111 @@
+import { LlmProvider, LlmRequest, NarrativeSection } from '../../../shared/types/llm.types';
+import { ZiweiChartResult, ZiweiStar } from '../../../shared/types/ziwei.types';
+import { NARRATIVE_SECTIONS } from '../../../shared/constants/llm.constants';
+import { ChartContextService } from '../../ziwei/chart-context.service';
+
+/**
+ * 本地模板提供方
+ * 不调用远程模型，按命盘数据与命中的格局拼接确定性的解读文本，用于离线、测试及远程调用失败时的回退
+ */
+export class TemplateProvider implements LlmProvider {
+  readonly name = 'template';
+  readonly model = null;
+
+  constructor(private readonly chartContextService: ChartContextService) {}
+
+  /**
+   * 生成解读文本
+   * @param request 解读生成请求
+   * @returns 解读文本
+   */
+  async generate(request: LlmRequest): Promise<string> {
+    const { section, chart, patterns } = request;
+    const paragraphs = [this.describeOverview(section, chart)];
+
+    if (patterns.length > 0) {
+      paragraphs.push(patterns
+        .map(pattern => `${pattern.palace}成「${pattern.name}」${pattern.category === 'auspicious' ? '吉格' : '凶格'}：${pattern.reading}`)
+        .join('\n'));
+    }
+
+    NARRATIVE_SECTIONS[section].palaces.forEach(palaceName => {
+      paragraphs.push(this.describePalace(chart, palaceName));
+    });
+
+    if (section === 'fortuneTrend') {
+      const periods = chart.luckPeriods.major
+        .map(period => `${period.startAge}-${period.endAge}岁行${period.palace}`)
+        .join('，');
+      paragraphs.push(`大限依次为：${periods}。`);
+      paragraphs.push(`流年行至${this.describePalace(chart, chart.luckPeriods.annual.palace)}`);
+    }
+
+    return paragraphs.join('\n\n');
+  }
+
+  /**
+   * 分节开篇
+   * @param section 解读分节
+   * @param chart 星盘计算结果
+   * @returns 开篇段落
+   */
+  private describeOverview(section: NarrativeSection, chart: ZiweiChartResult): string {
+    const { year, month, day, hour } = chart.fourPillars;
+    const natal = chart.palaces
+      .flatMap(palace => palace.starDetails
+        .filter(star => star.transformationName)
+        .map(star => `${star.name}${star.transformationName}入${palace.name}`))
+      .join('，');
+
+    return `【${NARRATIVE_SECTIONS[section].label}】命主生肖属${chart.zodiac}，四柱为` +
+      `${year.stem}${year.branch}、${month.stem}${month.branch}、${day.stem}${day.branch}、${hour.stem}${hour.branch}` +
+      (natal ? `，生年四化：${natal}。` : '。');
+  }
+
+  /**
+   * 描述单宫星曜并按亮度、四化、煞星给出提示
+   * @param chart 星盘计算结果
+   * @param palaceName 宫位名称
+   * @returns 宫位段落
+   */
+  private describePalace(chart: ZiweiChartResult, palaceName: string): string {
+    const stars = chart.palaces.find(palace => palace.name === palaceName)?.starDetails || [];
+    const mainStars = stars.filter(star => star.type === 'main');
+    const notes: string[] = [];
+
+    if (mainStars.length === 0) {
+      notes.push('宜借对宫主星论断');
+    } else if (mainStars.every(star => this.isBright(star))) {
+      notes.push('主星庙旺得地，本宫所主之事根基较稳');
+    } else if (mainStars.some(star => this.isDim(star))) {
+      notes.push('主星落陷或不得地，本宫所主之事多需后天努力');
+    }
+    if (stars.some(star => star.transformation === 'hualu' || star.transformation === 'huaquan')) {
+      notes.push('得禄权加持，利于发挥');
+    }
+    if (stars.some(star => star.transformation === 'huaji')) {
+      notes.push('见化忌，此处易有执着与波折');
+    }
+    if (stars.some(star => star.type === 'evil')) {
+      notes.push('有煞星同宫，行事宜稳');
+    }
+
+    return `${palaceName}：${this.chartContextService.describePalace(chart, palaceName)}。${notes.join('；')}${notes.length > 0 ? '。' : ''}`;
+  }
+
+  /**
+   * 是否庙旺得地
+   * @param star 星曜详细信息
+   */
+  private isBright(star: ZiweiStar): boolean {
+    return star.brightness === '庙' || star.brightness === '旺' || star.brightness === '得';
+  }
+
+  /**
+   * 是否落陷或不得地
+   * @param star 星曜详细信息
+   */
+  private isDim(star: ZiweiStar): boolean {
+    return star.brightness === '陷' || star.brightness === '不';
+  }
+}
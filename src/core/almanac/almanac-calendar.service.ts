@@ -0,0 +1,263 @@
+import { Injectable, Logger, BadRequestException } from '@nestjs/common';
+import { createHash } from 'crypto';
+import { AlmanacService } from './almanac.service';
+import { CalendarService } from '../calendar/calendar.service';
+import { BEIJING_UTC_OFFSET_MINUTES } from '../../shared/constants/time-zone.constants';
+import { ALMANAC_CALENDAR_EVENT_TYPES } from '../../shared/constants/almanac.constants';
+import { DAY_MS } from '../../shared/constants/calendar.constants';
+import { AlmanacCalendarEventType } from '../../shared/types/almanac.types';
+
+/**
+ * 黄历日历导出服务
+ * 将黄道吉日、节气交节和节日导出为 RFC 5545 iCalendar 格式
+ */
+@Injectable()
+export class AlmanacCalendarService {
+  private readonly logger = new Logger(AlmanacCalendarService.name);
+  private readonly PRODUCT_ID = '-//lunar-ziwei-mcp//Almanac//ZH';
+  private readonly UID_DOMAIN = 'lunar-ziwei-mcp';
+  // RFC 5545 3.1：每行不超过75个八位字节
+  private readonly MAX_LINE_OCTETS = 75;
+
+  constructor(
+    private readonly almanacService: AlmanacService,
+    private readonly calendarService: CalendarService
+  ) {}
+
+  /**
+   * 导出日期范围内的黄历日历
+   * @param startDate 起始日期 (YYYY-MM-DD)
+   * @param endDate 结束日期 (YYYY-MM-DD，含)
+   * @param types 导出的事件类型，默认全部
+   * @returns iCalendar 文本
+   */
+  async exportCalendar(
+    startDate: string,
+    endDate: string,
+    types: AlmanacCalendarEventType[] = [...ALMANAC_CALENDAR_EVENT_TYPES]
+  ): Promise<string> {
+    const dates = this.calendarService.parseDateRange(startDate, endDate).map(date => this.formatDate(date));
+    const invalid = types.filter(type => !ALMANAC_CALENDAR_EVENT_TYPES.includes(type));
+    if (invalid.length > 0 || types.length === 0) {
+      throw new BadRequestException(
+        `事件类型无效: ${invalid.join(',') || '(空)'}，可选 ${ALMANAC_CALENDAR_EVENT_TYPES.join(', ')}`
+      );
+    }
+
+    this.logger.log(`导出黄历日历: ${startDate} 至 ${endDate} (${types.join(',')})`);
+    const stamp = this.formatDateTime(new Date());
+    const events: string[][] = [];
+
+    const includeLuckyDays = types.includes('luckyDays');
+    const includeFestivals = types.includes('festivals');
+    if (includeLuckyDays || includeFestivals) {
+      for (const date of dates) {
+        const almanac = await this.almanacService.getDailyAlmanac(date);
+        const { lunar, ganzhi } = almanac.date;
+        const description = [
+          `农历${lunar.leap ? '闰' : ''}${lunar.monthName}月${lunar.dayName}`,
+          `${ganzhi.yearGan}${ganzhi.yearZhi}年 ${ganzhi.monthGan}${ganzhi.monthZhi}月 ${ganzhi.dayGan}${ganzhi.dayZhi}日`,
+          `宜：${almanac.suitability.suitable.join(' ')}`,
+          `忌：${almanac.suitability.avoid.join(' ') || '无'}`,
+          `冲煞：${almanac.directions.chongSha}`
+        ];
+
+        // 吉日取宜忌推算的判定，与当日宜忌同源
+        if (includeLuckyDays && almanac.suitability.lucky) {
+          events.push(this.buildAllDayEvent(
+            `lucky-${date}`,
+            stamp,
+            date,
+            `黄道吉日 宜${almanac.suitability.suitable.slice(0, 3).join('、')}`,
+            [this.almanacService.getLuckyDayType(almanac.suitability), ...description].join('\n'),
+            '黄道吉日'
+          ));
+        }
+
+        for (const festival of includeFestivals ? almanac.festival : []) {
+          events.push(this.buildAllDayEvent(
+            `festival-${date}-${this.hash(festival)}`,
+            stamp,
+            date,
+            festival,
+            description.join('\n'),
+            '节日'
+          ));
+        }
+      }
+    }
+
+    if (types.includes('solarTerms')) {
+      const years = new Set(dates.map(date => Number(date.slice(0, 4))));
+      for (const year of years) {
+        const { terms } = await this.almanacService.getSolarTerms(year);
+        for (const term of terms) {
+          if (term.date < dates[0] || term.date > dates[dates.length - 1]) {
+            continue;
+          }
+          events.push(this.buildTimedEvent(
+            `solar-term-${term.date}-${this.hash(term.name)}`,
+            stamp,
+            this.toUtc(term.date, term.time),
+            `${term.name}交节`,
+            [`交节时刻：${term.date} ${term.time}（北京时间）`, term.description].join('\n'),
+            '节气'
+          ));
+        }
+      }
+    }
+
+    return this.buildCalendar(events);
+  }
+
+  /**
+   * 组装 VCALENDAR
+   * @param events 各事件的内容行
+   * @returns 以 CRLF 分行的 iCalendar 文本
+   */
+  private buildCalendar(events: string[][]): string {
+    const lines = [
+      'BEGIN:VCALENDAR',
+      'VERSION:2.0',
+      `PRODID:${this.PRODUCT_ID}`,
+      'CALSCALE:GREGORIAN',
+      'METHOD:PUBLISH',
+      `X-WR-CALNAME:${this.escapeText('黄历')}`,
+      'X-WR-TIMEZONE:Asia/Shanghai',
+      ...events.flat(),
+      'END:VCALENDAR'
+    ];
+
+    return lines.map(line => this.foldLine(line)).join('\r\n') + '\r\n';
+  }
+
+  /**
+   * 组装全天事件
+   * @param uid 事件标识（不含域名）
+   * @param stamp 生成时间 (UTC)
+   * @param date 日期 (YYYY-MM-DD)
+   * @param summary 标题
+   * @param description 说明
+   * @param category 分类
+   * @returns 事件内容行
+   */
+  private buildAllDayEvent(
+    uid: string,
+    stamp: string,
+    date: string,
+    summary: string,
+    description: string,
+    category: string
+  ): string[] {
+    const start = this.calendarService.parseSolarDate(date, '日期');
+    return [
+      'BEGIN:VEVENT',
+      `UID:${uid}@${this.UID_DOMAIN}`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART;VALUE=DATE:${date.replace(/-/g, '')}`,
+      `DTEND;VALUE=DATE:${this.formatDate(new Date(start.getTime() + DAY_MS)).replace(/-/g, '')}`,
+      `SUMMARY:${this.escapeText(summary)}`,
+      `DESCRIPTION:${this.escapeText(description)}`,
+      `CATEGORIES:${this.escapeText(category)}`,
+      'TRANSP:TRANSPARENT',
+      'END:VEVENT'
+    ];
+  }
+
+  /**
+   * 组装定时事件，不设结束时间即为瞬时事件
+   * @param uid 事件标识（不含域名）
+   * @param stamp 生成时间 (UTC)
+   * @param start 发生时刻
+   * @param summary 标题
+   * @param description 说明
+   * @param category 分类
+   * @returns 事件内容行
+   */
+  private buildTimedEvent(
+    uid: string,
+    stamp: string,
+    start: Date,
+    summary: string,
+    description: string,
+    category: string
+  ): string[] {
+    return [
+      'BEGIN:VEVENT',
+      `UID:${uid}@${this.UID_DOMAIN}`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART:${this.formatDateTime(start)}`,
+      `SUMMARY:${this.escapeText(summary)}`,
+      `DESCRIPTION:${this.escapeText(description)}`,
+      `CATEGORIES:${this.escapeText(category)}`,
+      'TRANSP:TRANSPARENT',
+      'END:VEVENT'
+    ];
+  }
+
+  /**
+   * 转义 TEXT 类型属性值（RFC 5545 3.3.11）
+   * @param text 原文
+   * @returns 转义后的文本
+   */
+  private escapeText(text: string): string {
+    return text
+      .replace(/\\/g, '\\\\')
+      .replace(/;/g, '\\;')
+      .replace(/,/g, '\\,')
+      .replace(/\r?\n/g, '\\n');
+  }
+
+  /**
+   * 按八位字节折行（RFC 5545 3.1），不拆分多字节字符
+   * @param line 内容行
+   * @returns 折行后的文本
+   */
+  private foldLine(line: string): string {
+    const segments: string[] = [];
+    let current = '';
+    let octets = 0;
+
+    for (const char of line) {
+      const size = Buffer.byteLength(char, 'utf8');
+      // 续行以一个空格开头，空格也计入长度
+      const limit = segments.length === 0 ? this.MAX_LINE_OCTETS : this.MAX_LINE_OCTETS - 1;
+      if (octets + size > limit) {
+        segments.push(current);
+        current = '';
+        octets = 0;
+      }
+      current += char;
+      octets += size;
+    }
+    segments.push(current);
+
+    return segments.join('\r\n ');
+  }
+
+  /**
+   * 将北京时间的交节时刻换算为UTC
+   * @param date 日期 (YYYY-MM-DD)
+   * @param time 时间 (HH:mm:ss)
+   * @returns UTC时刻
+   */
+  private toUtc(date: string, time: string): Date {
+    const [year, month, day] = date.split('-').map(Number);
+    const [hour, minute, second] = time.split(':').map(Number);
+    return new Date(
+      Date.UTC(year, month - 1, day, hour, minute, second || 0) - BEIJING_UTC_OFFSET_MINUTES * 60 * 1000
+    );
+  }
+
+  private hash(text: string): string {
+    return createHash('sha1').update(text).digest('hex').slice(0, 8);
+  }
+
+  private formatDate(date: Date): string {
+    return date.toISOString().slice(0, 10);
+  }
+
+  private formatDateTime(date: Date): string {
+    return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+  }
+}
@@ -1,14 +1,36 @@
-import { Injectable, Logger } from '@nestjs/common';
+import { Injectable, Logger, BadRequestException } from '@nestjs/common';
 import { Tyme4tsService } from '../../services/tyme4ts/tyme4ts.service';
+import { SuitabilityService } from './suitability.service';
+import { CalendarService } from '../calendar/calendar.service';
 import { 
   AlmanacResult, 
   LuckyDayResult, 
   SolarTermResult,
   SuitabilityItems,
   AlmanacDirection,
+  HourlyAlmanac,
+  HourlyAlmanacResult,
+  CalendarDay,
+  MonthCalendarResult,
+  YearCalendarResult,
   ZodiacInfo
 } from '../../shared/types/almanac.types';
-import { Solar, Lunar, JieQi, LunarMonth, Term } from 'tyme4ts';
+import { SuitabilityAnalysis, SuitableAvoidResult } from '../../shared/types/suitability.types';
+import { HEAVENLY_STEMS, EARTHLY_BRANCHES } from '../../shared/constants/ziwei.constants';
+import {
+  BRANCH_DIRECTIONS,
+  BRANCH_ZODIACS,
+  CAI_SHEN_DIRECTIONS,
+  DAY_TAI_SHEN,
+  FU_SHEN_DIRECTIONS,
+  HOUR_RANGES,
+  LATE_ZI_HOUR_RANGE,
+  NOBLE_BRANCHES,
+  SHA_DIRECTIONS,
+  XI_SHEN_DIRECTIONS
+} from '../../shared/constants/almanac.constants';
+import { getHourStem } from '../../shared/utils/ganzhi.utils';
+import { Solar, Lunar, JieQi, LunarMonth, LunarYear, Term } from 'tyme4ts';
 
 @Injectable()
 export class AlmanacService {
@@ -19,8 +41,15 @@ export class AlmanacService {
     '立秋', '处暑', '白露', '秋分', '寒露', '霜降',
     '立冬', '小雪', '大雪', '冬至', '小寒', '大寒'
   ];
+  private readonly CALENDAR_SUMMARY_SIZE = 4;
+  private readonly MIN_YEAR = 1900;
+  private readonly MAX_YEAR = 2100;
   
-  constructor(private readonly tyme4tsService: Tyme4tsService) {}
+  constructor(
+    private readonly tyme4tsService: Tyme4tsService,
+    private readonly suitabilityService: SuitabilityService,
+    private readonly calendarService: CalendarService
+  ) {}
 
   /**
    * 获取指定日期的黄历信息
@@ -39,6 +68,7 @@ export class AlmanacService {
       const zodiac = this.getZodiacInfo(lunar);
       const suitability = this.getSuitabilityItems(lunar);
       const directions = this.getAuspiciousDirections(lunar);
+      const hours = this.getHours(lunar);
       const constellation = this.tyme4tsService.getConstellation(month, day);
       const festival = this.getFestivals(solar, lunar);
       const jieqi = this.getJieQi(solar);
@@ -73,10 +103,11 @@ export class AlmanacService {
         festival,
         suitability,
         directions,
+        hours,
         pengZuBaiJi,
         gods,
-        // 十二建除
-        twelveBuildings: this.tyme4tsService.getTwelveBuildings(lunar),
+        // 十二建除，与宜忌推算同源
+        twelveBuildings: suitability.building,
         // 二十八星宿
         lunarMansion: this.tyme4tsService.getLunarMansion(lunar)
       };
@@ -104,19 +135,16 @@ export class AlmanacService {
         const solar = Solar.fromYmd(year, month, day);
         const lunar = solar.getLunar();
         
-        // 判断是否为黄道吉日
-        const isLuckyDay = this.isLuckyDay(lunar);
-        if (isLuckyDay) {
-          // 获取适宜事项
-          const suitability = this.getSuitabilityItems(lunar);
-          
+        // 按宜忌推算结果判断是否为黄道吉日
+        const suitability = this.getSuitabilityItems(lunar);
+        if (suitability.lucky) {
           luckyDays.push({
             date: solar.toYmd(),
             lunarDate: `${lunar.getMonthInChinese()}${lunar.getDayInChinese()}`,
             ganzhi: this.tyme4tsService.getGanzhiDate(lunar).dayGan + this.tyme4tsService.getGanzhiDate(lunar).dayZhi,
             suitable: suitability.suitable,
             // 黄道吉日类型
-            luckyType: this.getLuckyDayType(lunar)
+            luckyType: this.getLuckyDayType(suitability)
           });
         }
       }
@@ -182,11 +210,7 @@ export class AlmanacService {
    * @param dateStr 日期字符串 (YYYY-MM-DD)
    * @returns 宜忌事项查询结果
    */
-  async getSuitableAvoid(dateStr: string): Promise<{
-    suitable: string[];
-    avoid: string[];
-    date: string;
-  }> {
+  async getSuitableAvoid(dateStr: string): Promise<SuitableAvoidResult> {
     const [year, month, day] = dateStr.split('-').map(Number);
     const solar = Solar.fromYmd(year, month, day);
     const lunar = solar.getLunar();
@@ -199,81 +223,242 @@ export class AlmanacService {
   }
   
   /**
-   * 判断日期是否为黄道吉日
-   * @param lunar 农历日期对象
-   * @returns 是否为黄道吉日
+   * 获取指定月份的月历
+   * @param year 公历年份
+   * @param month 公历月份
+   * @returns 当月每日的精简黄历
    */
-  private isLuckyDay(lunar: Lunar): boolean {
-    const twelveBuildings = this.tyme4tsService.getTwelveBuildings(lunar);
-    // 黄道吉日对应的十二建除为：除、危、定、执、成、开
-    const luckyBuildings = ['除', '危', '定', '执', '成', '开'];
-    return luckyBuildings.includes(twelveBuildings);
+  async getMonthCalendar(year: number, month: number): Promise<MonthCalendarResult> {
+    const [yearNumber, monthNumber] = this.validateYearMonth(year, month);
+    this.logger.log(`查询${yearNumber}年${monthNumber}月月历`);
+    return this.buildMonthCalendar(yearNumber, monthNumber);
   }
   
   /**
-   * 获取黄道吉日类型
-   * @param lunar 农历日期对象
-   * @returns 黄道吉日类型
+   * 获取指定年份的年历
+   * @param year 公历年份
+   * @returns 全年每日的精简黄历
    */
-  private getLuckyDayType(lunar: Lunar): string {
-    const twelveBuildings = this.tyme4tsService.getTwelveBuildings(lunar);
-    const typeMap: Record<string, string> = {
-      '除': '除日：为除旧布新之象，宜除服、疗病、出行、嫁娶',
-      '危': '危日：为危险之意，宜祈福、安床、纳财，忌登高、行船',
-      '定': '定日：为安定之意，宜订婚、嫁娶、开业、安葬',
-      '执': '执日：为固执之意，宜捕捉、诉讼、嫁娶、纳财',
-      '成': '成日：为成功之意，宜开业、结婚、入学、安葬',
-      '开': '开日：为开始之意，宜开业、结婚、入学、旅行'
+  async getYearCalendar(year: number): Promise<YearCalendarResult> {
+    const [yearNumber] = this.validateYearMonth(year, 1);
+    this.logger.log(`查询${yearNumber}年年历`);
+    
+    const leapMonth = LunarYear.fromYear(yearNumber).getLeapMonth();
+    
+    return {
+      year: yearNumber,
+      leapMonth: leapMonth || null,
+      months: Array.from({ length: 12 }, (_, i) => this.buildMonthCalendar(yearNumber, i + 1))
     };
-    return typeMap[twelveBuildings] || '黄道吉日';
   }
   
   /**
-   * 获取宜忌事项
-   * @param lunar 农历日期对象
-   * @returns 宜忌事项对象
+   * 获取指定日期的十二时辰黄历
+   * @param dateStr 日期字符串 (YYYY-MM-DD)
+   * @returns 时辰黄历查询结果
    */
-  private getSuitabilityItems(lunar: Lunar): SuitabilityItems {
-    // 从农历对象获取宜忌信息
-    const day = lunar.getDay();
-    const month = lunar.getMonth();
-    
-    // 这里使用模拟数据，实际应用中应根据黄历规则计算
-    // 真实实现需参考黄历宜忌算法
-    const suitable = [
-      '祭祀', '祈福', '求嗣', '开光', '出行', 
-      '解除', '伐木', '入宅', '移徙', '安床'
-    ];
+  async getHourlyAlmanac(dateStr: string): Promise<HourlyAlmanacResult> {
+    const [year, month, day] = this.calendarService.parseDate(dateStr, '日期');
+    const lunar = this.calendarService.fromSolar(year, month, day);
+    const { dayGan, dayZhi } = this.tyme4tsService.getGanzhiDate(lunar);
     
-    const avoid = [
-      '嫁娶', '安葬', '破土', '修坟', '纳畜'
-    ];
+    return {
+      date: lunar.getSolar().toYmd(),
+      dayGanzhi: dayGan + dayZhi,
+      hours: this.getHours(lunar)
+    };
+  }
+  
+  /**
+   * 获取黄道吉日类型说明
+   * @param suitability 当日宜忌推算结果
+   * @returns 所值黄道、建除及主要宜事
+   */
+  getLuckyDayType(suitability: SuitabilityAnalysis): string {
+    const suitable = suitability.suitable.slice(0, this.CALENDAR_SUMMARY_SIZE).join('、');
+    return `${suitability.officer}黄道，值${suitability.building}日：宜${suitable}`;
+  }
+  
+  /**
+   * 组装月历
+   * @param year 公历年份
+   * @param month 公历月份
+   * @returns 月历查询结果
+   */
+  private buildMonthCalendar(year: number, month: number): MonthCalendarResult {
+    const daysInMonth = Solar.fromYmd(year, month, 1).getSolarMonth().length();
+    const days: CalendarDay[] = [];
     
-    // 根据月份和日期调整宜忌事项
-    if (month === 1 && day === 1) {
-      suitable.push('开业', '剪彩', '纳财');
+    for (let day = 1; day <= daysInMonth; day++) {
+      days.push(this.buildCalendarDay(Solar.fromYmd(year, month, day)));
     }
     
-    return { suitable, avoid };
+    return { year, month, days };
+  }
+  
+  /**
+   * 组装月历中的单日记录，取用与每日黄历相同的干支、建除、星宿、节气、节日与宜忌
+   * @param solar 公历日期对象
+   * @returns 单日记录
+   */
+  private buildCalendarDay(solar: Solar): CalendarDay {
+    const lunar = solar.getLunar();
+    const ganzhi = this.tyme4tsService.getGanzhiDate(lunar);
+    const suitability = this.getSuitabilityItems(lunar);
+    const jieqi = this.getJieQi(solar);
+    const date = solar.toYmd();
+    // 仅当日交节才标记，节气序号为偶数者为“节”，交节即换干支月
+    const termName = jieqi && jieqi.date === date ? jieqi.name : null;
+    
+    return {
+      date,
+      week: solar.getWeek(),
+      lunar: {
+        year: lunar.getYear(),
+        month: lunar.getMonth(),
+        day: lunar.getDay(),
+        leap: lunar.isLeap(),
+        monthName: lunar.getMonthInChinese(),
+        dayName: lunar.getDayInChinese()
+      },
+      lunarMonthStart: lunar.getDay() === 1,
+      ganzhi: ganzhi.dayGan + ganzhi.dayZhi,
+      monthGanzhi: ganzhi.monthGan + ganzhi.monthZhi,
+      ganzhiMonthStart: termName !== null && this.SOLAR_TERMS.indexOf(termName) % 2 === 0,
+      building: suitability.building,
+      lunarMansion: this.tyme4tsService.getLunarMansion(lunar),
+      jieqi: termName,
+      festivals: this.getFestivals(solar, lunar),
+      suitable: suitability.suitable.slice(0, this.CALENDAR_SUMMARY_SIZE),
+      avoid: suitability.avoid.slice(0, this.CALENDAR_SUMMARY_SIZE),
+      lucky: suitability.lucky
+    };
   }
   
   /**
-   * 获取吉祥方位
+   * 校验年月参数
+   * @param year 公历年份
+   * @param month 公历月份
+   * @returns 数值化的年份与月份
+   */
+  private validateYearMonth(year: number, month: number): [number, number] {
+    const yearNumber = Number(year);
+    const monthNumber = Number(month);
+    if (!Number.isInteger(yearNumber) || yearNumber < this.MIN_YEAR || yearNumber > this.MAX_YEAR) {
+      throw new BadRequestException(`年份应为${this.MIN_YEAR}-${this.MAX_YEAR}之间的整数: ${year}`);
+    }
+    if (!Number.isInteger(monthNumber) || monthNumber < 1 || monthNumber > 12) {
+      throw new BadRequestException(`月份应为1-12之间的整数: ${month}`);
+    }
+    return [yearNumber, monthNumber];
+  }
+  
+  /**
+   * 获取宜忌事项
+   * @param lunar 农历日期对象
+   * @returns 宜忌事项及所依据的建除、黄道与神煞
+   */
+  private getSuitabilityItems(lunar: Lunar): SuitabilityAnalysis {
+    const ganzhi = this.tyme4tsService.getGanzhiDate(lunar);
+    return this.suitabilityService.analyze(lunar.getMonthZhiExact(), ganzhi.dayGan, ganzhi.dayZhi);
+  }
+  
+  /**
+   * 获取神煞方位
+   * 喜神、财神、福神、贵神按日干取方，胎神按日干支占方，冲煞按日干支取
    * @param lunar 农历日期对象
    * @returns 方位信息对象
    */
   private getAuspiciousDirections(lunar: Lunar): AlmanacDirection {
-    // 模拟数据，实际应根据黄历规则计算
-    const ganzhi = this.tyme4tsService.getGanzhiDate(lunar);
-    const directions = {
-      auspicious: ['东北', '正南'],
-      inauspicious: ['西北', '正东'],
-     财神: '正北',
-     喜神: '东南',
-     贵神: '西南'
+    const { dayGan, dayZhi } = this.tyme4tsService.getGanzhiDate(lunar);
+    const stemIndex = HEAVENLY_STEMS.indexOf(dayGan);
+    const branchIndex = EARTHLY_BRANCHES.indexOf(dayZhi);
+    
+    const noble = NOBLE_BRANCHES[dayGan];
+    const xiShen = XI_SHEN_DIRECTIONS[dayGan];
+    const caiShen = CAI_SHEN_DIRECTIONS[dayGan];
+    const fuShen = FU_SHEN_DIRECTIONS[dayGan];
+    const yangGui = BRANCH_DIRECTIONS[noble.yang];
+    const yinGui = BRANCH_DIRECTIONS[noble.yin];
+    
+    // 日干支在六十甲子中的序号
+    const cycleIndex = (6 * stemIndex - 5 * branchIndex + 60) % 60;
+    const { chong, sha, chongSha } = this.getChongSha(dayGan, dayZhi);
+    
+    return {
+      xiShen,
+      caiShen,
+      fuShen,
+      yangGui,
+      yinGui,
+      taiShen: DAY_TAI_SHEN[cycleIndex],
+      chongSha,
+      chong,
+      sha,
+      auspicious: [...new Set([xiShen, caiShen, fuShen, yangGui, yinGui])],
+      inauspicious: [`正${sha}`]
+    };
+  }
+  
+  /**
+   * 获取十二时辰黄历
+   * 时干按日干五鼠遁起子时；子时分为当日0点起的早子时与23点起的晚子时，
+   * 晚子时已入次日子时，干支、黄道与宜忌均按次日日干支推算
+   * @param lunar 农历日期对象
+   * @returns 早子时至亥时及晚子时的吉凶宜忌
+   */
+  private getHours(lunar: Lunar): HourlyAlmanac[] {
+    const { dayGan, dayZhi } = this.tyme4tsService.getGanzhiDate(lunar);
+    const nextDayGan = HEAVENLY_STEMS[(HEAVENLY_STEMS.indexOf(dayGan) + 1) % 10];
+    const nextDayZhi = EARTHLY_BRANCHES[(EARTHLY_BRANCHES.indexOf(dayZhi) + 1) % 12];
+    
+    const hours = EARTHLY_BRANCHES.map(branch =>
+      this.buildHour(dayGan, dayZhi, branch, branch === '子' ? '早子时' : `${branch}时`, HOUR_RANGES[branch])
+    );
+    hours.push(this.buildHour(nextDayGan, nextDayZhi, '子', '晚子时', LATE_ZI_HOUR_RANGE));
+    return hours;
+  }
+  
+  /**
+   * 推算单个时辰的干支与吉凶宜忌
+   * @param dayGan 日干
+   * @param dayZhi 日支
+   * @param branch 时支
+   * @param name 时辰名称
+   * @param timeRange 起止时间
+   * @returns 时辰吉凶宜忌
+   */
+  private buildHour(dayGan: string, dayZhi: string, branch: string, name: string, timeRange: string): HourlyAlmanac {
+    const stem = getHourStem(dayGan, branch);
+    const analysis = this.suitabilityService.analyzeHour(dayGan, dayZhi, branch);
+    
+    return {
+      name,
+      timeRange,
+      ganzhi: stem + branch,
+      officer: analysis.officer,
+      huangDao: analysis.huangDao,
+      verdict: analysis.lucky ? '吉' : '凶',
+      chongSha: this.getChongSha(stem, branch).chongSha,
+      noble: analysis.noble,
+      suitable: analysis.suitable,
+      avoid: analysis.avoid
     };
+  }
+  
+  /**
+   * 获取冲煞：天克地冲取干支各隔六位，煞方按地支三合局
+   * @param stem 天干
+   * @param branch 地支
+   * @returns 所冲生肖、煞方及冲煞描述
+   */
+  private getChongSha(stem: string, branch: string): { chong: string; sha: string; chongSha: string } {
+    const chongStem = HEAVENLY_STEMS[(HEAVENLY_STEMS.indexOf(stem) + 6) % 10];
+    const chongBranch = EARTHLY_BRANCHES[(EARTHLY_BRANCHES.indexOf(branch) + 6) % 12];
+    const chong = BRANCH_ZODIACS[chongBranch];
+    const sha = SHA_DIRECTIONS[branch];
     
-    return directions;
+    return { chong, sha, chongSha: `冲${chong}(${chongStem}${chongBranch})煞${sha}` };
   }
   
   /**
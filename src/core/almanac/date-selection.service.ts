@@ -0,0 +1,253 @@
+import { Injectable, Logger, BadRequestException } from '@nestjs/common';
+import { Tyme4tsService } from '../../services/tyme4ts/tyme4ts.service';
+import { SuitabilityService } from './suitability.service';
+import { CalendarService } from '../calendar/calendar.service';
+import { SelectDatesDto, DateSelectionParticipantDto } from '../../api/dto/date-selection.dto';
+import {
+  DateCandidate,
+  DateSelectionResult,
+  ParticipantConflict
+} from '../../shared/types/date-selection.types';
+import { EARTHLY_BRANCHES } from '../../shared/constants/ziwei.constants';
+import {
+  ACTIVITY_ALIASES,
+  BRANCH_HARMS,
+  BRANCH_PUNISHMENTS,
+  BRANCH_ZODIACS,
+  BUILDING_RULES,
+  MONTHLY_SHENSHA,
+  OFFICER_RULES
+} from '../../shared/constants/almanac.constants';
+import { Solar } from 'tyme4ts';
+
+/**
+ * 择日服务
+ * 按事项宜忌、黄道黑道、神煞及与参与者年支日支的冲刑害为日期评分排序
+ */
+@Injectable()
+export class DateSelectionService {
+  private readonly logger = new Logger(DateSelectionService.name);
+  private readonly DEFAULT_LIMIT = 10;
+  private readonly MAX_LIMIT = 100;
+
+  /**
+   * 评分权重
+   */
+  private readonly SCORES = {
+    suitable: 40,
+    avoid: -60,
+    nothingSuitable: -30,
+    huangDao: 15,
+    heiDao: -10,
+    virtue: 10,
+    severe: -20,
+    '冲': -40,
+    '刑': -15,
+    '害': -15
+  };
+
+  constructor(
+    private readonly tyme4tsService: Tyme4tsService,
+    private readonly suitabilityService: SuitabilityService,
+    private readonly calendarService: CalendarService
+  ) {}
+
+  /**
+   * 按事项在日期范围内择日
+   * @param dto 择日请求
+   * @returns 按评分排序的候选日
+   */
+  async selectDates(dto: SelectDatesDto): Promise<DateSelectionResult> {
+    const activity = this.resolveActivity(dto.activity);
+    const dates = this.calendarService.parseDateRange(dto.startDate, dto.endDate);
+
+    const limit = dto.limit ?? this.DEFAULT_LIMIT;
+    if (!Number.isInteger(limit) || limit < 1 || limit > this.MAX_LIMIT) {
+      throw new BadRequestException(`返回数量应为1-${this.MAX_LIMIT}之间的整数: ${dto.limit}`);
+    }
+
+    this.logger.log(`择日: ${activity}，${dto.startDate} 至 ${dto.endDate}`);
+    const participants = (dto.participants || []).map((participant, i) =>
+      this.resolveParticipant(participant, i)
+    );
+
+    const candidates: DateCandidate[] = dates.map(date =>
+      this.evaluateDay(
+        date.getUTCFullYear(),
+        date.getUTCMonth() + 1,
+        date.getUTCDate(),
+        activity,
+        participants
+      )
+    );
+
+    // 同分按日期先后排列
+    candidates.sort((a, b) => b.score - a.score || a.date.localeCompare(b.date));
+
+    return {
+      activity,
+      startDate: dto.startDate,
+      endDate: dto.endDate,
+      evaluated: dates.length,
+      days: candidates.slice(0, limit)
+    };
+  }
+
+  /**
+   * 评估单日
+   * @param year 公历年
+   * @param month 公历月
+   * @param day 公历日
+   * @param activity 择日事项
+   * @param participants 参与者年支、日支
+   * @returns 候选日评分
+   */
+  private evaluateDay(
+    year: number,
+    month: number,
+    day: number,
+    activity: string,
+    participants: Array<{ name: string; yearBranch: string; dayBranch: string }>
+  ): DateCandidate {
+    const solar = Solar.fromYmd(year, month, day);
+    const lunar = solar.getLunar();
+    const { dayGan, dayZhi } = this.tyme4tsService.getGanzhiDate(lunar);
+    const analysis = this.suitabilityService.analyze(lunar.getMonthZhiExact(), dayGan, dayZhi);
+
+    let score = 0;
+    const reasons: string[] = [];
+    const suitable = analysis.suitable.includes(activity);
+    const avoid = analysis.avoid.includes(activity);
+
+    if (suitable) {
+      score += this.SCORES.suitable;
+      reasons.push(`宜${activity}`);
+    }
+    if (avoid) {
+      score += this.SCORES.avoid;
+      reasons.push(`忌${activity}`);
+    }
+    if (analysis.suitable.includes('诸事不宜')) {
+      score += this.SCORES.nothingSuitable;
+      reasons.push('诸事不宜');
+    }
+
+    if (analysis.huangDao) {
+      score += this.SCORES.huangDao;
+      reasons.push(`${analysis.officer}黄道日`);
+    } else {
+      score += this.SCORES.heiDao;
+      reasons.push(`${analysis.officer}黑道日`);
+    }
+
+    for (const shenSha of MONTHLY_SHENSHA) {
+      if (shenSha.virtue && analysis.auspiciousGods.includes(shenSha.name)) {
+        score += this.SCORES.virtue;
+        reasons.push(`值${shenSha.name}`);
+      }
+      if (shenSha.severe && analysis.inauspiciousGods.includes(shenSha.name)) {
+        score += this.SCORES.severe;
+        reasons.push(`值${shenSha.name}`);
+      }
+    }
+
+    const conflicts: ParticipantConflict[] = [];
+    for (const participant of participants) {
+      const pillars: Array<['year' | 'day', string]> = [
+        ['year', participant.yearBranch],
+        ['day', participant.dayBranch]
+      ];
+      for (const [pillar, branch] of pillars) {
+        const type = this.getBranchConflict(dayZhi, branch);
+        if (!type) {
+          continue;
+        }
+        conflicts.push({ participant: participant.name, type, pillar, branch });
+        score += this.SCORES[type];
+        const pillarName = pillar === 'year' ? `年支${branch}（属${BRANCH_ZODIACS[branch]}）` : `日支${branch}`;
+        reasons.push(`日支${dayZhi}${type}${participant.name}${pillarName}`);
+      }
+    }
+
+    return {
+      date: solar.toYmd(),
+      lunarDate: `${lunar.getMonthInChinese()}${lunar.getDayInChinese()}`,
+      ganzhi: dayGan + dayZhi,
+      building: analysis.building,
+      officer: analysis.officer,
+      huangDao: analysis.huangDao,
+      suitable,
+      avoid,
+      conflicts,
+      score,
+      reasons
+    };
+  }
+
+  /**
+   * 判断两地支的冲、刑、害关系，同时成立时取最重者
+   * @param dayBranch 候选日地支
+   * @param branch 参与者地支
+   * @returns 关系类型，无则返回 null
+   */
+  private getBranchConflict(dayBranch: string, branch: string): '冲' | '刑' | '害' | null {
+    const distance = Math.abs(EARTHLY_BRANCHES.indexOf(dayBranch) - EARTHLY_BRANCHES.indexOf(branch));
+    if (distance === 6) {
+      return '冲';
+    }
+    const matches = ([a, b]: [string, string]) =>
+      (a === dayBranch && b === branch) || (a === branch && b === dayBranch);
+    if (BRANCH_PUNISHMENTS.some(matches)) {
+      return '刑';
+    }
+    if (BRANCH_HARMS.some(matches)) {
+      return '害';
+    }
+    return null;
+  }
+
+  /**
+   * 取参与者年支、日支
+   * @param participant 参与者出生信息
+   * @param index 参与者序号
+   * @returns 参与者名称及年支、日支
+   */
+  private resolveParticipant(
+    participant: DateSelectionParticipantDto,
+    index: number
+  ): { name: string; yearBranch: string; dayBranch: string } {
+    const birth = this.calendarService.parseSolarDate(participant.birthDate, '参与者出生日期');
+    const lunar = Solar.fromYmd(
+      birth.getUTCFullYear(),
+      birth.getUTCMonth() + 1,
+      birth.getUTCDate()
+    ).getLunar();
+    const { yearZhi, dayZhi } = this.tyme4tsService.getGanzhiDate(lunar);
+
+    return {
+      name: participant.name || `参与者${index + 1}`,
+      yearBranch: yearZhi,
+      dayBranch: dayZhi
+    };
+  }
+
+  /**
+   * 将常用说法统一为黄历用语，并校验事项是否可择
+   * @param activity 择日事项
+   * @returns 黄历用语
+   */
+  private resolveActivity(activity: string): string {
+    const name = ACTIVITY_ALIASES[activity?.trim()] || activity?.trim();
+    const known = new Set(
+      [
+        ...Object.values(BUILDING_RULES),
+        ...Object.values(OFFICER_RULES),
+        ...MONTHLY_SHENSHA
+      ].flatMap(rule => [...rule.suitable, ...rule.avoid])
+    );
+    if (!name || !known.has(name)) {
+      throw new BadRequestException(`不支持的择日事项: ${activity}`);
+    }
+    return name;
+  }
+}
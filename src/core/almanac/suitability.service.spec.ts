@@ -0,0 +1,121 @@
+import { SolarDay } from 'tyme4ts';
+import { SuitabilityService } from './suitability.service';
+
+describe('SuitabilityService', () => {
+  const service = new SuitabilityService();
+
+  /**
+   * 按公历日期取月建与日干支推算宜忌
+   * @param year 公历年
+   * @param month 公历月
+   * @param day 公历日
+   */
+  const analyzeDate = (year: number, month: number, day: number) => {
+    const cycleDay = SolarDay.fromYmd(year, month, day).getSixtyCycleDay();
+    const dayCycle = cycleDay.getSixtyCycle();
+    return service.analyze(
+      cycleDay.getMonth().getEarthBranch().getName(),
+      dayCycle.getHeavenStem().getName(),
+      dayCycle.getEarthBranch().getName()
+    );
+  };
+
+  describe('analyze', () => {
+    it('月破日：2024-02-14 寅月戊申，破日天牢黑道，只取月破所宜', () => {
+      expect(service.analyze('寅', '戊', '申')).toEqual({
+        building: '破',
+        officer: '天牢',
+        huangDao: false,
+        lucky: false,
+        auspiciousGods: ['驿马'],
+        inauspiciousGods: ['月破'],
+        suitable: ['求医', '治病', '破屋', '坏垣'],
+        avoid: ['嫁娶', '纳采', '开市', '交易', '入宅', '移徙', '出行', '上任', '动土', '修造', '安葬', '诉讼']
+      });
+    });
+
+    it('天赦日：2024-03-15 卯月戊寅，闭日青龙黄道，为黄道吉日', () => {
+      expect(service.analyze('卯', '戊', '寅')).toEqual({
+        building: '闭',
+        officer: '青龙',
+        huangDao: true,
+        lucky: true,
+        auspiciousGods: ['天赦', '天医'],
+        inauspiciousGods: ['归忌'],
+        suitable: ['筑堤', '补垣', '塞穴', '收藏', '安葬', '嫁娶', '移徙', '祭祀', '祈福', '解除', '治病'],
+        avoid: ['开市', '出行', '求医', '上任', '动土']
+      });
+    });
+
+    it('四废日：2024-04-27 辰月辛酉，虽值天德黄道亦诸事不宜', () => {
+      expect(service.analyze('辰', '辛', '酉')).toEqual({
+        building: '执',
+        officer: '天德',
+        huangDao: true,
+        lucky: false,
+        auspiciousGods: [],
+        inauspiciousGods: ['四废'],
+        suitable: ['诸事不宜'],
+        avoid: ['开市', '出行', '移徙', '开仓', '嫁娶', '交易', '上任', '修造', '动土']
+      });
+    });
+
+    it('受死日：2024-01-10 丑月癸酉，成日亦不为吉日', () => {
+      expect(service.analyze('丑', '癸', '酉')).toEqual({
+        building: '成',
+        officer: '勾陈',
+        huangDao: false,
+        lucky: false,
+        auspiciousGods: ['天喜', '母仓'],
+        inauspiciousGods: ['受死'],
+        suitable: ['捕捉', '畋猎'],
+        avoid: ['诉讼', '嫁娶', '动土', '移徙', '开市', '入宅', '出行', '上任', '求医', '安葬']
+      });
+    });
+
+    it('往亡日：2024-02-08 寅月壬寅，德神不化重煞', () => {
+      expect(service.analyze('寅', '壬', '寅')).toEqual({
+        building: '建',
+        officer: '天刑',
+        huangDao: false,
+        lucky: false,
+        auspiciousGods: ['天德合', '月空'],
+        inauspiciousGods: ['往亡'],
+        suitable: ['诸事不宜'],
+        avoid: ['动土', '开仓', '嫁娶', '纳采', '安葬', '诉讼', '出行', '上任', '移徙', '求医']
+      });
+    });
+
+    it('建除、黄道黑道及月破、四废、天赦、往亡与寿星万年历一致（2024-2025）', () => {
+      const severe = ['月破', '四废', '天赦', '往亡'];
+      let solarDay = SolarDay.fromYmd(2024, 1, 1);
+
+      while (solarDay.getYear() < 2026) {
+        const cycleDay = solarDay.getSixtyCycleDay();
+        const analysis = analyzeDate(solarDay.getYear(), solarDay.getMonth(), solarDay.getDay());
+        const gods = [...analysis.auspiciousGods, ...analysis.inauspiciousGods];
+        const expectedGods = cycleDay.getGods().map(god => god.getName());
+
+        expect([solarDay.toString(), analysis.building, analysis.officer]).toEqual([
+          solarDay.toString(),
+          cycleDay.getDuty().getName(),
+          cycleDay.getTwelveStar().getName()
+        ]);
+        expect([solarDay.toString(), ...severe.filter(name => gods.includes(name))]).toEqual([
+          solarDay.toString(),
+          ...severe.filter(name => expectedGods.includes(name))
+        ]);
+        solarDay = solarDay.next(1);
+      }
+    });
+  });
+
+  describe('analyzeHour', () => {
+    it('时支冲日支为时破，不取宜事', () => {
+      const analysis = service.analyzeHour('戊', '申', '寅');
+      expect(analysis.clash).toBe(true);
+      expect(analysis.lucky).toBe(false);
+      expect(analysis.suitable).toEqual(['诸事不宜']);
+    });
+  });
+});
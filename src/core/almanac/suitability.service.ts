@@ -0,0 +1,130 @@
+import { Injectable } from '@nestjs/common';
+import { EARTHLY_BRANCHES } from '../../shared/constants/ziwei.constants';
+import {
+  BUILDING_RULES,
+  HUANGDAO_OFFICERS,
+  MONTHLY_SHENSHA,
+  NOBLE_BRANCHES,
+  NOBLE_HOUR_SUITABLE,
+  OFFICER_RULES,
+  TWELVE_BUILDINGS,
+  TWELVE_OFFICERS
+} from '../../shared/constants/almanac.constants';
+import { HourSuitabilityAnalysis, SuitabilityAnalysis } from '../../shared/types/suitability.types';
+import { mod } from '../../shared/utils/math.utils';
+
+/**
+ * 宜忌推算服务
+ * 以月建与日干支定建除十二神、黄道黑道十二神及月令神煞，再按吉神所宜、凶煞所忌取舍当日宜忌
+ */
+@Injectable()
+export class SuitabilityService {
+  /**
+   * 推算单日宜忌
+   * @param monthBranch 月建地支（按节气换月）
+   * @param dayStem 日干
+   * @param dayBranch 日支
+   * @returns 宜忌推算结果
+   */
+  analyze(monthBranch: string, dayStem: string, dayBranch: string): SuitabilityAnalysis {
+    const monthIndex = EARTHLY_BRANCHES.indexOf(monthBranch);
+    const dayIndex = EARTHLY_BRANCHES.indexOf(dayBranch);
+
+    // 建除：月建之支为建日，顺排十二神
+    const building = TWELVE_BUILDINGS[mod(dayIndex - monthIndex, 12)];
+    const officer = this.getOfficer(monthIndex, dayIndex);
+    const huangDao = HUANGDAO_OFFICERS.includes(officer);
+
+    const shenSha = MONTHLY_SHENSHA.filter(item =>
+      item.targets[monthIndex].some(target =>
+        target.length === 2 ? target === dayStem + dayBranch : target === dayStem || target === dayBranch
+      )
+    );
+    const gods = shenSha.filter(item => item.auspicious);
+    const evils = shenSha.filter(item => !item.auspicious);
+    const severe = evils.filter(item => item.severe);
+    // 德神可化寻常凶煞，重煞不在此列
+    const hasVirtue = gods.some(item => item.virtue);
+    const effectiveEvils = hasVirtue ? severe : evils;
+
+    const avoid = this.collect([
+      BUILDING_RULES[building].avoid,
+      OFFICER_RULES[officer].avoid,
+      ...effectiveEvils.map(item => item.avoid)
+    ]);
+
+    // 遇重煞时只取重煞自身所宜，否则合建除、黄道及吉神所宜
+    const suitableSources = severe.length > 0
+      ? severe.map(item => item.suitable)
+      : [BUILDING_RULES[building].suitable, OFFICER_RULES[officer].suitable, ...gods.map(item => item.suitable)];
+    // 吉神所宜遇凶煞所忌则不取
+    const suitable = this.collect(suitableSources).filter(item => !avoid.includes(item));
+
+    return {
+      building,
+      officer,
+      huangDao,
+      lucky: huangDao && severe.length === 0,
+      auspiciousGods: gods.map(item => item.name),
+      inauspiciousGods: evils.map(item => item.name),
+      suitable: suitable.length > 0 ? suitable : ['诸事不宜'],
+      avoid
+    };
+  }
+
+  /**
+   * 推算时辰宜忌
+   * 时辰黄道黑道以日支起青龙，与月建起日同法；时支冲日支为时破，日干贵人所临之时为贵人时
+   * @param dayStem 日干
+   * @param dayBranch 日支
+   * @param hourBranch 时支
+   * @returns 时辰宜忌推算结果
+   */
+  analyzeHour(dayStem: string, dayBranch: string, hourBranch: string): HourSuitabilityAnalysis {
+    const dayIndex = EARTHLY_BRANCHES.indexOf(dayBranch);
+    const hourIndex = EARTHLY_BRANCHES.indexOf(hourBranch);
+    const officer = this.getOfficer(dayIndex, hourIndex);
+    const huangDao = HUANGDAO_OFFICERS.includes(officer);
+    const clash = mod(hourIndex - dayIndex, 12) === 6;
+    const noble = [NOBLE_BRANCHES[dayStem].yang, NOBLE_BRANCHES[dayStem].yin].includes(hourBranch);
+
+    const avoid = this.collect([
+      OFFICER_RULES[officer].avoid,
+      clash ? BUILDING_RULES['破'].avoid : []
+    ]);
+    const suitable = clash
+      ? []
+      : this.collect([OFFICER_RULES[officer].suitable, noble ? NOBLE_HOUR_SUITABLE : []])
+        .filter(item => !avoid.includes(item));
+
+    return {
+      officer,
+      huangDao,
+      lucky: huangDao && !clash,
+      clash,
+      noble,
+      suitable: suitable.length > 0 ? suitable : ['诸事不宜'],
+      avoid
+    };
+  }
+
+  /**
+   * 取黄道黑道十二神：寅申起青龙于子，卯酉起于寅，依次隔位顺排
+   * 日神以月建起，时神以日支起
+   * @param baseIndex 月建或日支序号
+   * @param index 日支或时支序号
+   * @returns 十二神名称
+   */
+  private getOfficer(baseIndex: number, index: number): string {
+    return TWELVE_OFFICERS[mod(index - mod(2 * baseIndex - 4, 12), 12)];
+  }
+
+  /**
+   * 合并事项并去重，保留首次出现的顺序
+   * @param lists 事项列表
+   * @returns 合并后的事项
+   */
+  private collect(lists: string[][]): string[] {
+    return [...new Set(lists.flat())];
+  }
+}
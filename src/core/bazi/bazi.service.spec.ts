@@ -0,0 +1,118 @@
+import { ZiweiService } from '../ziwei/ziwei.service';
+import { CalendarService } from '../calendar/calendar.service';
+import { BirthMoment } from '../../shared/types/birth-time.types';
+import { FourPillars } from '../../shared/types/ziwei.types';
+import { BaziService } from './bazi.service';
+
+jest.mock('../ziwei/ziwei.service', () => ({ ZiweiService: class {} }));
+jest.mock('../calendar/calendar.service', () => ({ CalendarService: class {} }));
+
+describe('BaziService', () => {
+  // 1990-08-15 12:00 生，庚午年 甲申月 壬子日 丙午时
+  const fourPillars: FourPillars = {
+    year: { stem: '庚', branch: '午' },
+    month: { stem: '甲', branch: '申' },
+    day: { stem: '壬', branch: '子' },
+    hour: { stem: '丙', branch: '午' }
+  };
+
+  // 寿星天文历 1990 年立秋、白露交节时刻（北京时间）
+  const calendarService = {
+    getJieTimes: (year: number) => year === 1990
+      ? [{ name: '立秋', time: '1990-08-08 02:45:32' }, { name: '白露', time: '1990-09-08 05:37:28' }]
+      : []
+  } as unknown as CalendarService;
+
+  /**
+   * 以上述四柱排八字，出生时刻即北京时间
+   * @param moment 出生时刻，用于推算起运
+   * @param gender 性别
+   */
+  const calculate = (moment: BirthMoment, gender: 'male' | 'female') => {
+    const ziweiService = {
+      resolveBirthMoment: () => ({ beijingMoment: moment, solarMoment: moment, hour: moment.hour, minute: moment.minute }),
+      resolveTargetDate: () => new Date(2024, 0, 1),
+      calculateFourPillars: () => fourPillars
+    } as unknown as ZiweiService;
+
+    return new BaziService(ziweiService, calendarService).calculateBazi({
+      birthDate: `${moment.year}-${moment.month}-${moment.day}`,
+      birthTime: `${moment.hour}:${moment.minute}`,
+      birthPlace: '北京',
+      gender,
+      dateType: 'solar'
+    });
+  };
+
+  const birth: BirthMoment = { year: 1990, month: 8, day: 15, hour: 12, minute: 0 };
+
+  describe('四柱详情', () => {
+    it('十神以日主壬水论：庚偏印、甲食神、丙偏财，藏干各论十神', async () => {
+      const { pillars } = await calculate(birth, 'male');
+      expect([pillars.year, pillars.month, pillars.day, pillars.hour].map(pillar => [pillar.ganzhi, pillar.tenGod]))
+        .toEqual([['庚午', '偏印'], ['甲申', '食神'], ['壬子', '日主'], ['丙午', '偏财']]);
+      expect(pillars.month.hiddenStems.map(hidden => hidden.stem + hidden.tenGod)).toEqual(['庚偏印', '壬比肩', '戊七杀']);
+      expect(pillars.hour.hiddenStems.map(hidden => hidden.stem + hidden.tenGod)).toEqual(['丁正财', '己正官']);
+      expect(pillars.day.hiddenStems.map(hidden => hidden.stem + hidden.tenGod)).toEqual(['癸劫财']);
+    });
+
+    it('十二长生：壬水长生于申、帝旺于子、胎于午；各柱天干自坐亦按阳顺阴逆', async () => {
+      const { pillars } = await calculate(birth, 'male');
+      const list = [pillars.year, pillars.month, pillars.day, pillars.hour];
+      expect(list.map(pillar => pillar.lifeStage)).toEqual(['胎', '长生', '帝旺', '胎']);
+      expect(list.map(pillar => pillar.selfLifeStage)).toEqual(['沐浴', '绝', '帝旺', '帝旺']);
+    });
+
+    it('纳音', async () => {
+      const { pillars } = await calculate(birth, 'male');
+      expect([pillars.year, pillars.month, pillars.day, pillars.hour].map(pillar => pillar.nayin))
+        .toEqual(['路旁土', '泉中水', '桑柘木', '天河水']);
+    });
+
+    it('旺相休囚死按月令申金论：金旺、水相、土休、火囚、木死', async () => {
+      const { elements, dayMaster } = await calculate(birth, 'male');
+      expect(elements.map(item => item.element + item.state)).toEqual(['木死', '火囚', '土休', '金旺', '水相']);
+      expect([dayMaster.monthState, dayMaster.seasonal, dayMaster.rooted]).toEqual(['相', true, true]);
+    });
+  });
+
+  describe('起运', () => {
+    it('阳年男命顺行，数至下一个节白露：23天17小时37分折7年10个月28天', async () => {
+      const { luckStart, luckPillars } = await calculate(birth, 'male');
+      expect(luckStart).toEqual(expect.objectContaining({
+        forward: true,
+        jie: '白露',
+        jieTime: '1990-09-08 05:37:28',
+        years: 7,
+        months: 10,
+        days: 28,
+        date: '1998-07-13'
+      }));
+      expect(luckPillars.slice(0, 3).map(pillar => pillar.ganzhi)).toEqual(['乙酉', '丙戌', '丁亥']);
+      expect([luckPillars[0].startAge, luckPillars[0].startYear]).toEqual([7, 1998]);
+    });
+
+    it('阳年女命逆行，数至上一个节立秋：7天9小时14分折2年5个月16天', async () => {
+      const { luckStart, luckPillars } = await calculate(birth, 'female');
+      expect(luckStart).toEqual(expect.objectContaining({
+        forward: false,
+        jie: '立秋',
+        jieTime: '1990-08-08 02:45:32',
+        years: 2,
+        months: 5,
+        days: 16,
+        date: '1993-01-31'
+      }));
+      expect(luckPillars.slice(0, 3).map(pillar => pillar.ganzhi)).toEqual(['癸未', '壬午', '辛巳']);
+    });
+
+    it.each([
+      ['三天折一年', { year: 1990, month: 9, day: 5, hour: 5, minute: 37 }, [1, 0, 0]],
+      ['一天折四个月', { year: 1990, month: 9, day: 7, hour: 5, minute: 37 }, [0, 4, 0]],
+      ['一个时辰折十天', { year: 1990, month: 9, day: 8, hour: 3, minute: 37 }, [0, 0, 10]]
+    ])('%s', async (_, moment: BirthMoment, expected: number[]) => {
+      const { luckStart } = await calculate(moment, 'male');
+      expect([luckStart.jie, luckStart.years, luckStart.months, luckStart.days]).toEqual(['白露', ...expected]);
+    });
+  });
+});
@@ -0,0 +1,405 @@
+import { Injectable, Logger, BadRequestException, HttpException } from '@nestjs/common';
+import { ZiweiService } from '../ziwei/ziwei.service';
+import { CalendarService } from '../calendar/calendar.service';
+import { CalculateBaziDto } from '../../api/dto/bazi.dto';
+import {
+  AnnualPillar,
+  BaziPillar,
+  BaziPillars,
+  BaziResult,
+  DayMasterStrength,
+  ElementStrength,
+  HiddenStem,
+  LuckPillar,
+  LuckStart
+} from '../../shared/types/bazi.types';
+import { FourPillars, Pillar } from '../../shared/types/ziwei.types';
+import { BirthMoment } from '../../shared/types/birth-time.types';
+import { HEAVENLY_STEMS, EARTHLY_BRANCHES } from '../../shared/constants/ziwei.constants';
+import {
+  BRANCH_ELEMENTS,
+  DAY_MASTER_LEVELS,
+  ELEMENT_SCORES,
+  ELEMENT_SEASON_STATES,
+  FIVE_ELEMENTS,
+  HIDDEN_STEMS,
+  HIDDEN_STEM_WEIGHTS,
+  LUCK_PILLAR_COUNT,
+  LUCK_START_MINUTES_PER_YEAR,
+  STEM_ELEMENTS,
+  STEM_LIFE_START,
+  TEN_GODS,
+  TEN_GOD_GROUPS,
+  TWELVE_LIFE_STAGES
+} from '../../shared/constants/bazi.constants';
+import { mod } from '../../shared/utils/math.utils';
+import { getCycleIndex, getNayin } from '../../shared/utils/ganzhi.utils';
+
+/**
+ * 八字服务
+ * 在四柱基础上计算十神、藏干、纳音、十二长生、五行力量、日主旺衰、大运与流年
+ */
+@Injectable()
+export class BaziService {
+  private readonly logger = new Logger(BaziService.name);
+  private readonly MAX_ANNUAL_YEARS = 120;
+  private readonly MINUTE_MS = 60 * 1000;
+
+  constructor(
+    private readonly ziweiService: ZiweiService,
+    private readonly calendarService: CalendarService
+  ) {}
+
+  /**
+   * 八字排盘
+   * @param dto 出生信息
+   * @returns 八字分析结果
+   */
+  async calculateBazi(dto: CalculateBaziDto): Promise<BaziResult> {
+    try {
+      this.logger.log(`开始计算八字: ${JSON.stringify(dto)}`);
+
+      // 1. 与紫微斗数排盘使用同一出生时刻（时区、真太阳时、子时换日）
+      const birth = this.ziweiService.resolveBirthMoment(dto);
+      const targetYear = this.ziweiService.resolveTargetDate(dto.targetDate, dto.targetTime).getFullYear();
+      const lunarDate = birth.lunarDate;
+
+      // 2. 四柱（晚子时不换日时，时干按次日日干起）
+      const fourPillars = this.ziweiService.calculateFourPillars(
+        lunarDate,
+        birth.hour,
+        birth.minute,
+        dto.birthPlace,
+        birth.lateZiHour
+      );
+      const dayStem = fourPillars.day.stem;
+
+      // 3. 十神、藏干等四柱详情及五行力量、日主旺衰
+      const { pillars, elements, dayMaster } = this.analyzePillars(fourPillars);
+
+      // 4. 大运与流年
+      // 交节时刻为北京时间，起运按北京时间的出生时刻计算
+      const luckStart = this.calculateLuckStart(birth.beijingMoment, fourPillars.year.stem, dto.gender);
+      const luckPillars = this.buildLuckPillars(fourPillars.month, dayStem, luckStart, targetYear);
+      const annualPillars = this.buildAnnualPillars(dto, birth.solarMoment.year, dayStem, luckPillars, targetYear);
+
+      this.logger.log('八字计算完成');
+      return {
+        gender: dto.gender,
+        pillars,
+        elements,
+        dayMaster,
+        luckStart,
+        luckPillars,
+        annualPillars,
+        timeZone: birth.timeZone,
+        solarTime: birth.solarTime,
+        ziHour: birth.ziHour,
+        calculationTime: new Date().toISOString()
+      };
+    } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      this.logger.error('八字计算失败', error.stack);
+      throw new Error(`八字计算失败: ${error.message}`);
+    }
+  }
+
+  /**
+   * 分析四柱：单柱详情、五行力量与日主旺衰
+   * @param fourPillars 四柱干支
+   * @returns 四柱详情、五行力量及日主旺衰
+   */
+  analyzePillars(fourPillars: FourPillars): {
+    pillars: BaziPillars;
+    elements: ElementStrength[];
+    dayMaster: DayMasterStrength;
+  } {
+    const dayStem = fourPillars.day.stem;
+    const pillars: BaziPillars = {
+      year: this.buildPillar(fourPillars.year, dayStem),
+      month: this.buildPillar(fourPillars.month, dayStem),
+      day: this.buildPillar(fourPillars.day, dayStem, true),
+      hour: this.buildPillar(fourPillars.hour, dayStem)
+    };
+    const elements = this.scoreElements(pillars, dayStem);
+
+    return { pillars, elements, dayMaster: this.assessDayMaster(pillars, elements, dayStem) };
+  }
+
+  /**
+   * 计算单柱详情
+   * @param pillar 单柱干支
+   * @param dayStem 日主天干
+   * @param isDay 是否为日柱
+   * @returns 单柱详情
+   */
+  private buildPillar(pillar: Pillar, dayStem: string, isDay = false): BaziPillar {
+    const { stem, branch } = pillar;
+    const hiddenStems = HIDDEN_STEMS[branch];
+    const weights = HIDDEN_STEM_WEIGHTS[hiddenStems.length];
+
+    return {
+      ganzhi: stem + branch,
+      stem,
+      branch,
+      stemElement: STEM_ELEMENTS[stem],
+      branchElement: BRANCH_ELEMENTS[branch],
+      tenGod: isDay ? '日主' : this.getTenGod(dayStem, stem),
+      hiddenStems: hiddenStems.map<HiddenStem>((hidden, i) => ({
+        stem: hidden,
+        element: STEM_ELEMENTS[hidden],
+        tenGod: this.getTenGod(dayStem, hidden),
+        weight: weights[i]
+      })),
+      nayin: getNayin(stem, branch),
+      lifeStage: this.getLifeStage(dayStem, branch),
+      selfLifeStage: this.getLifeStage(stem, branch)
+    };
+  }
+
+  /**
+   * 计算五行力量
+   * 天干按本五行计分，地支按藏干权重分配，月令地支分数加倍
+   * @param pillars 四柱详情
+   * @param dayStem 日主天干
+   * @returns 按木火土金水排列的五行力量
+   */
+  private scoreElements(pillars: BaziPillars, dayStem: string): ElementStrength[] {
+    const scores: Record<string, number> = Object.fromEntries(FIVE_ELEMENTS.map(element => [element, 0]));
+    for (const [name, pillar] of Object.entries(pillars) as Array<[keyof BaziPillars, BaziPillar]>) {
+      scores[pillar.stemElement] += ELEMENT_SCORES.stem;
+      const branchScore = name === 'month' ? ELEMENT_SCORES.monthBranch : ELEMENT_SCORES.branch;
+      for (const hidden of pillar.hiddenStems) {
+        scores[hidden.element] += branchScore * hidden.weight;
+      }
+    }
+
+    const total = FIVE_ELEMENTS.reduce((sum, element) => sum + scores[element], 0);
+    const monthElement = pillars.month.branchElement;
+    const dayElement = STEM_ELEMENTS[dayStem];
+
+    return FIVE_ELEMENTS.map(element => ({
+      element,
+      score: this.round(scores[element]),
+      ratio: this.round(scores[element] / total),
+      state: ELEMENT_SEASON_STATES[this.getElementDistance(monthElement, element)],
+      relation: TEN_GOD_GROUPS[this.getElementDistance(dayElement, element)]
+    }));
+  }
+
+  /**
+   * 判断日主旺衰
+   * 以比劫、印星为生扶，食伤、财星、官杀为克泄耗，按生扶力量占比定级
+   * @param pillars 四柱详情
+   * @param elements 五行力量
+   * @param dayStem 日主天干
+   * @returns 日主旺衰
+   */
+  private assessDayMaster(pillars: BaziPillars, elements: ElementStrength[], dayStem: string): DayMasterStrength {
+    const element = STEM_ELEMENTS[dayStem];
+    const own = elements.find(item => item.element === element) as ElementStrength;
+    const supportScore = elements
+      .filter(item => item.relation === '比劫' || item.relation === '印星')
+      .reduce((sum, item) => sum + item.score, 0);
+    const total = elements.reduce((sum, item) => sum + item.score, 0);
+    const ratio = supportScore / total;
+
+    const seasonal = own.state === '旺' || own.state === '相';
+    const rooted = Object.values(pillars).some((pillar: BaziPillar) =>
+      pillar.hiddenStems.some(hidden => hidden.element === element)
+    );
+    const level = (DAY_MASTER_LEVELS.find(item => ratio >= item.min) as { level: string }).level;
+
+    return {
+      stem: dayStem,
+      element,
+      monthState: own.state,
+      seasonal,
+      rooted,
+      supportScore: this.round(supportScore),
+      drainScore: this.round(total - supportScore),
+      ratio: this.round(ratio),
+      level,
+      description:
+        `${dayStem}${element}生于${pillars.month.branch}月，${seasonal ? '得令' : '失令'}，` +
+        `${rooted ? '得地' : '失地'}，生扶力量占${Math.round(ratio * 100)}%，判为${level}`
+    };
+  }
+
+  /**
+   * 计算起运时间
+   * 阳年生男、阴年生女顺行，数至下一个节；反之逆行，数至上一个节；三天折一年，一天折四个月，一个时辰折十天
+   * @param moment 出生时刻（北京时间）
+   * @param yearStem 年干
+   * @param gender 性别
+   * @returns 起运信息
+   */
+  private calculateLuckStart(moment: BirthMoment, yearStem: string, gender: 'male' | 'female'): LuckStart {
+    const forward = (HEAVENLY_STEMS.indexOf(yearStem) % 2 === 0) === (gender === 'male');
+    const birthTime = Date.UTC(moment.year, moment.month - 1, moment.day, moment.hour, moment.minute);
+
+    // 取前后三年的十二节，保证出生时刻前后均有节
+    const jies: Array<{ name: string; time: number; text: string }> = [];
+    for (let year = moment.year - 1; year <= moment.year + 1; year++) {
+      this.calendarService.getJieTimes(year).forEach(({ name, time: text }) => {
+        const [y, m, d, hour, minute, second] = text.split(/[- :]/).map(Number);
+        jies.push({ name, time: Date.UTC(y, m - 1, d, hour, minute, second || 0), text });
+      });
+    }
+    jies.sort((a, b) => a.time - b.time);
+    const jie = forward
+      ? jies.find(item => item.time > birthTime)
+      : [...jies].reverse().find(item => item.time <= birthTime);
+    if (!jie) {
+      throw new BadRequestException('无法确定出生时刻前后的节气');
+    }
+
+    const minutes = Math.floor(Math.abs(jie.time - birthTime) / this.MINUTE_MS);
+    const years = Math.floor(minutes / LUCK_START_MINUTES_PER_YEAR);
+    const monthMinutes = LUCK_START_MINUTES_PER_YEAR / 12;
+    const months = Math.floor((minutes % LUCK_START_MINUTES_PER_YEAR) / monthMinutes);
+    const days = Math.floor((minutes % monthMinutes) / (monthMinutes / 30));
+    const startDate = new Date(Date.UTC(moment.year + years, moment.month - 1 + months, moment.day + days));
+
+    const gapDays = Math.floor(minutes / (24 * 60));
+    const gapHours = Math.floor((minutes % (24 * 60)) / 60);
+    return {
+      forward,
+      jie: jie.name,
+      jieTime: jie.text,
+      years,
+      months,
+      days,
+      date: startDate.toISOString().slice(0, 10),
+      description:
+        `出生${forward ? '后' : '前'}${gapDays}天${gapHours}小时交${jie.name}，三天折一年，` +
+        `${years}年${months}个月${days}天后起运`
+    };
+  }
+
+  /**
+   * 排大运：自月柱起顺排或逆排六十甲子，每步十年
+   * @param monthPillar 月柱
+   * @param dayStem 日主天干
+   * @param luckStart 起运信息
+   * @param targetYear 参考公历年
+   * @returns 大运列表
+   */
+  private buildLuckPillars(
+    monthPillar: Pillar,
+    dayStem: string,
+    luckStart: LuckStart,
+    targetYear: number
+  ): LuckPillar[] {
+    const monthIndex = getCycleIndex(monthPillar.stem, monthPillar.branch);
+    const firstYear = Number(luckStart.date.slice(0, 4));
+
+    return Array.from({ length: LUCK_PILLAR_COUNT }, (_, i) => {
+      const [stem, branch] = this.getGanzhi(monthIndex + (luckStart.forward ? i + 1 : -(i + 1)));
+      const startYear = firstYear + i * 10;
+      return {
+        index: i + 1,
+        ganzhi: stem + branch,
+        tenGod: this.getTenGod(dayStem, stem),
+        branchTenGod: this.getTenGod(dayStem, HIDDEN_STEMS[branch][0]),
+        nayin: getNayin(stem, branch),
+        lifeStage: this.getLifeStage(dayStem, branch),
+        startAge: luckStart.years + i * 10,
+        endAge: luckStart.years + i * 10 + 9,
+        startYear,
+        endYear: startYear + 9,
+        current: targetYear >= startYear && targetYear <= startYear + 9
+      };
+    });
+  }
+
+  /**
+   * 排流年，未指定年份范围时取参考年份所在大运的十年
+   * @param dto 请求数据
+   * @param birthYear 出生公历年
+   * @param dayStem 日主天干
+   * @param luckPillars 大运列表
+   * @param targetYear 参考公历年
+   * @returns 流年列表
+   */
+  private buildAnnualPillars(
+    dto: CalculateBaziDto,
+    birthYear: number,
+    dayStem: string,
+    luckPillars: LuckPillar[],
+    targetYear: number
+  ): AnnualPillar[] {
+    const current = luckPillars.find(pillar => pillar.current);
+    const startYear = Number(dto.annualStartYear ?? (current ? current.startYear : targetYear));
+    const endYear = Number(dto.annualEndYear ?? (current ? current.endYear : startYear + 9));
+    if (!Number.isInteger(startYear) || !Number.isInteger(endYear) || startYear > endYear) {
+      throw new BadRequestException(`流年范围无效: ${dto.annualStartYear}-${dto.annualEndYear}`);
+    }
+    if (endYear - startYear >= this.MAX_ANNUAL_YEARS) {
+      throw new BadRequestException(`流年范围不能超过${this.MAX_ANNUAL_YEARS}年`);
+    }
+    if (startYear < birthYear) {
+      throw new BadRequestException(`流年起始年不能早于出生年${birthYear}`);
+    }
+
+    const annualPillars: AnnualPillar[] = [];
+    for (let year = startYear; year <= endYear; year++) {
+      const [stem, branch] = this.getGanzhi(year - 4);
+      const luckPillar = luckPillars.find(pillar => year >= pillar.startYear && year <= pillar.endYear);
+      annualPillars.push({
+        year,
+        ganzhi: stem + branch,
+        tenGod: this.getTenGod(dayStem, stem),
+        branchTenGod: this.getTenGod(dayStem, HIDDEN_STEMS[branch][0]),
+        nayin: getNayin(stem, branch),
+        lifeStage: this.getLifeStage(dayStem, branch),
+        age: year - birthYear,
+        luckPillar: luckPillar ? luckPillar.ganzhi : null,
+        current: year === targetYear
+      });
+    }
+    return annualPillars;
+  }
+
+  /**
+   * 取天干对日主的十神
+   * @param dayStem 日主天干
+   * @param stem 天干
+   * @returns 十神名称
+   */
+  private getTenGod(dayStem: string, stem: string): string {
+    const distance = this.getElementDistance(STEM_ELEMENTS[dayStem], STEM_ELEMENTS[stem]);
+    const samePolarity = HEAVENLY_STEMS.indexOf(dayStem) % 2 === HEAVENLY_STEMS.indexOf(stem) % 2;
+    return TEN_GODS[distance * 2 + (samePolarity ? 0 : 1)];
+  }
+
+  /**
+   * 取天干在地支的十二长生
+   * @param stem 天干
+   * @param branch 地支
+   * @returns 十二长生名称
+   */
+  private getLifeStage(stem: string, branch: string): string {
+    const start = EARTHLY_BRANCHES.indexOf(STEM_LIFE_START[stem]);
+    const index = EARTHLY_BRANCHES.indexOf(branch);
+    const yang = HEAVENLY_STEMS.indexOf(stem) % 2 === 0;
+    return TWELVE_LIFE_STAGES[mod(yang ? index - start : start - index, 12)];
+  }
+
+  /**
+   * 取五行在相生序中相对基准五行的位次：0同我、1我生、2我克、3克我、4生我
+   */
+  private getElementDistance(base: string, element: string): number {
+    return mod(FIVE_ELEMENTS.indexOf(element) - FIVE_ELEMENTS.indexOf(base), 5);
+  }
+
+  private getGanzhi(cycleIndex: number): [string, string] {
+    return [HEAVENLY_STEMS[mod(cycleIndex, 10)], EARTHLY_BRANCHES[mod(cycleIndex, 12)]];
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
@@ -0,0 +1,282 @@
+import { Injectable, Logger, BadRequestException } from '@nestjs/common';
+import { Tyme4tsService } from '../../services/tyme4ts/tyme4ts.service';
+import { ConvertDateDto, DayPillarLookupDto, LunarDateLookupDto } from '../../api/dto/calendar.dto';
+import {
+  DateConversionResult,
+  DayPillarLookupResult,
+  LunarDateLookupResult,
+  LunarDateMatch,
+  LunarDateMissing
+} from '../../shared/types/calendar.types';
+import { HEAVENLY_STEMS, EARTHLY_BRANCHES } from '../../shared/constants/ziwei.constants';
+import {
+  CALENDAR_MAX_YEAR,
+  CALENDAR_MIN_YEAR,
+  DAY_MS,
+  DAY_PILLAR_EPOCH_INDEX,
+  LUNAR_DAY_NAMES,
+  LUNAR_MONTH_NAMES,
+  MAX_DATE_RANGE_DAYS
+} from '../../shared/constants/calendar.constants';
+import { TWELVE_JIE } from '../../shared/constants/bazi.constants';
+import { mod } from '../../shared/utils/math.utils';
+import { Solar, Lunar, LunarYear, LunarMonth, JieQi } from 'tyme4ts';
+
+/**
+ * 历法换算服务
+ * 提供经校验的公历农历互换，以及按日柱、农历月日反查公历日期
+ */
+@Injectable()
+export class CalendarService {
+  private readonly logger = new Logger(CalendarService.name);
+
+  constructor(private readonly tyme4tsService: Tyme4tsService) {}
+
+  /**
+   * 公历农历互换
+   * @param dto 日期及其类型
+   * @returns 对应的公历、农历与干支
+   */
+  async convert(dto: ConvertDateDto): Promise<DateConversionResult> {
+    const [year, month, day] = this.parseDate(dto.date, '日期');
+    let lunar: Lunar;
+    if (dto.from === 'solar') {
+      if (dto.isLeapMonth) {
+        throw new BadRequestException('isLeapMonth 仅适用于农历日期');
+      }
+      lunar = this.fromSolar(year, month, day);
+    } else if (dto.from === 'lunar') {
+      lunar = this.fromLunar(year, month, day, dto.isLeapMonth);
+    } else {
+      throw new BadRequestException(`不支持的日期类型: ${dto.from}`);
+    }
+
+    const solar = lunar.getSolar();
+    const ganzhi = this.tyme4tsService.getGanzhiDate(lunar);
+    return {
+      solar: {
+        date: solar.toYmd(),
+        year: solar.getYear(),
+        month: solar.getMonth(),
+        day: solar.getDay(),
+        week: solar.getWeek()
+      },
+      lunar: {
+        year: lunar.getYear(),
+        month: Math.abs(lunar.getMonth()),
+        day: lunar.getDay(),
+        leap: lunar.getMonth() < 0,
+        text: this.formatLunarDate(Math.abs(lunar.getMonth()), lunar.getDay(), lunar.getMonth() < 0)
+      },
+      ganzhi: {
+        year: ganzhi.yearGan + ganzhi.yearZhi,
+        month: ganzhi.monthGan + ganzhi.monthZhi,
+        day: ganzhi.dayGan + ganzhi.dayZhi
+      }
+    };
+  }
+
+  /**
+   * 查找公历年份范围内日柱为指定干支的全部日期
+   * 日柱六十日一循环，自历元起按序号推算，不逐日换算
+   * @param dto 日柱干支及年份范围
+   * @returns 匹配的公历日期
+   */
+  async findDayPillarDates(dto: DayPillarLookupDto): Promise<DayPillarLookupResult> {
+    const ganzhi = (dto.ganzhi || '').trim();
+    const stemIndex = HEAVENLY_STEMS.indexOf(ganzhi[0]);
+    const branchIndex = EARTHLY_BRANCHES.indexOf(ganzhi[1]);
+    // 干支须同为阳或同为阴才构成六十甲子
+    if (ganzhi.length !== 2 || stemIndex < 0 || branchIndex < 0 || stemIndex % 2 !== branchIndex % 2) {
+      throw new BadRequestException(`无效的日柱干支: ${dto.ganzhi}`);
+    }
+
+    const startYear = dto.startYear ?? CALENDAR_MIN_YEAR;
+    const endYear = dto.endYear ?? CALENDAR_MAX_YEAR;
+    this.validateYearRange(startYear, endYear);
+
+    this.logger.log(`按日柱反查: ${ganzhi} (${startYear}-${endYear})`);
+    const cycleIndex = (6 * stemIndex - 5 * branchIndex + 60) % 60;
+    const epoch = Date.UTC(CALENDAR_MIN_YEAR, 0, 1);
+    const start = Date.UTC(startYear, 0, 1);
+    const end = Date.UTC(endYear, 11, 31);
+
+    const startOffset = Math.round((start - epoch) / DAY_MS);
+    const first = startOffset + mod(cycleIndex - DAY_PILLAR_EPOCH_INDEX - startOffset, 60);
+    const dates: string[] = [];
+    for (let time = epoch + first * DAY_MS; time <= end; time += 60 * DAY_MS) {
+      dates.push(new Date(time).toISOString().slice(0, 10));
+    }
+
+    return { ganzhi, startYear, endYear, count: dates.length, dates };
+  }
+
+  /**
+   * 查找农历年份范围内指定农历月日对应的公历日期
+   * @param dto 农历月日及年份范围
+   * @returns 各年对应日期及不存在该日期的年份
+   */
+  async findLunarDates(dto: LunarDateLookupDto): Promise<LunarDateLookupResult> {
+    const month = Number(dto.month);
+    const day = Number(dto.day);
+    if (!Number.isInteger(month) || month < 1 || month > 12) {
+      throw new BadRequestException(`农历月份应为1-12之间的整数: ${dto.month}`);
+    }
+    if (!Number.isInteger(day) || day < 1 || day > 30) {
+      throw new BadRequestException(`农历日应为1-30之间的整数: ${dto.day}`);
+    }
+    this.validateYearRange(dto.startYear, dto.endYear);
+
+    const lunarDate = this.formatLunarDate(month, day, !!dto.isLeapMonth);
+    this.logger.log(`按农历日期反查: ${lunarDate} (${dto.startYear}-${dto.endYear})`);
+    const matches: LunarDateMatch[] = [];
+    const missing: LunarDateMissing[] = [];
+
+    for (let year = dto.startYear; year <= dto.endYear; year++) {
+      try {
+        const lunar = this.fromLunar(year, month, day, dto.isLeapMonth);
+        matches.push({
+          lunarYear: year,
+          solarDate: lunar.getSolar().toYmd(),
+          yearGanzhi: lunar.getYearInGanzhi()
+        });
+      } catch (error) {
+        if (!(error instanceof BadRequestException)) {
+          throw error;
+        }
+        missing.push({ lunarYear: year, reason: error.message });
+      }
+    }
+
+    return { lunarDate, matches, missing };
+  }
+
+  /**
+   * 公历日期转农历，校验日期存在且在支持范围内
+   * @param year 公历年
+   * @param month 公历月
+   * @param day 公历日
+   * @returns 农历日期对象
+   */
+  fromSolar(year: number, month: number, day: number): Lunar {
+    this.validateYear(year);
+    const date = new Date(Date.UTC(year, month - 1, day));
+    if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+      throw new BadRequestException(`公历日期不存在: ${year}-${month}-${day}`);
+    }
+    return Solar.fromYmd(year, month, day).getLunar();
+  }
+
+  /**
+   * 按农历年月日取农历日期，校验闰月与当月天数
+   * @param year 农历年
+   * @param month 农历月 (1-12)
+   * @param day 农历日
+   * @param isLeapMonth 是否为闰月
+   * @returns 农历日期对象（闰月以负数月份表示）
+   */
+  fromLunar(year: number, month: number, day: number, isLeapMonth?: boolean): Lunar {
+    this.validateYear(year);
+    if (month < 1 || month > 12) {
+      throw new BadRequestException(`农历月份应为1-12: ${month}`);
+    }
+
+    if (isLeapMonth) {
+      const leapMonth = LunarYear.fromYear(year).getLeapMonth();
+      if (leapMonth !== month) {
+        throw new BadRequestException(
+          leapMonth
+            ? `农历${year}年没有闰${month}月，该年闰${leapMonth}月`
+            : `农历${year}年没有闰月`
+        );
+      }
+    }
+    const lunarMonth = isLeapMonth ? -month : month;
+
+    const dayCount = LunarMonth.fromYm(year, lunarMonth).getDayCount();
+    if (day < 1 || day > dayCount) {
+      throw new BadRequestException(
+        `农历${year}年${isLeapMonth ? '闰' : ''}${month}月只有${dayCount}天`
+      );
+    }
+
+    return Lunar.fromYmd(year, lunarMonth, day);
+  }
+
+  /**
+   * 获取一年中十二节的交节时刻（北京时间）
+   * @param year 年份
+   * @returns 立春至小寒的节名与交节时刻（YYYY-MM-DD HH:mm:ss）
+   */
+  getJieTimes(year: number): Array<{ name: string; time: string }> {
+    return TWELVE_JIE.map((name, i) => {
+      const solar = JieQi.fromYearTerm(year, i * 2 + 1).getSolar();
+      return { name, time: `${solar.toYmd()} ${solar.toHms()}` };
+    });
+  }
+
+  /**
+   * 解析 YYYY-MM-DD 格式日期
+   * @param dateStr 日期字符串
+   * @param label 参数说明，用于错误提示
+   * @returns 年、月、日
+   */
+  parseDate(dateStr: string, label: string): [number, number, number] {
+    const match = /^(\d{4})-(\d{1,2})-(\d{1,2})$/.exec(dateStr || '');
+    if (!match) {
+      throw new BadRequestException(`${label}格式错误，应为 YYYY-MM-DD: ${dateStr}`);
+    }
+    const [year, month, day] = match.slice(1).map(Number);
+    return [year, month, day];
+  }
+
+  /**
+   * 解析并校验公历日期
+   * @param dateStr 日期字符串 (YYYY-MM-DD)
+   * @param label 参数说明，用于错误提示
+   * @returns UTC零点的日期对象
+   */
+  parseSolarDate(dateStr: string, label: string): Date {
+    const [year, month, day] = this.parseDate(dateStr, label);
+    this.fromSolar(year, month, day);
+    return new Date(Date.UTC(year, month - 1, day));
+  }
+
+  /**
+   * 解析公历日期范围，范围不超过 MAX_DATE_RANGE_DAYS 天
+   * @param startDate 起始日期 (YYYY-MM-DD)
+   * @param endDate 结束日期 (YYYY-MM-DD，含)
+   * @returns 范围内逐日的UTC零点日期对象
+   */
+  parseDateRange(startDate: string, endDate: string): Date[] {
+    const start = this.parseSolarDate(startDate, '起始日期');
+    const end = this.parseSolarDate(endDate, '结束日期');
+    const days = Math.round((end.getTime() - start.getTime()) / DAY_MS) + 1;
+    if (days < 1) {
+      throw new BadRequestException(`日期范围无效: ${startDate} 至 ${endDate}`);
+    }
+    if (days > MAX_DATE_RANGE_DAYS) {
+      throw new BadRequestException(`日期范围不能超过${MAX_DATE_RANGE_DAYS}天`);
+    }
+
+    return Array.from({ length: days }, (_, i) => new Date(start.getTime() + i * DAY_MS));
+  }
+
+  private formatLunarDate(month: number, day: number, leap: boolean): string {
+    return `${leap ? '闰' : ''}${LUNAR_MONTH_NAMES[month - 1]}月${LUNAR_DAY_NAMES[day - 1]}`;
+  }
+
+  private validateYear(year: number): void {
+    if (!Number.isInteger(year) || year < CALENDAR_MIN_YEAR || year > CALENDAR_MAX_YEAR) {
+      throw new BadRequestException(`年份超出支持范围 ${CALENDAR_MIN_YEAR}-${CALENDAR_MAX_YEAR}: ${year}`);
+    }
+  }
+
+  private validateYearRange(startYear: number, endYear: number): void {
+    this.validateYear(startYear);
+    this.validateYear(endYear);
+    if (startYear > endYear) {
+      throw new BadRequestException(`年份范围无效: ${startYear}-${endYear}`);
+    }
+  }
+}
@@ -0,0 +1,239 @@
+import { Injectable, Logger, BadRequestException, NotFoundException, OnModuleDestroy } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { randomUUID } from 'crypto';
+import { ZiweiService } from '../ziwei/ziwei.service';
+import { SqliteChartRepository } from './repositories/sqlite-chart.repository';
+import { MemoryChartRepository } from './repositories/memory-chart.repository';
+import { CalculateZiweiDto } from '../../api/dto/ziwei.dto';
+import { SaveChartDto } from '../../api/dto/chart-storage.dto';
+import {
+  BirthInput,
+  ChartRepository,
+  ChartStorageDriver,
+  StoredChart,
+  StoredChartList,
+  StoredChartSummary
+} from '../../shared/types/chart-storage.types';
+import {
+  CHART_STORAGE_DRIVERS,
+  DEFAULT_CHART_DB_PATH,
+  PROFILE_NAME_PATTERN,
+  REQUIRED_BIRTH_FIELDS
+} from '../../shared/constants/chart-storage.constants';
+import { ZI_HOUR_MODES } from '../../shared/constants/ziwei.constants';
+
+/**
+ * 命盘存储服务
+ * 保存规范化的出生信息及计算所得星盘，支持档案名，并将请求中的 chartId 还原为出生信息
+ *
+ * 配置项（环境变量）：
+ * - CHART_STORAGE：sqlite | memory，默认 sqlite
+ * - CHART_DB_PATH：SQLite 数据库文件路径，默认为项目根目录下的 data/charts.db
+ */
+@Injectable()
+export class ChartStorageService implements OnModuleDestroy {
+  private readonly logger = new Logger(ChartStorageService.name);
+  private readonly DEFAULT_TIME_ZONE = 'Asia/Shanghai';
+  private readonly repository: ChartRepository;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly ziweiService: ZiweiService
+  ) {
+    this.repository = this.createRepository();
+  }
+
+  /**
+   * 保存命盘
+   * @param dto 出生信息及档案名
+   * @returns 已保存的命盘
+   */
+  async saveChart(dto: SaveChartDto): Promise<StoredChart> {
+    const input = this.normalizeInput(dto);
+    const profile = await this.validateProfile(dto.profile);
+    const chart = await this.ziweiService.calculateZiweiChart({ ...input, targetDate: dto.targetDate, targetTime: dto.targetTime });
+    const now = new Date().toISOString();
+
+    const record: StoredChart = {
+      id: randomUUID(),
+      profile,
+      name: dto.name?.trim() || null,
+      input,
+      chart,
+      createdAt: now,
+      updatedAt: now
+    };
+    await this.repository.insert(record);
+    this.logger.log(`保存命盘: ${record.id}${profile ? `（${profile}）` : ''}`);
+    return record;
+  }
+
+  /**
+   * 列出已保存的命盘
+   * @returns 命盘概要，按创建时间排列
+   */
+  async listCharts(): Promise<StoredChartList> {
+    const charts = await this.repository.list();
+    return { charts, total: charts.length };
+  }
+
+  /**
+   * 获取命盘
+   * @param chartId 命盘标识或档案名
+   * @returns 已保存的命盘
+   */
+  async getChart(chartId: string): Promise<StoredChart> {
+    const record = await this.repository.findById(chartId) ?? await this.repository.findByProfile(chartId);
+    if (!record) {
+      throw new NotFoundException(`命盘不存在: ${chartId}`);
+    }
+    return record;
+  }
+
+  /**
+   * 更新命盘：以新的出生信息重新计算星盘并覆盖，保留标识与创建时间
+   * @param chartId 命盘标识或档案名
+   * @param dto 出生信息及档案名
+   * @returns 更新后的命盘
+   */
+  async updateChart(chartId: string, dto: SaveChartDto): Promise<StoredChart> {
+    const existing = await this.getChart(chartId);
+    const input = this.normalizeInput(dto);
+    const profile = dto.profile === undefined ? existing.profile : await this.validateProfile(dto.profile, existing.id);
+    const chart = await this.ziweiService.calculateZiweiChart({ ...input, targetDate: dto.targetDate, targetTime: dto.targetTime });
+
+    const record: StoredChart = {
+      ...existing,
+      profile,
+      name: dto.name === undefined ? existing.name : dto.name.trim() || null,
+      input,
+      chart,
+      updatedAt: new Date().toISOString()
+    };
+    await this.repository.update(record);
+    this.logger.log(`更新命盘: ${record.id}`);
+    return record;
+  }
+
+  /**
+   * 删除命盘
+   * @param chartId 命盘标识或档案名
+   * @returns 被删除命盘的概要
+   */
+  async deleteChart(chartId: string): Promise<StoredChartSummary> {
+    const { chart, ...summary } = await this.getChart(chartId);
+    await this.repository.delete(summary.id);
+    this.logger.log(`删除命盘: ${summary.id}`);
+    return summary;
+  }
+
+  /**
+   * 还原请求中的出生信息
+   * 提供 chartId 时以保存的出生信息覆盖请求中的出生信息字段，其余参数（运限参考日期、宫位等）保持不变；
+   * 未提供时检查出生信息是否完整
+   * @param dto 含出生信息或 chartId 的请求
+   * @returns 含完整出生信息的请求
+   */
+  async resolveInput<T extends Partial<CalculateZiweiDto>>(dto: T): Promise<T & CalculateZiweiDto> {
+    const { chartId, ...rest } = dto;
+    if (chartId === undefined || chartId === null || chartId === '') {
+      this.assertBirthFields(dto);
+      return dto as T & CalculateZiweiDto;
+    }
+
+    const record = await this.getChart(String(chartId));
+    return { ...rest, ...record.input } as T & CalculateZiweiDto;
+  }
+
+  /**
+   * 应用关闭时释放存储资源
+   */
+  async onModuleDestroy(): Promise<void> {
+    await this.repository.close();
+  }
+
+  /**
+   * 规范化出生信息：去除首尾空白、填充默认值，并丢弃出生信息以外的字段
+   * @param dto 出生信息
+   * @returns 规范化后的出生信息
+   */
+  private normalizeInput(dto: Partial<CalculateZiweiDto>): BirthInput {
+    this.assertBirthFields(dto);
+    if (dto.gender !== 'male' && dto.gender !== 'female') {
+      throw new BadRequestException(`不支持的性别: ${dto.gender}`);
+    }
+    if (dto.dateType !== 'solar' && dto.dateType !== 'lunar') {
+      throw new BadRequestException(`不支持的日期类型: ${dto.dateType}`);
+    }
+    const ziHourMode = dto.ziHourMode ?? 'switchAt23';
+    if (!ZI_HOUR_MODES.includes(ziHourMode)) {
+      throw new BadRequestException(`不支持的子时换日方式: ${dto.ziHourMode}`);
+    }
+
+    // 经纬度仅在提供时保存，闰月仅适用于农历日期，均不写入值为 undefined 的键
+    return {
+      birthDate: String(dto.birthDate).trim(),
+      birthTime: String(dto.birthTime).trim(),
+      timeZone: dto.timeZone?.trim() || this.DEFAULT_TIME_ZONE,
+      birthPlace: String(dto.birthPlace).trim(),
+      ...(dto.longitude !== undefined ? { longitude: dto.longitude } : {}),
+      ...(dto.latitude !== undefined ? { latitude: dto.latitude } : {}),
+      trueSolarTime: dto.trueSolarTime ?? true,
+      gender: dto.gender,
+      dateType: dto.dateType,
+      ...(dto.dateType === 'lunar' ? { isLeapMonth: Boolean(dto.isLeapMonth) } : {}),
+      ziHourMode
+    };
+  }
+
+  /**
+   * 检查必填的出生信息字段
+   * @param dto 出生信息
+   */
+  private assertBirthFields(dto: Partial<CalculateZiweiDto>): void {
+    const missing = REQUIRED_BIRTH_FIELDS.filter(field => dto[field] === undefined || dto[field] === null || dto[field] === '');
+    if (missing.length > 0) {
+      throw new BadRequestException(`缺少出生信息: ${missing.join(', ')}，或提供已保存命盘的 chartId`);
+    }
+  }
+
+  /**
+   * 校验档案名格式及唯一性
+   * @param profile 档案名
+   * @param excludeId 更新时排除的命盘标识
+   * @returns 去除首尾空白的档案名，未提供时为 null
+   */
+  private async validateProfile(profile: string | undefined, excludeId?: string): Promise<string | null> {
+    const name = profile?.trim();
+    if (!name) {
+      return null;
+    }
+    if (!PROFILE_NAME_PATTERN.test(name)) {
+      throw new BadRequestException(`档案名须为1-32位中英文、数字、下划线或连字符: ${profile}`);
+    }
+    const existing = await this.repository.findByProfile(name);
+    if (existing && existing.id !== excludeId) {
+      throw new BadRequestException(`档案名已存在: ${name}`);
+    }
+    return name;
+  }
+
+  /**
+   * 按配置创建存储库
+   * @returns 命盘存储库
+   */
+  private createRepository(): ChartRepository {
+    const driver = this.configService.get<string>('CHART_STORAGE', 'sqlite') as ChartStorageDriver;
+    if (!CHART_STORAGE_DRIVERS.includes(driver)) {
+      throw new Error(`不支持的命盘存储方式 CHART_STORAGE=${driver}`);
+    }
+    if (driver === 'memory') {
+      this.logger.log('命盘存储于内存，重启后丢失');
+      return new MemoryChartRepository();
+    }
+
+    const filename = this.configService.get<string>('CHART_DB_PATH', DEFAULT_CHART_DB_PATH);
+    this.logger.log(`命盘存储于 SQLite: ${filename}`);
+    return new SqliteChartRepository(filename);
+  }
+}
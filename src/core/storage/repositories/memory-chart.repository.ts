@@ -0,0 +1,69 @@
+import { ChartRepository, StoredChart, StoredChartSummary } from '../../../shared/types/chart-storage.types';
+
+/**
+ * 内存存储库
+ * 数据仅保存在进程内，重启后丢失，用于测试或无需持久化的部署
+ */
+export class MemoryChartRepository implements ChartRepository {
+  readonly driver = 'memory';
+  private readonly records = new Map<string, StoredChart>();
+
+  /**
+   * 新增命盘
+   * @param record 命盘
+   */
+  async insert(record: StoredChart): Promise<void> {
+    this.records.set(record.id, structuredClone(record));
+  }
+
+  /**
+   * 按标识覆盖命盘
+   * @param record 命盘
+   */
+  async update(record: StoredChart): Promise<void> {
+    this.records.set(record.id, structuredClone(record));
+  }
+
+  /**
+   * 按标识查找命盘
+   * @param id 命盘标识
+   */
+  async findById(id: string): Promise<StoredChart | null> {
+    const record = this.records.get(id);
+    return record ? structuredClone(record) : null;
+  }
+
+  /**
+   * 按档案名查找命盘
+   * @param profile 档案名
+   */
+  async findByProfile(profile: string): Promise<StoredChart | null> {
+    const record = [...this.records.values()].find(item => item.profile === profile);
+    return record ? structuredClone(record) : null;
+  }
+
+  /**
+   * 按创建时间列出全部命盘概要
+   */
+  async list(): Promise<StoredChartSummary[]> {
+    return [...this.records.values()]
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+      .map(({ chart, ...summary }) => structuredClone(summary));
+  }
+
+  /**
+   * 删除命盘
+   * @param id 命盘标识
+   * @returns 是否存在并已删除
+   */
+  async delete(id: string): Promise<boolean> {
+    return this.records.delete(id);
+  }
+
+  /**
+   * 清空数据
+   */
+  async close(): Promise<void> {
+    this.records.clear();
+  }
+}
@@ -0,0 +1,156 @@
+import { mkdirSync } from 'fs';
+import { dirname } from 'path';
+import * as Database from 'better-sqlite3';
+import { ChartRepository, StoredChart, StoredChartSummary } from '../../../shared/types/chart-storage.types';
+
+/**
+ * charts 表的一行
+ */
+interface ChartRow {
+  id: string;
+  profile: string | null;
+  name: string | null;
+  input: string;
+  chart?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * SQLite 存储库
+ * 出生信息与星盘以 JSON 文本保存在单表中，档案名唯一
+ */
+export class SqliteChartRepository implements ChartRepository {
+  readonly driver = 'sqlite';
+  private readonly db: Database.Database;
+
+  /**
+   * @param filename 数据库文件路径，不存在时自动创建
+   */
+  constructor(filename: string) {
+    mkdirSync(dirname(filename), { recursive: true });
+    this.db = new Database(filename);
+    this.db.pragma('journal_mode = WAL');
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS charts (
+        id TEXT PRIMARY KEY,
+        profile TEXT UNIQUE,
+        name TEXT,
+        input TEXT NOT NULL,
+        chart TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      )
+    `);
+  }
+
+  /**
+   * 新增命盘
+   * @param record 命盘
+   */
+  async insert(record: StoredChart): Promise<void> {
+    this.db
+      .prepare(`
+        INSERT INTO charts (id, profile, name, input, chart, created_at, updated_at)
+        VALUES (@id, @profile, @name, @input, @chart, @created_at, @updated_at)
+      `)
+      .run(this.toRow(record));
+  }
+
+  /**
+   * 按标识覆盖命盘
+   * @param record 命盘
+   */
+  async update(record: StoredChart): Promise<void> {
+    this.db
+      .prepare(`
+        UPDATE charts
+        SET profile = @profile, name = @name, input = @input, chart = @chart, updated_at = @updated_at
+        WHERE id = @id
+      `)
+      .run(this.toRow(record));
+  }
+
+  /**
+   * 按标识查找命盘
+   * @param id 命盘标识
+   */
+  async findById(id: string): Promise<StoredChart | null> {
+    const row = this.db.prepare('SELECT * FROM charts WHERE id = ?').get(id) as ChartRow | undefined;
+    return row ? this.toRecord(row) : null;
+  }
+
+  /**
+   * 按档案名查找命盘
+   * @param profile 档案名
+   */
+  async findByProfile(profile: string): Promise<StoredChart | null> {
+    const row = this.db.prepare('SELECT * FROM charts WHERE profile = ?').get(profile) as ChartRow | undefined;
+    return row ? this.toRecord(row) : null;
+  }
+
+  /**
+   * 按创建时间列出全部命盘概要
+   */
+  async list(): Promise<StoredChartSummary[]> {
+    const rows = this.db
+      .prepare('SELECT id, profile, name, input, created_at, updated_at FROM charts ORDER BY created_at')
+      .all() as ChartRow[];
+    return rows.map(row => this.toSummary(row));
+  }
+
+  /**
+   * 删除命盘
+   * @param id 命盘标识
+   * @returns 是否存在并已删除
+   */
+  async delete(id: string): Promise<boolean> {
+    return this.db.prepare('DELETE FROM charts WHERE id = ?').run(id).changes > 0;
+  }
+
+  /**
+   * 关闭数据库连接
+   */
+  async close(): Promise<void> {
+    this.db.close();
+  }
+
+  /**
+   * 命盘转为表行
+   * @param record 命盘
+   */
+  private toRow(record: StoredChart): ChartRow {
+    return {
+      id: record.id,
+      profile: record.profile,
+      name: record.name,
+      input: JSON.stringify(record.input),
+      chart: JSON.stringify(record.chart),
+      created_at: record.createdAt,
+      updated_at: record.updatedAt
+    };
+  }
+
+  /**
+   * 表行转为命盘概要
+   * @param row 表行
+   */
+  private toSummary(row: ChartRow): StoredChartSummary {
+    return {
+      id: row.id,
+      profile: row.profile,
+      name: row.name,
+      input: JSON.parse(row.input),
+      createdAt: row.created_at,
+      updatedAt: row.updated_at
+    };
+  }
+
+  /**
+   * 表行转为命盘
+   * @param row 表行
+   */
+  private toRecord(row: ChartRow): StoredChart {
+    return { ...this.toSummary(row), chart: JSON.parse(row.chart as string) };
+  }
+}
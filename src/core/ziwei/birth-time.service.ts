@@ -0,0 +1,363 @@
+import { Injectable, BadRequestException } from '@nestjs/common';
+import { CHINA_PLACES, PlaceCoordinate } from '../../shared/constants/places.constants';
+import {
+  BEIJING_UTC_OFFSET_MINUTES,
+  CHINA_TIME_ZONES,
+  CHINA_DST_PERIODS
+} from '../../shared/constants/time-zone.constants';
+import { ZI_HOUR_MODES } from '../../shared/constants/ziwei.constants';
+import {
+  BirthMoment,
+  SolarTimeCorrection,
+  TimeZoneAdjustment,
+  ZiHourConvention,
+  ZiHourMode
+} from '../../shared/types/birth-time.types';
+
+/**
+ * 出生时间校正服务
+ * 将当地时间换算为北京时间（东经120°标准时），再校正为出生地的真太阳时
+ */
+@Injectable()
+export class BirthTimeService {
+  private readonly STANDARD_MERIDIAN = 120;
+  private readonly MINUTE_MS = 60 * 1000;
+  private readonly DEFAULT_TIME_ZONE = 'Asia/Shanghai';
+
+  /**
+   * 将当地出生时间换算为北京标准时间
+   * 中国时区使用内置的1986-1991年夏令时表，其他IANA时区按系统时区库规则换算
+   * @param moment 当地时间下的出生时刻
+   * @param timeZone IANA时区名称（如 America/New_York）或UTC偏移（如 +05:30），默认为 Asia/Shanghai
+   * @returns 北京时间下的出生时刻及换算说明
+   */
+  toBeijingTime(
+    moment: BirthMoment,
+    timeZone?: string
+  ): { moment: BirthMoment; adjustment: TimeZoneAdjustment } {
+    const zone = (timeZone || '').trim() || this.DEFAULT_TIME_ZONE;
+    const fixedOffset = this.parseUtcOffset(zone);
+
+    let state: { utcOffsetMinutes: number; dst: boolean; note?: string };
+    if (fixedOffset !== null) {
+      state = { utcOffsetMinutes: fixedOffset, dst: false };
+    } else if (CHINA_TIME_ZONES.includes(zone)) {
+      state = this.getChinaOffset(moment);
+    } else {
+      state = this.getZoneOffset(moment, zone);
+    }
+
+    const offsetMinutes = BEIJING_UTC_OFFSET_MINUTES - state.utcOffsetMinutes;
+    const beijing = this.addMinutes(moment, offsetMinutes);
+
+    return {
+      moment: beijing,
+      adjustment: {
+        timeZone: zone,
+        utcOffsetMinutes: state.utcOffsetMinutes,
+        dst: state.dst,
+        offsetMinutes,
+        localTime: this.formatMoment(moment),
+        beijingTime: this.formatMoment(beijing),
+        note: state.note
+      }
+    };
+  }
+
+  /**
+   * 按出生地经度和均时差校正为真太阳时
+   * @param moment 北京时间下的出生时刻
+   * @param options 校正选项：出生地点、显式经纬度、是否启用
+   * @returns 校正后的出生时刻及校正说明
+   */
+  toTrueSolarTime(
+    moment: BirthMoment,
+    options: {
+      birthPlace?: string;
+      longitude?: number;
+      latitude?: number;
+      enabled?: boolean;
+    }
+  ): { moment: BirthMoment; correction: SolarTimeCorrection } {
+    const clockTime = this.formatMoment(moment);
+    const unchanged = (reason: string) => ({
+      moment,
+      correction: {
+        applied: false,
+        longitudeOffsetMinutes: 0,
+        equationOfTimeMinutes: 0,
+        totalOffsetMinutes: 0,
+        clockTime,
+        solarTime: clockTime,
+        reason
+      }
+    });
+
+    if (options.enabled === false) {
+      return unchanged('已关闭真太阳时校正');
+    }
+
+    const location = this.resolveLocation(options);
+    if (!location) {
+      return unchanged(`未能识别出生地点“${options.birthPlace || ''}”的经度，按北京时间排盘`);
+    }
+
+    // 经度时差：每度4分钟，东早西晚
+    const longitudeOffsetMinutes = (location.longitude - this.STANDARD_MERIDIAN) * 4;
+    const equationOfTimeMinutes = this.getEquationOfTime(moment);
+    const totalOffsetMinutes = longitudeOffsetMinutes + equationOfTimeMinutes;
+    const corrected = this.addMinutes(moment, Math.round(totalOffsetMinutes));
+
+    return {
+      moment: corrected,
+      correction: {
+        applied: true,
+        place: location.place,
+        longitude: location.longitude,
+        latitude: location.latitude,
+        longitudeOffsetMinutes: this.round(longitudeOffsetMinutes),
+        equationOfTimeMinutes: this.round(equationOfTimeMinutes),
+        totalOffsetMinutes: this.round(totalOffsetMinutes),
+        clockTime,
+        solarTime: this.formatMoment(corrected)
+      }
+    };
+  }
+
+  /**
+   * 按子时换日方式确定排盘日期
+   * switchAt23：23点后视为次日子时，日期顺延一天、时间记为次日0点；
+   * switchAt0：23点后仍属当日（晚子时），日期不变
+   * @param moment 校正后的出生时刻
+   * @param mode 子时换日方式，默认为 switchAt23
+   * @returns 排盘使用的出生时刻及处理说明
+   */
+  applyZiHourMode(
+    moment: BirthMoment,
+    mode: ZiHourMode = 'switchAt23'
+  ): { moment: BirthMoment; ziHour: ZiHourConvention } {
+    if (!ZI_HOUR_MODES.includes(mode)) {
+      throw new BadRequestException(`不支持的子时换日方式: ${mode}`);
+    }
+
+    const lateZiHour = moment.hour === 23;
+    const dayShifted = lateZiHour && mode === 'switchAt23';
+    let description: string;
+    if (!lateZiHour) {
+      description = '出生时间不在晚子时，无需换日';
+    } else if (dayShifted) {
+      description = '23点起算次日，按次日子时排盘';
+    } else {
+      description = '0点换日，按当日晚子时排盘';
+    }
+
+    return {
+      moment: dayShifted ? this.addMinutes(moment, 60) : moment,
+      ziHour: { mode, lateZiHour, dayShifted, description }
+    };
+  }
+
+  /**
+   * 在离线地名表中查找出生地点
+   * 优先匹配城市名，其次按省级行政区取首府坐标
+   * @param birthPlace 出生地点描述，如“广东省深圳市”
+   * @returns 匹配的地点坐标，无法识别时返回null
+   */
+  findPlace(birthPlace: string): PlaceCoordinate | null {
+    if (!birthPlace) {
+      return null;
+    }
+
+    const byLength = (a: PlaceCoordinate, b: PlaceCoordinate) => b.name.length - a.name.length;
+    const city = [...CHINA_PLACES].sort(byLength).find(place => birthPlace.includes(place.name));
+    if (city) {
+      return city;
+    }
+
+    return CHINA_PLACES.find(place => place.capital && birthPlace.includes(place.province)) || null;
+  }
+
+  /**
+   * 计算均时差（真太阳时与平太阳时之差）
+   * 采用NOAA近似公式，误差在30秒以内
+   * @param moment 出生时刻
+   * @returns 均时差（分钟）
+   */
+  getEquationOfTime(moment: BirthMoment): number {
+    const startOfYear = Date.UTC(moment.year, 0, 1);
+    const dayOfYear = Math.floor((Date.UTC(moment.year, moment.month - 1, moment.day) - startOfYear) / 86400000) + 1;
+    const daysInYear = this.isLeapYear(moment.year) ? 366 : 365;
+    const gamma = (2 * Math.PI / daysInYear) * (dayOfYear - 1 + (moment.hour - 12) / 24);
+
+    return 229.18 * (
+      0.000075 +
+      0.001868 * Math.cos(gamma) -
+      0.032077 * Math.sin(gamma) -
+      0.014615 * Math.cos(2 * gamma) -
+      0.040849 * Math.sin(2 * gamma)
+    );
+  }
+
+  /**
+   * 出生时刻加减分钟，自动处理跨日、跨月、跨年
+   * @param moment 出生时刻
+   * @param minutes 分钟数，可为负
+   * @returns 新的出生时刻
+   */
+  addMinutes(moment: BirthMoment, minutes: number): BirthMoment {
+    const date = new Date(
+      Date.UTC(moment.year, moment.month - 1, moment.day, moment.hour, moment.minute) + minutes * this.MINUTE_MS
+    );
+    return {
+      year: date.getUTCFullYear(),
+      month: date.getUTCMonth() + 1,
+      day: date.getUTCDate(),
+      hour: date.getUTCHours(),
+      minute: date.getUTCMinutes()
+    };
+  }
+
+  /**
+   * 格式化出生时刻
+   * @param moment 出生时刻
+   * @returns YYYY-MM-DD HH:MM
+   */
+  formatMoment(moment: BirthMoment): string {
+    const pad = (value: number) => String(value).padStart(2, '0');
+    return `${moment.year}-${pad(moment.month)}-${pad(moment.day)} ${pad(moment.hour)}:${pad(moment.minute)}`;
+  }
+
+  /**
+   * 确定用于校正的经纬度：显式经度优先，否则查地名表
+   * @param options 校正选项
+   * @returns 经纬度及地名，无法确定时返回null
+   */
+  private resolveLocation(options: {
+    birthPlace?: string;
+    longitude?: number;
+    latitude?: number;
+  }): { place?: string; longitude: number; latitude?: number } | null {
+    if (options.longitude !== undefined && options.longitude !== null) {
+      const longitude = Number(options.longitude);
+      if (!Number.isFinite(longitude) || longitude < -180 || longitude > 180) {
+        throw new BadRequestException(`经度无效: ${options.longitude}`);
+      }
+      const latitude = options.latitude !== undefined && options.latitude !== null
+        ? Number(options.latitude)
+        : undefined;
+      if (latitude !== undefined && (!Number.isFinite(latitude) || latitude < -90 || latitude > 90)) {
+        throw new BadRequestException(`纬度无效: ${options.latitude}`);
+      }
+      return { place: options.birthPlace, longitude, latitude };
+    }
+
+    const place = this.findPlace(options.birthPlace || '');
+    return place
+      ? { place: place.name, longitude: place.longitude, latitude: place.latitude }
+      : null;
+  }
+
+  /**
+   * 解析固定UTC偏移，如 +08:00、UTC-5、GMT+0530
+   * @param zone 时区字符串
+   * @returns 偏移分钟数，不是UTC偏移格式时返回null
+   */
+  private parseUtcOffset(zone: string): number | null {
+    if (/^(UTC|GMT|Z)$/i.test(zone)) {
+      return 0;
+    }
+
+    const match = /^(?:UTC|GMT)?\s*([+-])(\d{1,2})(?::?(\d{2}))?$/i.exec(zone);
+    if (!match) {
+      return null;
+    }
+
+    const minutes = Number(match[2]) * 60 + Number(match[3] || 0);
+    if (minutes > 14 * 60) {
+      throw new BadRequestException(`UTC偏移超出范围: ${zone}`);
+    }
+    return match[1] === '-' ? -minutes : minutes;
+  }
+
+  /**
+   * 按内置夏令时表确定中国时区的偏移
+   * 拨快跳过的时段按标准时处理，拨回重复的时段按夏令时处理
+   * @param moment 当地时间下的出生时刻
+   * @returns UTC偏移及夏令时状态
+   */
+  private getChinaOffset(moment: BirthMoment): { utcOffsetMinutes: number; dst: boolean; note?: string } {
+    const standard = { utcOffsetMinutes: BEIJING_UTC_OFFSET_MINUTES, dst: false };
+    const period = CHINA_DST_PERIODS.find(p => p.year === moment.year);
+    if (!period) {
+      return standard;
+    }
+
+    const hourMs = 60 * this.MINUTE_MS;
+    const wall = Date.UTC(moment.year, moment.month - 1, moment.day, moment.hour, moment.minute);
+    const start = Date.UTC(period.year, period.start[0] - 1, period.start[1], 2);
+    const end = Date.UTC(period.year, period.end[0] - 1, period.end[1], 2);
+
+    if (wall >= start && wall < start + hourMs) {
+      return { ...standard, note: '该时刻处于夏令时开始时拨快跳过的时段，按标准时处理' };
+    }
+    if (wall >= start + hourMs && wall < end) {
+      return {
+        utcOffsetMinutes: BEIJING_UTC_OFFSET_MINUTES + 60,
+        dst: true,
+        note: wall >= end - hourMs ? '该时刻处于夏令时结束时重复的时段，按夏令时处理' : undefined
+      };
+    }
+    return standard;
+  }
+
+  /**
+   * 按系统时区库确定IANA时区在当地时刻的偏移
+   * @param moment 当地时间下的出生时刻
+   * @param zone IANA时区名称
+   * @returns UTC偏移及夏令时状态
+   */
+  private getZoneOffset(moment: BirthMoment, zone: string): { utcOffsetMinutes: number; dst: boolean } {
+    let formatter: Intl.DateTimeFormat;
+    try {
+      formatter = new Intl.DateTimeFormat('en-US', {
+        timeZone: zone,
+        hourCycle: 'h23',
+        year: 'numeric',
+        month: 'numeric',
+        day: 'numeric',
+        hour: 'numeric',
+        minute: 'numeric',
+        second: 'numeric'
+      });
+    } catch (error) {
+      throw new BadRequestException(`无法识别的时区: ${zone}`);
+    }
+
+    const offsetAt = (utcMs: number): number => {
+      const parts = formatter.formatToParts(new Date(utcMs));
+      const get = (type: string) => Number(parts.find(part => part.type === type)?.value);
+      const asUtc = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'));
+      return Math.round((asUtc - utcMs) / this.MINUTE_MS);
+    };
+
+    // 当地时间先按自身偏移估算UTC，再以该UTC时刻的偏移修正一次
+    const wall = Date.UTC(moment.year, moment.month - 1, moment.day, moment.hour, moment.minute);
+    const utcOffsetMinutes = offsetAt(wall - offsetAt(wall) * this.MINUTE_MS);
+
+    // 标准时取当年冬夏两季偏移中较小者
+    const standardOffset = Math.min(
+      offsetAt(Date.UTC(moment.year, 0, 1)),
+      offsetAt(Date.UTC(moment.year, 6, 1))
+    );
+
+    return { utcOffsetMinutes, dst: utcOffsetMinutes > standardOffset };
+  }
+
+  private isLeapYear(year: number): boolean {
+    return (year % 4 === 0 && year % 100 !== 0) || year % 400 === 0;
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 10) / 10;
+  }
+}
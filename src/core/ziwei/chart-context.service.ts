@@ -0,0 +1,414 @@
+import { Injectable, Logger, BadRequestException } from '@nestjs/common';
+import { ZiweiService } from './ziwei.service';
+import { PalaceLayoutService } from './palace-layout.service';
+import { ChartContextDto } from '../../api/dto/chart-context.dto';
+import { ZiweiChartResult, ZiweiStar } from '../../shared/types/ziwei.types';
+import { PalaceLayout } from '../../shared/types/palace-layout.types';
+import { TransformedStar } from '../../shared/types/transformation.types';
+import { ChartContextResult, ContextDetailLevel, ContextFormat } from '../../shared/types/chart-context.types';
+import {
+  CONTEXT_DETAIL_LEVELS,
+  CONTEXT_FORMATS,
+  CONTEXT_MIN_TOKENS,
+  CONTEXT_SECTIONS,
+  CONTEXT_SUMMARY_PALACES
+} from '../../shared/constants/chart.constants';
+import { PALACE_NAMES, TRANSFORMATION_TYPES } from '../../shared/constants/ziwei.constants';
+import { Solar } from 'tyme4ts';
+
+/**
+ * 命盘文本的一节
+ */
+interface ContextSection {
+  key: (typeof CONTEXT_SECTIONS)[number]['key'];
+  /** 节标题及表头等不可截断的行 */
+  head: string[];
+  /** 可按预算截断的正文行 */
+  lines: string[];
+  /** 截断后追加的省略行 */
+  ellipsis: string;
+}
+
+/**
+ * 命盘文本导出选项
+ */
+export interface ChartContextOptions {
+  format: ContextFormat;
+  detail: ContextDetailLevel;
+  maxTokens?: number;
+}
+
+/**
+ * 参考时间所在运限，用于输出当前大限、流年
+ */
+export interface ChartContextPeriods {
+  layout: PalaceLayout;
+  targetYear: number;
+}
+
+/**
+ * 命盘文本导出服务
+ * 将星盘整理为可直接放入大模型提示词的纯文本或 Markdown，各节顺序固定，并按 token 预算截断
+ */
+@Injectable()
+export class ChartContextService {
+  private readonly logger = new Logger(ChartContextService.name);
+  private readonly DEFAULT_FORMAT: ContextFormat = 'text';
+  private readonly DEFAULT_DETAIL: ContextDetailLevel = 'standard';
+
+  constructor(
+    private readonly ziweiService: ZiweiService,
+    private readonly palaceLayoutService: PalaceLayoutService
+  ) {}
+
+  /**
+   * 导出命盘文本
+   * @param dto 出生信息及导出选项
+   * @returns 命盘文本及预算使用情况
+   */
+  async exportContext(dto: ChartContextDto): Promise<ChartContextResult> {
+    const format = dto.format ?? this.DEFAULT_FORMAT;
+    const detail = dto.detail ?? this.DEFAULT_DETAIL;
+    if (!CONTEXT_FORMATS.includes(format)) {
+      throw new BadRequestException(`不支持的导出格式: ${dto.format}`);
+    }
+    if (!CONTEXT_DETAIL_LEVELS.includes(detail)) {
+      throw new BadRequestException(`不支持的详略: ${dto.detail}`);
+    }
+    if (dto.maxTokens !== undefined && (!Number.isInteger(dto.maxTokens) || dto.maxTokens < CONTEXT_MIN_TOKENS)) {
+      throw new BadRequestException(`maxTokens 须为不小于${CONTEXT_MIN_TOKENS}的整数`);
+    }
+
+    const { chart, layout } = await this.ziweiService.calculateChartWithLayout(dto);
+    const targetDate = this.ziweiService.resolveTargetDate(dto.targetDate, dto.targetTime);
+    const targetYear = Solar.fromDate(targetDate).getLunar().getYear();
+
+    this.logger.log(`导出命盘文本: ${format}/${detail}`);
+    return this.buildContext(chart, { format, detail, maxTokens: dto.maxTokens }, { layout, targetYear });
+  }
+
+  /**
+   * 将星盘整理为文本
+   * @param chart 星盘计算结果
+   * @param options 导出选项
+   * @param periods 参考时间所在运限，未提供时当前运限仅输出流年宫位
+   * @returns 命盘文本及预算使用情况
+   */
+  buildContext(chart: ZiweiChartResult, options: ChartContextOptions, periods?: ChartContextPeriods): ChartContextResult {
+    const { format, detail, maxTokens } = options;
+    const level = CONTEXT_DETAIL_LEVELS.indexOf(detail);
+    const sections = CONTEXT_SECTIONS
+      .filter(section => level >= CONTEXT_DETAIL_LEVELS.indexOf(section.minDetail))
+      .map(section => this.buildSection(section.key, section.label, chart, options, periods));
+
+    // 按固定顺序依次放入，超出预算的节截断正文行，其后各节省略
+    const parts: string[] = [];
+    const included: string[] = [];
+    const omitted: string[] = [];
+    let truncated = false;
+    for (const section of sections) {
+      if (truncated) {
+        omitted.push(section.key);
+        continue;
+      }
+      const text = [...section.head, ...section.lines].join('\n');
+      if (!maxTokens || this.estimateTokens([...parts, text].join('\n\n')) <= maxTokens) {
+        parts.push(text);
+        included.push(section.key);
+        continue;
+      }
+
+      truncated = true;
+      const lines = [...section.lines];
+      const render = () => [...section.head, ...lines, section.ellipsis].join('\n');
+      while (lines.length > 0 && this.estimateTokens([...parts, render()].join('\n\n')) > maxTokens) {
+        lines.pop();
+      }
+      if (lines.length > 0) {
+        parts.push(render());
+        included.push(section.key);
+      } else {
+        omitted.push(section.key);
+      }
+    }
+
+    const content = parts.join('\n\n');
+    return {
+      format,
+      detail,
+      content,
+      estimatedTokens: this.estimateTokens(content),
+      maxTokens: maxTokens ?? null,
+      sections: included,
+      omittedSections: omitted,
+      truncated
+    };
+  }
+
+  /**
+   * 描述单宫星曜，主星、吉星、煞星依次以分号分隔；full 详略另含杂曜与长生十二神
+   * @param chart 星盘计算结果
+   * @param palaceName 宫位名称
+   * @param detail 详略
+   * @returns 宫位描述
+   */
+  describePalace(chart: ZiweiChartResult, palaceName: string, detail: ContextDetailLevel = 'standard'): string {
+    const groups = this.groupStars(chart, palaceName, detail);
+    const parts = groups.map(group => group.map(star => this.formatStar(star)).join('、')).filter(Boolean);
+    if (groups[0].length === 0) {
+      parts.unshift('无主星');
+    }
+    return parts.join('；');
+  }
+
+  /**
+   * 格式化星曜，如 太阳（旺，化禄）
+   * @param star 星曜详细信息
+   * @returns 星曜文本
+   */
+  formatStar(star: ZiweiStar): string {
+    const notes = [star.brightness, star.transformationName].filter(Boolean);
+    return notes.length > 0 ? `${star.name}（${notes.join('，')}）` : star.name;
+  }
+
+  /**
+   * 估算 token 数：汉字及全角符号按1个计，其余字符按每4个1个计
+   * @param text 文本
+   * @returns 估算 token 数
+   */
+  estimateTokens(text: string): number {
+    const wide = (text.match(/[\u2e80-\u9fff\uf900-\ufaff\uff00-\uffef]/g) || []).length;
+    return wide + Math.ceil((text.length - wide) / 4);
+  }
+
+  /**
+   * 生成一节文本
+   * @param key 节标识
+   * @param label 节标题
+   * @param chart 星盘计算结果
+   * @param options 导出选项
+   * @param periods 参考时间所在运限
+   * @returns 节内容
+   */
+  private buildSection(
+    key: ContextSection['key'],
+    label: string,
+    chart: ZiweiChartResult,
+    options: ChartContextOptions,
+    periods?: ChartContextPeriods
+  ): ContextSection {
+    const markdown = options.format === 'markdown';
+    const title = markdown ? `## ${label}` : `【${label}】`;
+    const bullet = (line: string) => (markdown ? `- ${line}` : line);
+
+    if (key === 'palaces' && markdown) {
+      return {
+        key,
+        head: [title, ...this.buildPalaceTableHead(options.detail)],
+        lines: this.buildPalaceRows(chart, options.detail),
+        ellipsis: '| …… |'
+      };
+    }
+
+    let lines: string[];
+    switch (key) {
+      case 'basic':
+        lines = this.buildBasicLines(chart, periods);
+        break;
+      case 'pillars': {
+        const { year, month, day, hour } = chart.fourPillars;
+        lines = [`年柱${year.stem}${year.branch}　月柱${month.stem}${month.branch}　日柱${day.stem}${day.branch}　时柱${hour.stem}${hour.branch}`];
+        break;
+      }
+      case 'transformations':
+        lines = [this.buildNatalTransformationLine(chart)];
+        break;
+      case 'periods':
+        lines = this.buildPeriodLines(chart, options.detail, periods);
+        break;
+      case 'palaces':
+        lines = this.getPalaceNames(options.detail).map(name => `${this.getPalaceLabel(chart, name)}：${this.describePalace(chart, name, options.detail)}`);
+        break;
+      case 'decades':
+        lines = chart.luckPeriods.major.map(period => `${period.startAge}-${period.endAge}岁 ${period.palace}`);
+        break;
+      case 'selfTransformations':
+        lines = this.buildSelfTransformationLines(chart);
+        break;
+    }
+    return { key, head: [title], lines: lines.map(bullet), ellipsis: bullet('……') };
+  }
+
+  /**
+   * 基本信息行
+   * @param chart 星盘计算结果
+   * @param periods 参考时间所在运限
+   * @returns 文本行
+   */
+  private buildBasicLines(chart: ZiweiChartResult, periods?: ChartContextPeriods): string[] {
+    const lines = [`生肖：${chart.zodiac}　星座：${chart.constellation}`];
+    if (periods) {
+      const { layout } = periods;
+      lines.push(`性别：${layout.gender === 'male' ? '男' : '女'}　五行局：${layout.bureau.name}　生年干支：${layout.yearStem}${layout.yearBranch}`);
+    }
+    return lines;
+  }
+
+  /**
+   * 生年四化行，按禄权科忌排列
+   * @param chart 星盘计算结果
+   * @returns 文本行
+   */
+  private buildNatalTransformationLine(chart: ZiweiChartResult): string {
+    const items = chart.palaces
+      .flatMap(palace => palace.starDetails
+        .filter(star => star.transformation)
+        .map(star => ({ star, palace: palace.name })))
+      .sort((a, b) =>
+        TRANSFORMATION_TYPES.indexOf(a.star.transformation!) - TRANSFORMATION_TYPES.indexOf(b.star.transformation!)
+      )
+      .map(({ star, palace }) => `${star.name}${star.transformationName}在${palace}`);
+    return items.length > 0 ? items.join('，') : '无';
+  }
+
+  /**
+   * 当前运限行；standard 及以上详略附运限四化
+   * @param chart 星盘计算结果
+   * @param detail 详略
+   * @param periods 参考时间所在运限
+   * @returns 文本行
+   */
+  private buildPeriodLines(chart: ZiweiChartResult, detail: ContextDetailLevel, periods?: ChartContextPeriods): string[] {
+    if (!periods) {
+      return [`流年：${chart.luckPeriods.annual.palace}`];
+    }
+
+    const { layout, targetYear } = periods;
+    const age = this.palaceLayoutService.getNominalAge(layout.birthYear, targetYear);
+    const decade = this.palaceLayoutService.getDecadePalace(layout, age);
+    const annual = this.palaceLayoutService.getAnnualPalace(layout, targetYear);
+    const annualStem = this.palaceLayoutService.getYearStemBranch(targetYear).stem;
+    const withTransformations = detail !== 'summary';
+
+    const lines = [`参考年份：农历${targetYear}年，虚岁${age}`];
+    lines.push(decade
+      ? `大限：${decade.startAge}-${decade.endAge}岁 ${decade.name}（${decade.stem}${decade.branch}）` +
+        (withTransformations ? `，大限四化：${this.formatTransformations(this.ziweiService.getStemTransformations(decade.stem, chart.palaces))}` : '')
+      : '大限：未起运');
+    lines.push(
+      `流年：${annual.name}（${annual.stem}${annual.branch}）` +
+      (withTransformations ? `，流年四化：${this.formatTransformations(this.ziweiService.getStemTransformations(annualStem, chart.palaces))}` : '')
+    );
+    return lines;
+  }
+
+  /**
+   * 宫干自化行，仅列出有自化的宫位
+   * @param chart 星盘计算结果
+   * @returns 文本行
+   */
+  private buildSelfTransformationLines(chart: ZiweiChartResult): string[] {
+    const lines = chart.flyingTransformations
+      .filter(item => item.outwardSelfTransformations.length > 0 || item.inwardSelfTransformations.length > 0)
+      .map(item => {
+        const parts = [
+          item.outwardSelfTransformations.length > 0
+            ? `离心自化 ${item.outwardSelfTransformations.map(star => `${star.star}${star.name}`).join('、')}`
+            : '',
+          item.inwardSelfTransformations.length > 0
+            ? `向心自化 ${item.inwardSelfTransformations.map(star => `${star.star}${star.name}`).join('、')}`
+            : ''
+        ].filter(Boolean);
+        return `${item.palace}（${item.stem}${item.branch}）：${parts.join('；')}`;
+      });
+    return lines.length > 0 ? lines : ['无'];
+  }
+
+  /**
+   * Markdown 宫位表头
+   * @param detail 详略
+   * @returns 表头两行
+   */
+  private buildPalaceTableHead(detail: ContextDetailLevel): string[] {
+    const columns = this.getPalaceColumns(detail);
+    return [`| ${columns.join(' | ')} |`, `|${columns.map(() => ' --- ').join('|')}|`];
+  }
+
+  /**
+   * Markdown 宫位表行
+   * @param chart 星盘计算结果
+   * @param detail 详略
+   * @returns 表格行
+   */
+  private buildPalaceRows(chart: ZiweiChartResult, detail: ContextDetailLevel): string[] {
+    const columnCount = this.getPalaceColumns(detail).length - 1;
+    return this.getPalaceNames(detail).map(name => {
+      const cells = this.groupStars(chart, name, detail)
+        .slice(0, columnCount)
+        .map(group => (group.length > 0 ? group.map(star => this.formatStar(star)).join('、') : '—'));
+      return `| ${[this.getPalaceLabel(chart, name), ...cells].join(' | ')} |`;
+    });
+  }
+
+  /**
+   * Markdown 宫位表列名
+   * @param detail 详略
+   * @returns 列名
+   */
+  private getPalaceColumns(detail: ContextDetailLevel): string[] {
+    if (detail === 'summary') {
+      return ['宫位', '主星'];
+    }
+    return detail === 'full'
+      ? ['宫位', '主星', '吉星', '煞星', '杂曜', '长生']
+      : ['宫位', '主星', '吉星', '煞星'];
+  }
+
+  /**
+   * 按详略分组宫内星曜：主星、吉星、煞星，full 另含杂曜、长生十二神
+   * @param chart 星盘计算结果
+   * @param palaceName 宫位名称
+   * @param detail 详略
+   * @returns 分组后的星曜
+   */
+  private groupStars(chart: ZiweiChartResult, palaceName: string, detail: ContextDetailLevel): ZiweiStar[][] {
+    const stars = chart.palaces.find(palace => palace.name === palaceName)?.starDetails || [];
+    const types = detail === 'summary'
+      ? ['main']
+      : detail === 'full'
+        ? ['main', 'lucky', 'evil', 'minor', 'changsheng']
+        : ['main', 'lucky', 'evil'];
+    return types.map(type => stars.filter(star => star.type === type));
+  }
+
+  /**
+   * 按详略确定输出的宫位，顺序同 PALACE_NAMES
+   * @param detail 详略
+   * @returns 宫位名称
+   */
+  private getPalaceNames(detail: ContextDetailLevel): string[] {
+    return detail === 'summary' ? CONTEXT_SUMMARY_PALACES : PALACE_NAMES;
+  }
+
+  /**
+   * 宫位名称附宫干支，如 命宫（壬午）
+   * @param chart 星盘计算结果
+   * @param palaceName 宫位名称
+   * @returns 宫位标签
+   */
+  private getPalaceLabel(chart: ZiweiChartResult, palaceName: string): string {
+    const flying = chart.flyingTransformations.find(item => item.palace === palaceName);
+    return flying ? `${palaceName}（${flying.stem}${flying.branch}）` : palaceName;
+  }
+
+  /**
+   * 格式化四化星及落宫，如 天同化禄在福德宫
+   * @param stars 四化星
+   * @returns 文本
+   */
+  private formatTransformations(stars: TransformedStar[]): string {
+    return stars
+      .map(star => `${star.star}${star.name}${star.palace ? `在${star.palace}` : ''}`)
+      .join('、');
+  }
+}
@@ -0,0 +1,311 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Resvg } from '@resvg/resvg-js';
+import { ZiweiService } from './ziwei.service';
+import { PalaceLayoutService } from './palace-layout.service';
+import { CalculateZiweiDto } from '../../api/dto/ziwei.dto';
+import { ZiweiChartResult } from '../../shared/types/ziwei.types';
+import { LayoutPalace, PalaceLayout, PeriodPalace } from '../../shared/types/palace-layout.types';
+import {
+  STEM_TRANSFORMATIONS,
+  TRANSFORMATION_NAMES,
+  TRANSFORMATION_TYPES
+} from '../../shared/constants/ziwei.constants';
+import {
+  CHART_BRANCH_CELLS,
+  CHART_COLORS,
+  CHART_FONT_FAMILY,
+  CHART_SIZE,
+  TRANSFORMATION_COLORS
+} from '../../shared/constants/chart.constants';
+import { Solar } from 'tyme4ts';
+
+/**
+ * 命盘绘制所需的运限信息
+ */
+interface ChartPeriods {
+  targetYear: number;
+  decades: PeriodPalace[];
+  decadePalace: PeriodPalace | null;
+  annualPalace: LayoutPalace;
+}
+
+/**
+ * 命盘绘制服务
+ * 按传统4×4方盘绘制十二宫 SVG，并可不借助浏览器栅格化为 PNG
+ */
+@Injectable()
+export class ChartRendererService {
+  private readonly logger = new Logger(ChartRendererService.name);
+  // 辅星每行最多显示的颗数
+  private readonly STARS_PER_LINE = 4;
+  private readonly PNG_SCALE = 2;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly ziweiService: ZiweiService,
+    private readonly palaceLayoutService: PalaceLayoutService
+  ) {}
+
+  /**
+   * 绘制命盘 SVG
+   * @param dto 出生信息
+   * @returns SVG 文本
+   */
+  async renderSvg(dto: CalculateZiweiDto): Promise<string> {
+    const { chart, layout } = await this.ziweiService.calculateChartWithLayout(dto);
+
+    const targetDate = this.ziweiService.resolveTargetDate(dto.targetDate, dto.targetTime);
+    const targetYear = Solar.fromDate(targetDate).getLunar().getYear();
+    const age = this.palaceLayoutService.getNominalAge(layout.birthYear, targetYear);
+    const periods: ChartPeriods = {
+      targetYear,
+      decades: this.palaceLayoutService.getDecadePalaces(layout),
+      decadePalace: this.palaceLayoutService.getDecadePalace(layout, age),
+      annualPalace: this.palaceLayoutService.getAnnualPalace(layout, targetYear)
+    };
+
+    this.logger.log('绘制命盘 SVG');
+    return this.buildSvg(dto, chart, layout, periods);
+  }
+
+  /**
+   * 绘制命盘 PNG
+   * @param dto 出生信息
+   * @returns PNG 图片数据
+   */
+  async renderPng(dto: CalculateZiweiDto): Promise<Buffer> {
+    const svg = await this.renderSvg(dto);
+    // 服务器未安装中文字体时，可通过 CHART_FONT_FILE 指定字体文件
+    const fontFile = this.configService.get<string>('CHART_FONT_FILE');
+    const resvg = new Resvg(svg, {
+      fitTo: { mode: 'zoom', value: this.PNG_SCALE },
+      font: { loadSystemFonts: true, fontFiles: fontFile ? [fontFile] : [] }
+    });
+    return resvg.render().asPng();
+  }
+
+  /**
+   * 组装命盘 SVG
+   * @param dto 出生信息
+   * @param chart 星盘计算结果
+   * @param layout 宫位排布
+   * @param periods 大限、流年信息
+   * @returns SVG 文本
+   */
+  private buildSvg(
+    dto: CalculateZiweiDto,
+    chart: ZiweiChartResult,
+    layout: PalaceLayout,
+    periods: ChartPeriods
+  ): string {
+    const size = CHART_SIZE.cell * 4;
+    const cells = layout.palaces.map(palace => this.buildPalaceCell(palace, chart, layout, periods));
+
+    return [
+      `<svg xmlns="http://www.w3.org/2000/svg" width="${size}" height="${size}" viewBox="0 0 ${size} ${size}" font-family="${this.escape(CHART_FONT_FAMILY)}">`,
+      `<rect width="${size}" height="${size}" fill="${CHART_COLORS.background}"/>`,
+      ...cells,
+      this.buildCenter(dto, chart, layout, periods),
+      '</svg>'
+    ].join('\n');
+  }
+
+  /**
+   * 绘制单个宫位格
+   * @param palace 宫位排布
+   * @param chart 星盘计算结果
+   * @param layout 宫位排布
+   * @param periods 大限、流年信息
+   * @returns 宫位格 SVG 片段
+   */
+  private buildPalaceCell(
+    palace: LayoutPalace,
+    chart: ZiweiChartResult,
+    layout: PalaceLayout,
+    periods: ChartPeriods
+  ): string {
+    const { cell, padding, lineHeight } = CHART_SIZE;
+    const [col, row] = CHART_BRANCH_CELLS[palace.branch];
+    const x = col * cell;
+    const y = row * cell;
+    const isDecade = periods.decadePalace?.branch === palace.branch;
+    const isAnnual = periods.annualPalace.branch === palace.branch;
+
+    const chartPalace = chart.palaces.find(item => item.name === palace.name);
+    const stars = chartPalace?.stars || [];
+    const mainStars = chart.starsInfo.mainStars[palace.name] || [];
+    const luckyStars = chart.starsInfo.luckyStars[palace.name] || [];
+    const evilStars = chart.starsInfo.evilStars[palace.name] || [];
+    const otherStars = stars.filter(
+      star => !mainStars.includes(star) && !luckyStars.includes(star) && !evilStars.includes(star)
+    );
+    const natal = STEM_TRANSFORMATIONS[layout.yearStem];
+
+    const parts: string[] = [
+      `<g>`,
+      `<rect x="${x}" y="${y}" width="${cell}" height="${cell}" fill="${isDecade ? CHART_COLORS.decadeHighlight : 'none'}" stroke="${CHART_COLORS.border}" stroke-width="1"/>`
+    ];
+    if (isAnnual) {
+      parts.push(
+        `<rect x="${x + 3}" y="${y + 3}" width="${cell - 6}" height="${cell - 6}" fill="none" stroke="${CHART_COLORS.annualHighlight}" stroke-width="2"/>`
+      );
+    }
+
+    // 主星：星名、亮度（取自星曜详情，与接口返回一致）、生年四化
+    const starDetails = chartPalace?.starDetails || [];
+    let lineY = y + padding + 18;
+    for (const star of mainStars) {
+      const brightness = starDetails.find(detail => detail.name === star)?.brightness || '';
+      parts.push(
+        `<text x="${x + padding}" y="${lineY}" font-size="18" font-weight="bold" fill="${CHART_COLORS.mainStar}">` +
+        `${this.escape(star)}<tspan font-size="12" font-weight="normal" fill="${CHART_COLORS.brightness}" dx="2">${brightness}</tspan></text>`
+      );
+      const transformationIndex = natal.indexOf(star);
+      if (transformationIndex >= 0) {
+        parts.push(this.buildTransformationMark(x + padding + star.length * 18 + 18, lineY, transformationIndex));
+      }
+      lineY += lineHeight + 4;
+    }
+
+    // 辅星、煞星及杂曜，按类别着色，每行若干颗
+    const auxStars = [
+      ...luckyStars.map(star => ({ star, color: CHART_COLORS.luckyStar })),
+      ...evilStars.map(star => ({ star, color: CHART_COLORS.evilStar })),
+      ...otherStars.map(star => ({ star, color: CHART_COLORS.otherStar }))
+    ];
+    for (let i = 0; i < auxStars.length; i += this.STARS_PER_LINE) {
+      const line = auxStars.slice(i, i + this.STARS_PER_LINE);
+      const spans = line.map(({ star, color }) => {
+        const transformationIndex = natal.indexOf(star);
+        const mark = transformationIndex >= 0
+          ? `<tspan fill="${TRANSFORMATION_COLORS[transformationIndex]}">${this.getTransformationMark(transformationIndex)}</tspan>`
+          : '';
+        return `<tspan fill="${color}">${this.escape(star)}</tspan>${mark}`;
+      });
+      parts.push(`<text x="${x + padding}" y="${lineY}" font-size="13">${spans.join(' ')}</text>`);
+      lineY += lineHeight - 2;
+    }
+
+    // 底部：大限岁数、宫名、宫干支及运限标记
+    const bottomY = y + cell - padding;
+    const decade = periods.decades.find(item => item.branch === palace.branch);
+    const labels = [isDecade ? '大限' : '', isAnnual ? `流年${periods.targetYear}` : ''].filter(Boolean);
+    if (labels.length > 0) {
+      parts.push(
+        `<text x="${x + padding}" y="${bottomY - lineHeight}" font-size="12" fill="${CHART_COLORS.annualHighlight}">${labels.join(' ')}</text>`
+      );
+    }
+    if (decade) {
+      parts.push(
+        `<text x="${x + padding}" y="${bottomY}" font-size="12" fill="${CHART_COLORS.decade}">${decade.startAge}-${decade.endAge}</text>`
+      );
+    }
+    parts.push(
+      `<text x="${x + cell / 2}" y="${bottomY}" font-size="15" font-weight="bold" text-anchor="middle" fill="${CHART_COLORS.palaceName}">${this.escape(palace.name)}</text>`,
+      `<text x="${x + cell - padding}" y="${bottomY}" font-size="14" text-anchor="end" fill="${CHART_COLORS.stemBranch}">${palace.stem}${palace.branch}</text>`,
+      `</g>`
+    );
+
+    return parts.join('\n');
+  }
+
+  /**
+   * 绘制中央命主信息：出生信息、五行局、四柱及当前运限
+   * @param dto 出生信息
+   * @param chart 星盘计算结果
+   * @param layout 宫位排布
+   * @param periods 大限、流年信息
+   * @returns 中央信息 SVG 片段
+   */
+  private buildCenter(
+    dto: CalculateZiweiDto,
+    chart: ZiweiChartResult,
+    layout: PalaceLayout,
+    periods: ChartPeriods
+  ): string {
+    const { cell, lineHeight } = CHART_SIZE;
+    const x = cell;
+    const y = cell;
+    const centerX = x + cell;
+    const { year, month, day, hour } = chart.fourPillars;
+
+    const infoLines = [
+      `${dto.gender === 'male' ? '男' : '女'} · ${dto.dateType === 'lunar' ? '农历' : '公历'} ${dto.birthDate} ${dto.birthTime}`,
+      chart.solarTime.applied ? `真太阳时 ${chart.solarTime.solarTime}` : `北京时间 ${chart.solarTime.clockTime}`,
+      `生肖 ${chart.zodiac} · ${chart.constellation} · ${layout.bureau.name}`
+    ];
+    const periodLine = periods.decadePalace
+      ? `大限 ${periods.decadePalace.name} ${periods.decadePalace.startAge}-${periods.decadePalace.endAge}岁 · 流年 ${periods.targetYear} ${periods.annualPalace.name}`
+      : `未起大限 · 流年 ${periods.targetYear} ${periods.annualPalace.name}`;
+
+    const parts: string[] = [
+      `<g>`,
+      `<rect x="${x}" y="${y}" width="${cell * 2}" height="${cell * 2}" fill="none" stroke="${CHART_COLORS.border}" stroke-width="1"/>`,
+      `<text x="${centerX}" y="${y + 40}" font-size="22" font-weight="bold" text-anchor="middle" fill="${CHART_COLORS.centerTitle}">紫微斗数命盘</text>`
+    ];
+    infoLines.forEach((line, i) => {
+      parts.push(
+        `<text x="${centerX}" y="${y + 80 + i * lineHeight}" font-size="14" text-anchor="middle" fill="${CHART_COLORS.text}">${this.escape(line)}</text>`
+      );
+    });
+
+    // 四柱：每柱一列，上为柱名，中为天干，下为地支
+    const pillarTop = y + 80 + infoLines.length * lineHeight + 20;
+    [['年柱', year], ['月柱', month], ['日柱', day], ['时柱', hour]].forEach(([label, pillar], i) => {
+      const columnX = x + cell * 0.5 + i * (cell / 3);
+      const { stem, branch } = pillar as { stem: string; branch: string };
+      parts.push(
+        `<text x="${columnX}" y="${pillarTop}" font-size="13" text-anchor="middle" fill="${CHART_COLORS.decade}">${label}</text>`,
+        `<text x="${columnX}" y="${pillarTop + 28}" font-size="22" text-anchor="middle" fill="${CHART_COLORS.text}">${stem}</text>`,
+        `<text x="${columnX}" y="${pillarTop + 56}" font-size="22" text-anchor="middle" fill="${CHART_COLORS.text}">${branch}</text>`
+      );
+    });
+
+    parts.push(
+      `<text x="${centerX}" y="${pillarTop + 96}" font-size="14" text-anchor="middle" fill="${CHART_COLORS.annualHighlight}">${this.escape(periodLine)}</text>`
+    );
+
+    // 生年四化图例
+    const legendY = y + cell * 2 - 24;
+    const natal = STEM_TRANSFORMATIONS[layout.yearStem];
+    const legend = natal.map((star, i) =>
+      `<tspan fill="${TRANSFORMATION_COLORS[i]}">${this.escape(star)}${TRANSFORMATION_NAMES[TRANSFORMATION_TYPES[i]]}</tspan>`
+    );
+    parts.push(
+      `<text x="${centerX}" y="${legendY}" font-size="13" text-anchor="middle" fill="${CHART_COLORS.text}">${layout.yearStem}年生 ${legend.join(' ')}</text>`,
+      `</g>`
+    );
+
+    return parts.join('\n');
+  }
+
+  /**
+   * 绘制主星旁的四化标记
+   * @param x 标记左侧横坐标
+   * @param baseline 文字基线纵坐标
+   * @param index 四化序号（禄权科忌）
+   * @returns 标记 SVG 片段
+   */
+  private buildTransformationMark(x: number, baseline: number, index: number): string {
+    return [
+      `<rect x="${x}" y="${baseline - 15}" width="18" height="18" rx="3" fill="${TRANSFORMATION_COLORS[index]}"/>`,
+      `<text x="${x + 9}" y="${baseline - 1}" font-size="13" text-anchor="middle" fill="#ffffff">${this.getTransformationMark(index)}</text>`
+    ].join('');
+  }
+
+  /**
+   * 取四化简称：禄、权、科、忌
+   */
+  private getTransformationMark(index: number): string {
+    return TRANSFORMATION_NAMES[TRANSFORMATION_TYPES[index]].slice(-1);
+  }
+
+  private escape(text: string): string {
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;');
+  }
+}
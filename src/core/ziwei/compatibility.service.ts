@@ -0,0 +1,329 @@
+import { Injectable, Logger, BadRequestException } from '@nestjs/common';
+import { ZiweiService } from './ziwei.service';
+import { BaziService } from '../bazi/bazi.service';
+import { CompatibilityDto } from '../../api/dto/compatibility.dto';
+import {
+  BranchRelation,
+  CompatibilityPerson,
+  CompatibilityResult,
+  CompatibilityScoreItem,
+  CrossTransformation,
+  ElementComplement,
+  OverlaidPalace,
+  StarOverlay
+} from '../../shared/types/compatibility.types';
+import { ZiweiChartResult } from '../../shared/types/ziwei.types';
+import { PalaceLayout } from '../../shared/types/palace-layout.types';
+import { DayMasterStrength, ElementStrength } from '../../shared/types/bazi.types';
+import {
+  BRANCH_COMBINATIONS,
+  BRANCH_RELATION_SCORES,
+  BRANCH_TRINES,
+  COMPATIBILITY_BASE_SCORE,
+  COMPATIBILITY_LEVELS,
+  COMPATIBILITY_RELATIONSHIPS,
+  CROSS_TRANSFORMATION_KEY_PALACES,
+  CROSS_TRANSFORMATION_SCORES,
+  DOMINANT_ELEMENT_RATIO,
+  ELEMENT_COMPLEMENT_SCORES,
+  OVERLAY_PALACE_WEIGHTS,
+  OVERLAY_STAR_SCORES,
+  STEM_COMBINATIONS
+} from '../../shared/constants/compatibility.constants';
+import { BRANCH_HARMS, BRANCH_PUNISHMENTS, BRANCH_ZODIACS } from '../../shared/constants/almanac.constants';
+import { FIVE_ELEMENTS, STEM_ELEMENTS } from '../../shared/constants/bazi.constants';
+import { EARTHLY_BRANCHES } from '../../shared/constants/ziwei.constants';
+import { mod } from '../../shared/utils/math.utils';
+
+/**
+ * 合盘服务
+ * 比较两人的紫微星盘与四柱：星曜互叠、生年四化互飞、年支日支合冲刑害及五行互补
+ */
+@Injectable()
+export class CompatibilityService {
+  private readonly logger = new Logger(CompatibilityService.name);
+  private readonly PERSON_LABELS: Record<CompatibilityPerson, string> = {
+    personA: '甲方',
+    personB: '乙方'
+  };
+
+  constructor(
+    private readonly ziweiService: ZiweiService,
+    private readonly baziService: BaziService
+  ) {}
+
+  /**
+   * 合盘分析
+   * @param dto 双方出生信息及关系类型
+   * @returns 合盘结果及分项得分
+   */
+  async analyzeCompatibility(dto: CompatibilityDto): Promise<CompatibilityResult> {
+    if (!dto.personA || !dto.personB) {
+      throw new BadRequestException('合盘需要提供双方出生信息 personA 与 personB');
+    }
+    const relationship = dto.relationship ?? 'couple';
+    if (!COMPATIBILITY_RELATIONSHIPS.includes(relationship)) {
+      throw new BadRequestException(`不支持的关系类型: ${dto.relationship}`);
+    }
+
+    this.logger.log(`开始合盘分析: ${relationship}`);
+    const { chart: chartA, layout: layoutA } = await this.ziweiService.calculateChartWithLayout(dto.personA);
+    const { chart: chartB, layout: layoutB } = await this.ziweiService.calculateChartWithLayout(dto.personB);
+    const weights = OVERLAY_PALACE_WEIGHTS[relationship];
+
+    const overlays = [
+      this.overlayStars('personA', 'personB', chartA, layoutA, layoutB, weights),
+      this.overlayStars('personB', 'personA', chartB, layoutB, layoutA, weights)
+    ];
+    const transformations = [
+      this.crossTransformations('personA', 'personB', layoutA, chartB, weights),
+      this.crossTransformations('personB', 'personA', layoutB, chartA, weights)
+    ];
+    const branches = (['year', 'day'] as const).map(pillar =>
+      this.compareBranches(pillar, chartA.fourPillars[pillar].branch, chartB.fourPillars[pillar].branch)
+    );
+    const elements = this.compareElements(chartA, chartB);
+
+    const breakdown: CompatibilityScoreItem[] = [
+      {
+        category: 'starOverlay',
+        label: '星曜叠盘',
+        score: overlays.reduce((sum, overlay) => sum + overlay.score, 0),
+        details: overlays.flatMap(overlay =>
+          overlay.palaces
+            .filter(palace => palace.stars.length > 0)
+            .map(palace =>
+              `${this.PERSON_LABELS[overlay.from]}${palace.sourcePalace}星曜（${palace.stars.join('、')}）` +
+              `叠入${this.PERSON_LABELS[overlay.to]}${palace.palace} ${this.formatScore(palace.score)}`
+            )
+        )
+      },
+      {
+        category: 'transformations',
+        label: '四化互飞',
+        score: transformations.reduce((sum, item) => sum + item.score, 0),
+        details: transformations.flatMap(item =>
+          item.transformations
+            .filter(star => star.palace)
+            .map(star =>
+              `${this.PERSON_LABELS[item.from]}${item.stem}干${star.name}（${star.star}）` +
+              `入${this.PERSON_LABELS[item.to]}${star.palace}`
+            )
+        )
+      },
+      {
+        category: 'branches',
+        label: '年支日支关系',
+        score: branches.reduce((sum, item) => sum + item.score, 0),
+        details: branches.map(item =>
+          `${item.pillar === 'year' ? '年支' : '日支'}${item.branchA}与${item.branchB}` +
+          `${item.relations.length ? item.relations.join('、') : '无合冲刑害'} ${this.formatScore(item.score)}`
+        )
+      },
+      {
+        category: 'elements',
+        label: '五行互补',
+        score: elements.score,
+        details: [
+          `${this.PERSON_LABELS.personA}日主${elements.dayMasterA}，${this.PERSON_LABELS.personB}日主${elements.dayMasterB}，${elements.dayMasterRelation}`,
+          `${this.PERSON_LABELS.personB}可补${this.PERSON_LABELS.personA}：${elements.suppliedToA.join('、') || '无'}`,
+          `${this.PERSON_LABELS.personA}可补${this.PERSON_LABELS.personB}：${elements.suppliedToB.join('、') || '无'}`,
+          ...(elements.stemCombination ? ['双方日干五合'] : [])
+        ]
+      }
+    ];
+
+    const totalScore = Math.max(
+      0,
+      Math.min(100, Math.round(COMPATIBILITY_BASE_SCORE + breakdown.reduce((sum, item) => sum + item.score, 0)))
+    );
+    const level = (COMPATIBILITY_LEVELS.find(item => totalScore >= item.min) as { level: string }).level;
+
+    this.logger.log(`合盘分析完成: ${totalScore}分`);
+    return {
+      relationship,
+      totalScore,
+      level,
+      breakdown,
+      overlays,
+      transformations,
+      branches,
+      elements,
+      calculationTime: new Date().toISOString()
+    };
+  }
+
+  /**
+   * 将一方星曜按地支叠入另一方的关注宫位
+   * @param from 星曜来源方
+   * @param to 被叠入方
+   * @param sourceChart 来源方星盘
+   * @param sourceLayout 来源方宫位排布
+   * @param targetLayout 被叠入方宫位排布
+   * @param weights 关注宫位及权重
+   * @returns 叠盘结果
+   */
+  private overlayStars(
+    from: CompatibilityPerson,
+    to: CompatibilityPerson,
+    sourceChart: ZiweiChartResult,
+    sourceLayout: PalaceLayout,
+    targetLayout: PalaceLayout,
+    weights: Record<string, number>
+  ): StarOverlay {
+    const palaces = Object.entries(weights).map<OverlaidPalace>(([name, weight]) => {
+      const branch = (targetLayout.palaces.find(palace => palace.name === name) as { branch: string }).branch;
+      const sourcePalace = (sourceLayout.palaces.find(palace => palace.branch === branch) as { name: string }).name;
+      const stars = sourceChart.palaces.find(palace => palace.name === sourcePalace)?.stars || [];
+      const mainStars = sourceChart.starsInfo.mainStars[sourcePalace] || [];
+      const luckyStars = sourceChart.starsInfo.luckyStars[sourcePalace] || [];
+      const evilStars = sourceChart.starsInfo.evilStars[sourcePalace] || [];
+      const score = weight * (
+        mainStars.length * OVERLAY_STAR_SCORES.main +
+        luckyStars.length * OVERLAY_STAR_SCORES.lucky +
+        evilStars.length * OVERLAY_STAR_SCORES.evil
+      );
+
+      return { palace: name, branch, sourcePalace, stars, mainStars, luckyStars, evilStars, score };
+    });
+
+    return { from, to, palaces, score: palaces.reduce((sum, palace) => sum + palace.score, 0) };
+  }
+
+  /**
+   * 以一方生年干起四化，查找四化星在另一方命盘的落宫
+   * 落入命宫、夫妻宫加倍计分，落入其余关注宫位正常计分
+   * @param from 起四化方
+   * @param to 四化飞入方
+   * @param sourceLayout 起四化方宫位排布
+   * @param targetChart 飞入方星盘
+   * @param weights 关注宫位及权重
+   * @returns 四化互飞结果
+   */
+  private crossTransformations(
+    from: CompatibilityPerson,
+    to: CompatibilityPerson,
+    sourceLayout: PalaceLayout,
+    targetChart: ZiweiChartResult,
+    weights: Record<string, number>
+  ): CrossTransformation {
+    const stem = sourceLayout.yearStem;
+    const transformations = this.ziweiService.getStemTransformations(stem, targetChart.palaces);
+    const score = transformations.reduce((sum, star) => {
+      if (!star.palace) {
+        return sum;
+      }
+      if (CROSS_TRANSFORMATION_KEY_PALACES.includes(star.palace)) {
+        return sum + CROSS_TRANSFORMATION_SCORES[star.type] * 2;
+      }
+      return star.palace in weights ? sum + CROSS_TRANSFORMATION_SCORES[star.type] : sum;
+    }, 0);
+
+    return { from, to, stem, transformations, score };
+  }
+
+  /**
+   * 比较双方同一柱地支的合冲刑害
+   * @param pillar 比较的柱
+   * @param branchA 甲方地支
+   * @param branchB 乙方地支
+   * @returns 地支关系
+   */
+  private compareBranches(pillar: 'year' | 'day', branchA: string, branchB: string): BranchRelation {
+    const matches = ([a, b]: [string, string]) => (a === branchA && b === branchB) || (a === branchB && b === branchA);
+    const relations: string[] = [];
+    if (BRANCH_COMBINATIONS.some(matches)) {
+      relations.push('六合');
+    }
+    if (branchA !== branchB && BRANCH_TRINES.some(trine => trine.includes(branchA) && trine.includes(branchB))) {
+      relations.push('三合');
+    }
+    if (Math.abs(EARTHLY_BRANCHES.indexOf(branchA) - EARTHLY_BRANCHES.indexOf(branchB)) === 6) {
+      relations.push('冲');
+    }
+    if (BRANCH_PUNISHMENTS.some(matches)) {
+      relations.push('刑');
+    }
+    if (BRANCH_HARMS.some(matches)) {
+      relations.push('害');
+    }
+
+    return {
+      pillar,
+      branchA,
+      branchB,
+      zodiacA: BRANCH_ZODIACS[branchA],
+      zodiacB: BRANCH_ZODIACS[branchB],
+      relations,
+      score: relations.reduce((sum, relation) => sum + BRANCH_RELATION_SCORES[relation], 0)
+    };
+  }
+
+  /**
+   * 比较双方四柱五行：一方旺盛之五行是否为另一方所需，及日主五行生克、日干五合
+   * @param chartA 甲方星盘
+   * @param chartB 乙方星盘
+   * @returns 五行互补分析
+   */
+  private compareElements(chartA: ZiweiChartResult, chartB: ZiweiChartResult): ElementComplement {
+    const a = this.baziService.analyzePillars(chartA.fourPillars);
+    const b = this.baziService.analyzePillars(chartB.fourPillars);
+    const neededA = this.getNeededElements(a.elements, a.dayMaster);
+    const neededB = this.getNeededElements(b.elements, b.dayMaster);
+    const dominant = (elements: ElementStrength[]) =>
+      elements.filter(item => item.ratio >= DOMINANT_ELEMENT_RATIO).map(item => item.element);
+    const suppliedToA = neededA.filter(element => dominant(b.elements).includes(element));
+    const suppliedToB = neededB.filter(element => dominant(a.elements).includes(element));
+
+    const elementA = a.dayMaster.element;
+    const elementB = b.dayMaster.element;
+    const distance = mod(FIVE_ELEMENTS.indexOf(elementB) - FIVE_ELEMENTS.indexOf(elementA), 5);
+    const [dayMasterRelation, relationScore] = [
+      [`同为${elementA}，比和`, ELEMENT_COMPLEMENT_SCORES.dayMasterSame],
+      [`${elementA}生${elementB}`, ELEMENT_COMPLEMENT_SCORES.dayMasterGenerating],
+      [`${elementA}克${elementB}`, ELEMENT_COMPLEMENT_SCORES.dayMasterControlling],
+      [`${elementB}克${elementA}`, ELEMENT_COMPLEMENT_SCORES.dayMasterControlling],
+      [`${elementB}生${elementA}`, ELEMENT_COMPLEMENT_SCORES.dayMasterGenerating]
+    ][distance] as [string, number];
+
+    const stemA = a.dayMaster.stem;
+    const stemB = b.dayMaster.stem;
+    const stemCombination = STEM_COMBINATIONS.some(
+      ([x, y]) => (x === stemA && y === stemB) || (x === stemB && y === stemA)
+    );
+
+    return {
+      dayMasterA: `${stemA}${STEM_ELEMENTS[stemA]} ${a.dayMaster.level}`,
+      dayMasterB: `${stemB}${STEM_ELEMENTS[stemB]} ${b.dayMaster.level}`,
+      neededA,
+      neededB,
+      suppliedToA,
+      suppliedToB,
+      dayMasterRelation,
+      stemCombination,
+      score:
+        (suppliedToA.length + suppliedToB.length) * ELEMENT_COMPLEMENT_SCORES.supplied +
+        relationScore +
+        (stemCombination ? ELEMENT_COMPLEMENT_SCORES.stemCombination : 0)
+    };
+  }
+
+  /**
+   * 按日主旺衰取所需五行：偏强取克泄耗，偏弱取生扶，中和取最弱的两行
+   * @param elements 五行力量
+   * @param dayMaster 日主旺衰
+   * @returns 所需五行
+   */
+  private getNeededElements(elements: ElementStrength[], dayMaster: DayMasterStrength): string[] {
+    if (dayMaster.level === '中和') {
+      return [...elements].sort((x, y) => x.score - y.score).slice(0, 2).map(item => item.element);
+    }
+    const strong = dayMaster.level === '身强' || dayMaster.level === '偏强';
+    const relations = strong ? ['食伤', '财星', '官杀'] : ['比劫', '印星'];
+    return elements.filter(item => relations.includes(item.relation)).map(item => item.element);
+  }
+
+  private formatScore(score: number): string {
+    return score >= 0 ? `+${score}` : `${score}`;
+  }
+}
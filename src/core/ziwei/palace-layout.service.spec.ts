@@ -0,0 +1,55 @@
+import { astro } from 'iztro';
+import { PalaceLayoutService } from './palace-layout.service';
+
+describe('PalaceLayoutService', () => {
+  const service = new PalaceLayoutService();
+
+  /**
+   * 以 iztro 排盘结果为基准比对宫位排布
+   * 时辰序号 0-11 对应早子时至亥时，出生小时取该时辰起点
+   */
+  const charts: Array<{ label: string; solarDate: string; timeIndex: number; gender: 'male' | 'female' }> = [
+    { label: '平月', solarDate: '1990-08-15', timeIndex: 6, gender: 'male' },
+    { label: '平月', solarDate: '1985-11-03', timeIndex: 9, gender: 'female' },
+    { label: '闰二月十五（按本月计）', solarDate: '2023-04-05', timeIndex: 0, gender: 'male' },
+    { label: '闰二月十六（按下月计）', solarDate: '2023-04-06', timeIndex: 3, gender: 'female' },
+    { label: '闰二月廿九', solarDate: '2023-04-19', timeIndex: 11, gender: 'male' },
+    { label: '闰四月十五', solarDate: '2020-06-06', timeIndex: 5, gender: 'female' },
+    { label: '闰四月十六', solarDate: '2020-06-07', timeIndex: 8, gender: 'male' },
+    { label: '闰六月三十', solarDate: '2017-08-21', timeIndex: 2, gender: 'female' },
+    { label: '立春当日、除夕前', solarDate: '2024-02-04', timeIndex: 10, gender: 'male' },
+    { label: '除夕', solarDate: '2024-02-09', timeIndex: 4, gender: 'female' },
+    { label: '春节', solarDate: '2024-02-10', timeIndex: 7, gender: 'male' },
+    { label: '春节后、立春前', solarDate: '2023-01-25', timeIndex: 1, gender: 'female' },
+    { label: '立春后、春节前', solarDate: '2021-02-05', timeIndex: 6, gender: 'male' }
+  ];
+
+  describe.each(charts)('$label $solarDate 时辰$timeIndex $gender', ({ solarDate, timeIndex, gender }) => {
+    const astrolabe = astro.astrolabeBySolarDate(solarDate, timeIndex, gender === 'male' ? '男' : '女');
+    const { lunarYear, lunarMonth, lunarDay, isLeap } = astrolabe.rawDates.lunarDate;
+    const layout = service.buildLayout(lunarYear, isLeap ? -lunarMonth : lunarMonth, lunarDay, timeIndex * 2, gender);
+    const byBranch = new Map(astrolabe.palaces.map(palace => [palace.earthlyBranch as string, palace]));
+
+    it('命宫、各宫干支、生年干支与五行局一致', () => {
+      expect(layout.palaces[0].branch).toBe(astrolabe.earthlyBranchOfSoulPalace);
+      expect(layout.yearStem + layout.yearBranch).toBe(astrolabe.rawDates.chineseDate.yearly.join(''));
+      expect(layout.bureau.name).toBe(astrolabe.fiveElementsClass);
+      expect(layout.palaces.map(palace => palace.stem + palace.branch)).toEqual(
+        layout.palaces.map(palace => byBranch.get(palace.branch)?.heavenlyStem + palace.branch)
+      );
+    });
+
+    it('大限、小限宫位一致', () => {
+      service.getDecadePalaces(layout).forEach(decade => {
+        expect([decade.branch, decade.startAge, decade.endAge]).toEqual([
+          decade.branch,
+          ...(byBranch.get(decade.branch)?.decadal.range || [])
+        ]);
+      });
+      for (let age = 1; age <= 24; age++) {
+        const minor = service.getMinorPalace(layout, age);
+        expect([age, byBranch.get(minor.branch)?.ages.includes(age)]).toEqual([age, true]);
+      }
+    });
+  });
+});
@@ -0,0 +1,193 @@
+import { Injectable } from '@nestjs/common';
+import {
+  HEAVENLY_STEMS,
+  EARTHLY_BRANCHES,
+  PALACE_NAMES,
+  FIVE_ELEMENTS_BUREAU,
+  MINOR_PERIOD_START_BRANCH
+} from '../../shared/constants/ziwei.constants';
+import { LayoutPalace, PalaceLayout, PeriodPalace } from '../../shared/types/palace-layout.types';
+import { mod } from '../../shared/utils/math.utils';
+import { getNayin } from '../../shared/utils/ganzhi.utils';
+
+/**
+ * 宫位排布服务
+ * 按安命宫、五虎遁、五行局的传统规则排布十二宫干支，并推算大限、小限、流年宫位
+ */
+@Injectable()
+export class PalaceLayoutService {
+  /**
+   * 排布命盘十二宫
+   * @param lunarYear 农历出生年
+   * @param lunarMonth 农历出生月（闰月以负数表示）
+   * @param lunarDay 农历出生日
+   * @param hour 出生小时 (0-23)
+   * @param gender 性别
+   * @returns 宫位排布
+   */
+  buildLayout(
+    lunarYear: number,
+    lunarMonth: number,
+    lunarDay: number,
+    hour: number,
+    gender: 'male' | 'female'
+  ): PalaceLayout {
+    const { stem: yearStem, branch: yearBranch } = this.getYearStemBranch(lunarYear);
+    const hourIndex = this.getHourBranchIndex(hour);
+
+    // 安命宫：寅宫起正月顺数至生月，再从生月宫起子时逆数至生时
+    const lifeBranchIndex = mod(2 + (this.getChartMonth(lunarMonth, lunarDay) - 1) - hourIndex, 12);
+
+    // 十二宫自命宫起逆时针排列，宫干按五虎遁起寅宫天干
+    const palaces: LayoutPalace[] = PALACE_NAMES.map((name, i) => {
+      const branchIndex = mod(lifeBranchIndex - i, 12);
+      return {
+        name,
+        stem: this.getPalaceStem(yearStem, branchIndex),
+        branch: EARTHLY_BRANCHES[branchIndex]
+      };
+    });
+
+    // 五行局取命宫干支纳音五行
+    const lifePalace = palaces[0];
+    const nayin = getNayin(lifePalace.stem, lifePalace.branch);
+    const bureau = FIVE_ELEMENTS_BUREAU[nayin.slice(-1)];
+
+    const isYangYear = HEAVENLY_STEMS.indexOf(yearStem) % 2 === 0;
+    const forward = (gender === 'male') === isYangYear;
+
+    return {
+      birthYear: lunarYear,
+      yearStem,
+      yearBranch,
+      gender,
+      bureau,
+      forward,
+      palaces
+    };
+  }
+
+  /**
+   * 获取全部大限宫位
+   * 一限起于五行局数对应虚岁，每限十年，阳男阴女顺行，阴男阳女逆行
+   * @param layout 宫位排布
+   * @returns 十二个大限宫位
+   */
+  getDecadePalaces(layout: PalaceLayout): PeriodPalace[] {
+    const lifeBranchIndex = EARTHLY_BRANCHES.indexOf(layout.palaces[0].branch);
+    const step = layout.forward ? 1 : -1;
+
+    return PALACE_NAMES.map((_, i) => {
+      const branch = EARTHLY_BRANCHES[mod(lifeBranchIndex + step * i, 12)];
+      const startAge = layout.bureau.number + i * 10;
+      return {
+        ...this.getPalaceByBranch(layout, branch),
+        startAge,
+        endAge: startAge + 9
+      };
+    });
+  }
+
+  /**
+   * 获取指定虚岁所在的大限宫位
+   * @param layout 宫位排布
+   * @param age 虚岁
+   * @returns 大限宫位，未起运时返回null
+   */
+  getDecadePalace(layout: PalaceLayout, age: number): PeriodPalace | null {
+    return this.getDecadePalaces(layout).find(
+      decade => age >= decade.startAge && age <= decade.endAge
+    ) || null;
+  }
+
+  /**
+   * 获取指定虚岁的小限宫位
+   * 按生年三合局起一岁小限，男顺女逆，每岁移一宫
+   * @param layout 宫位排布
+   * @param age 虚岁
+   * @returns 小限宫位
+   */
+  getMinorPalace(layout: PalaceLayout, age: number): PeriodPalace {
+    const startBranchIndex = EARTHLY_BRANCHES.indexOf(MINOR_PERIOD_START_BRANCH[layout.yearBranch]);
+    const step = layout.gender === 'male' ? 1 : -1;
+    const branch = EARTHLY_BRANCHES[mod(startBranchIndex + step * (age - 1), 12)];
+
+    return {
+      ...this.getPalaceByBranch(layout, branch),
+      startAge: age,
+      endAge: age
+    };
+  }
+
+  /**
+   * 获取流年命宫：流年地支所在的本命宫位
+   * @param layout 宫位排布
+   * @param year 流年（农历年）
+   * @returns 流年所在宫位
+   */
+  getAnnualPalace(layout: PalaceLayout, year: number): LayoutPalace {
+    return this.getPalaceByBranch(layout, this.getYearStemBranch(year).branch);
+  }
+
+  /**
+   * 根据地支查找宫位
+   * @param layout 宫位排布
+   * @param branch 地支
+   * @returns 宫位
+   */
+  getPalaceByBranch(layout: PalaceLayout, branch: string): LayoutPalace {
+    return layout.palaces.find(palace => palace.branch === branch) as LayoutPalace;
+  }
+
+  /**
+   * 计算虚岁
+   * @param birthYear 农历出生年
+   * @param year 目标农历年
+   * @returns 虚岁
+   */
+  getNominalAge(birthYear: number, year: number): number {
+    return year - birthYear + 1;
+  }
+
+  /**
+   * 获取年份干支
+   * @param year 农历年
+   * @returns 年干与年支
+   */
+  getYearStemBranch(year: number): { stem: string; branch: string } {
+    return {
+      stem: HEAVENLY_STEMS[mod(year - 4, 10)],
+      branch: EARTHLY_BRANCHES[mod(year - 4, 12)]
+    };
+  }
+
+  /**
+   * 出生小时对应的时辰序号（子时为0，23点起算子时）
+   * @param hour 小时 (0-23)
+   * @returns 时辰序号 (0-11)
+   */
+  getHourBranchIndex(hour: number): number {
+    return Math.floor((hour + 1) / 2) % 12;
+  }
+
+  /**
+   * 安命宫所用的生月：闰月十五日（含）前按本月计，十六日起按下月计，与 iztro 一致
+   * @param lunarMonth 农历月（闰月以负数表示）
+   * @param lunarDay 农历日
+   * @returns 生月 (1-13)，13 即次年正月
+   */
+  private getChartMonth(lunarMonth: number, lunarDay: number): number {
+    return Math.abs(lunarMonth) + (lunarMonth < 0 && lunarDay > 15 ? 1 : 0);
+  }
+
+  /**
+   * 五虎遁：由年干推寅宫天干，再自寅宫顺推至目标地支（子、丑两宫接亥宫之后）
+   * @param yearStem 生年天干
+   * @param branchIndex 宫位地支序号
+   * @returns 宫干
+   */
+  private getPalaceStem(yearStem: string, branchIndex: number): string {
+    const yinStemIndex = ((HEAVENLY_STEMS.indexOf(yearStem) % 5) * 2 + 2) % 10;
+    return HEAVENLY_STEMS[(yinStemIndex + mod(branchIndex - 2, 12)) % 10];
+  }
+}
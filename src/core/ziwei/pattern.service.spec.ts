@@ -0,0 +1,115 @@
+import { Palace, ZiweiChartResult, ZiweiStar } from '../../shared/types/ziwei.types';
+import { NarrativeSection } from '../../shared/types/llm.types';
+import { PALACE_NAMES } from '../../shared/constants/ziwei.constants';
+import { ZiweiService } from './ziwei.service';
+import { PatternService } from './pattern.service';
+
+jest.mock('./ziwei.service', () => ({ ZiweiService: class {} }));
+
+describe('PatternService', () => {
+  const service = new PatternService({} as ZiweiService);
+
+  /**
+   * 按宫位摆放星曜构造星盘，未列出的宫位无星
+   * @param placements 宫位名称到星曜的映射，星曜可写作 [星名, 生年四化]
+   */
+  const buildChart = (placements: Record<string, Array<string | [string, string]>>): ZiweiChartResult => {
+    const palaces = PALACE_NAMES.map(name => ({
+      name,
+      starDetails: (placements[name] || []).map(star => {
+        const [starName, transformationName] = Array.isArray(star) ? star : [star, null];
+        return { name: starName, transformationName } as ZiweiStar;
+      })
+    }) as Palace);
+    return { palaces } as ZiweiChartResult;
+  };
+
+  const matchIds = (chart: ZiweiChartResult): string[] => service.evaluate(chart).map(match => match.id);
+
+  describe('夹宫', () => {
+    it('文昌、文曲分居父母宫与兄弟宫，昌曲夹命成立', () => {
+      const matches = service.evaluate(buildChart({ '父母宫': ['文昌'], '兄弟宫': ['文曲'] }));
+      expect(matches).toEqual([
+        expect.objectContaining({
+          id: 'changQuJiaMing',
+          palace: '命宫',
+          stars: [{ star: '文昌', palace: '父母宫' }, { star: '文曲', palace: '兄弟宫' }]
+        })
+      ]);
+    });
+
+    it('文昌、文曲同在一邻宫，不构成夹命', () => {
+      expect(matchIds(buildChart({ '兄弟宫': ['文昌', '文曲'] }))).toEqual([]);
+      expect(matchIds(buildChart({ '父母宫': ['文昌', '文曲'] }))).toEqual([]);
+    });
+
+    it('仅一侧邻宫有星，不构成夹命', () => {
+      expect(matchIds(buildChart({ '父母宫': ['左辅'], '夫妻宫': ['右弼'] }))).toEqual([]);
+    });
+  });
+
+  describe('三方四正', () => {
+    const members = ['天机', '太阴', '天同', '天梁'];
+
+    it.each([
+      ['命宫', '财帛宫', '迁移宫', '官禄宫'],
+      ['命宫', '官禄宫', '财帛宫', '迁移宫']
+    ])('机月同梁分居本宫及对宫、三合宫（%s %s %s %s）成立', (...palaceNames: string[]) => {
+      const placements = Object.fromEntries(palaceNames.map((name, index) => [name, [members[index]]]));
+      expect(matchIds(buildChart(placements))).toEqual(['jiYueTongLiang']);
+    });
+
+    it.each(['兄弟宫', '疾厄宫', '交友宫', '田宅宫'])('一星落在三方四正以外的%s，不成立', palaceName => {
+      const placements = { '命宫': ['天机'], '财帛宫': ['太阴'], '迁移宫': ['天同'], [palaceName]: ['天梁'] };
+      expect(matchIds(buildChart(placements))).toEqual([]);
+    });
+  });
+
+  describe('四化标记', () => {
+    it('化忌星所在宫被擎羊、陀罗所夹，羊陀夹忌在该宫成立并标明四化', () => {
+      const matches = service.evaluate(buildChart({
+        '子女宫': ['陀罗'],
+        '财帛宫': [['武曲', '化忌']],
+        '疾厄宫': ['擎羊']
+      }));
+      expect(matches).toEqual([
+        expect.objectContaining({
+          id: 'yangTuoJiaJi',
+          palace: '财帛宫',
+          stars: [
+            { star: '武曲', palace: '财帛宫', transformation: '化忌' },
+            { star: '擎羊', palace: '疾厄宫' },
+            { star: '陀罗', palace: '子女宫' }
+          ]
+        })
+      ]);
+    });
+
+    it('化禄按四化匹配任一星曜，不匹配同名星曜', () => {
+      expect(matchIds(buildChart({ '命宫': ['天马', ['太阴', '化禄']] }))).toEqual(['luMaJiaoChi']);
+      expect(matchIds(buildChart({ '命宫': ['天马', ['太阴', '化权']] }))).toEqual([]);
+      expect(matchIds(buildChart({ '命宫': ['天马', '化禄'] }))).toEqual([]);
+    });
+  });
+
+  describe('解读分节', () => {
+    const chart = buildChart({
+      '命宫': ['紫微', '天府'],
+      '子女宫': ['陀罗'],
+      '财帛宫': [['武曲', '化忌']],
+      '疾厄宫': ['擎羊']
+    });
+
+    it('未指定分节时返回全部格局', () => {
+      expect(matchIds(chart)).toEqual(['ziFuTongGong', 'yangTuoJiaJi']);
+    });
+
+    it('按规则指定的分节及成格宫位所属分节筛选', () => {
+      const ids = (section: NarrativeSection) => service.evaluate(chart, section).map(match => match.id);
+      expect(ids('basicInfo')).toEqual(['ziFuTongGong']);
+      expect(ids('career')).toEqual(['ziFuTongGong', 'yangTuoJiaJi']);
+      expect(ids('relationship')).toEqual([]);
+      expect(ids('health')).toEqual([]);
+    });
+  });
+});
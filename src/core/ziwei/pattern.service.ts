@@ -0,0 +1,182 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ZiweiService } from './ziwei.service';
+import { CalculateZiweiDto } from '../../api/dto/ziwei.dto';
+import { Palace, ZiweiChartResult } from '../../shared/types/ziwei.types';
+import { NarrativeSection } from '../../shared/types/llm.types';
+import {
+  PatternAnalysisResult,
+  PatternClause,
+  PatternMatch,
+  PatternRule,
+  PatternStar
+} from '../../shared/types/pattern.types';
+import { PATTERN_RULES } from '../../shared/constants/pattern.constants';
+import { NARRATIVE_SECTIONS } from '../../shared/constants/llm.constants';
+import { PALACE_NAMES } from '../../shared/constants/ziwei.constants';
+
+/**
+ * 格局分析服务
+ * 按声明式规则库逐宫检查星曜组合，返回成立的格局、成格宫位、构成星曜与断语
+ */
+@Injectable()
+export class PatternService {
+  private readonly logger = new Logger(PatternService.name);
+
+  constructor(private readonly ziweiService: ZiweiService) {}
+
+  /**
+   * 格局分析
+   * @param dto 出生信息
+   * @returns 命中的格局
+   */
+  async analyzePatterns(dto: CalculateZiweiDto): Promise<PatternAnalysisResult> {
+    const chart = await this.ziweiService.calculateZiweiChart(dto);
+    const patterns = this.evaluate(chart);
+    this.logger.log(`格局分析完成，命中 ${patterns.length} 个格局`);
+
+    return {
+      patterns,
+      ruleCount: PATTERN_RULES.length,
+      calculationTime: new Date().toISOString()
+    };
+  }
+
+  /**
+   * 按规则库检查星盘
+   * @param chart 星盘计算结果
+   * @param section 仅返回该解读分节引用的格局，未提供时返回全部
+   * @returns 命中的格局，按规则顺序排列
+   */
+  evaluate(chart: ZiweiChartResult, section?: NarrativeSection): PatternMatch[] {
+    const palaces = new Map(chart.palaces.map(palace => [palace.name, palace]));
+    const matches: PatternMatch[] = [];
+
+    PATTERN_RULES.forEach(rule => {
+      rule.scope.forEach(palaceName => {
+        const stars = this.matchRule(rule, palaceName, palaces);
+        if (stars) {
+          matches.push({
+            id: rule.id,
+            name: rule.name,
+            category: rule.category,
+            palace: palaceName,
+            stars,
+            reading: rule.reading,
+            sections: this.resolveSections(rule, palaceName)
+          });
+        }
+      });
+    });
+
+    return section ? matches.filter(match => match.sections.includes(section)) : matches;
+  }
+
+  /**
+   * 检查规则在指定宫位是否成立
+   * @param rule 格局规则
+   * @param palaceName 成格宫位
+   * @param palaces 宫位名称到宫位的映射
+   * @returns 成立时返回构成格局的星曜，否则返回 null
+   */
+  private matchRule(rule: PatternRule, palaceName: string, palaces: Map<string, Palace>): PatternStar[] | null {
+    const index = PALACE_NAMES.indexOf(palaceName);
+    if (index < 0 || !palaces.has(palaceName)) {
+      return null;
+    }
+
+    const stars: PatternStar[] = [];
+    for (const clause of rule.clauses) {
+      const found = this.matchClause(clause, this.getClausePalaces(clause, index, palaces));
+      if (!found) {
+        return null;
+      }
+      found.forEach(star => {
+        if (!stars.some(item => item.star === star.star && item.palace === star.palace)) {
+          stars.push(star);
+        }
+      });
+    }
+    return stars;
+  }
+
+  /**
+   * 检查单条条件
+   * @param clause 格局条件
+   * @param candidates 条件查找范围内的宫位
+   * @returns 成立时返回满足条件的星曜，否则返回 null
+   */
+  private matchClause(clause: PatternClause, candidates: Palace[]): PatternStar[] | null {
+    const found: PatternStar[] = [];
+
+    for (const token of clause.stars || []) {
+      const star = this.findStars(token, candidates)[0];
+      if (!star) {
+        return null;
+      }
+      found.push(star);
+    }
+
+    if (clause.anyStars) {
+      const any = clause.anyStars.flatMap(token => this.findStars(token, candidates));
+      if (any.length === 0) {
+        return null;
+      }
+      found.push(...any);
+    }
+
+    // 夹宫须前后两宫各有构成星曜
+    if (clause.where === 'flanking' && candidates.some(palace => !found.some(star => star.palace === palace.name))) {
+      return null;
+    }
+    return found;
+  }
+
+  /**
+   * 在宫位中查找星曜；以“化”开头的标记匹配带该生年四化的任一星曜
+   * @param token 星曜名称或四化名称
+   * @param candidates 查找范围内的宫位
+   * @returns 匹配的星曜
+   */
+  private findStars(token: string, candidates: Palace[]): PatternStar[] {
+    const byTransformation = token.startsWith('化');
+    return candidates.flatMap(palace => palace.starDetails
+      .filter(star => (byTransformation ? star.transformationName === token : star.name === token))
+      .map(star => ({
+        star: star.name,
+        palace: palace.name,
+        ...(star.transformationName ? { transformation: star.transformationName } : {})
+      })));
+  }
+
+  /**
+   * 条件的查找范围
+   * @param clause 格局条件
+   * @param index 成格宫位序号
+   * @param palaces 宫位名称到宫位的映射
+   * @returns 范围内的宫位
+   */
+  private getClausePalaces(clause: PatternClause, index: number, palaces: Map<string, Palace>): Palace[] {
+    const offsets = {
+      self: [0],
+      trineSquare: [0, 4, 8, 6],
+      flanking: [11, 1]
+    }[clause.where];
+
+    return offsets
+      .map(offset => palaces.get(PALACE_NAMES[(index + offset) % 12]))
+      .filter((palace): palace is Palace => Boolean(palace));
+  }
+
+  /**
+   * 引用格局的解读分节：规则指定的分节及成格宫位所属的分节
+   * @param rule 格局规则
+   * @param palaceName 成格宫位
+   * @returns 解读分节
+   */
+  private resolveSections(rule: PatternRule, palaceName: string): NarrativeSection[] {
+    return (Object.keys(NARRATIVE_SECTIONS) as NarrativeSection[]).filter(section =>
+      rule.sections.includes(section) ||
+      (NARRATIVE_SECTIONS[section].palaces as readonly string[]).includes(palaceName)
+    );
+  }
+}
@@ -1,24 +1,62 @@
-import { Injectable, Logger } from '@nestjs/common';
+import { Injectable, Logger, BadRequestException, HttpException } from '@nestjs/common';
 import { IztroService } from '../../services/iztro/iztro.service';
 import { Tyme4tsService } from '../../services/tyme4ts/tyme4ts.service';
-import { CalculateZiweiDto } from '../../api/dto/ziwei.dto';
+import { PalaceLayoutService } from './palace-layout.service';
+import { BirthTimeService } from './birth-time.service';
+import { CalendarService } from '../calendar/calendar.service';
+import { CalculateZiweiDto, ZiweiTimelineDto } from '../../api/dto/ziwei.dto';
+import { CheckTransformationDto } from '../../api/dto/transformation.dto';
 import { 
   ZiweiChartResult, 
   Palace, 
   LuckPeriod, 
   FourPillars,
   StarInfo,
-  TransformationInfo
+  StarType,
+  TransformationInfo,
+  ZiweiStar
 } from '../../shared/types/ziwei.types';
+import {
+  PalaceFlyingTransformation,
+  PalaceTransformationCheckResult,
+  TransformationLayerResult,
+  TransformationLayerType,
+  TransformationType,
+  TransformedStar
+} from '../../shared/types/transformation.types';
+import { ZiweiTimelineResult } from '../../shared/types/timeline.types';
+import { PalaceLayout, PeriodPalace } from '../../shared/types/palace-layout.types';
+import {
+  BirthMoment,
+  SolarTimeCorrection,
+  TimeZoneAdjustment,
+  ZiHourConvention
+} from '../../shared/types/birth-time.types';
+import {
+  CHANGSHENG_START_BRANCH,
+  CHANGSHENG_STARS,
+  EARTHLY_BRANCHES,
+  PALACE_NAMES,
+  STAR_BRIGHTNESS,
+  STAR_METADATA,
+  STEM_TRANSFORMATIONS,
+  TRANSFORMATION_NAMES,
+  TRANSFORMATION_TYPES
+} from '../../shared/constants/ziwei.constants';
+import { getHourStem } from '../../shared/utils/ganzhi.utils';
 import { Solar, Lunar } from 'tyme4ts';
 
 @Injectable()
 export class ZiweiService {
   private readonly logger = new Logger(ZiweiService.name);
+  private readonly MAX_TIMELINE_YEARS = 120;
   
   constructor(
     private readonly iztroService: IztroService,
-    private readonly tyme4tsService: Tyme4tsService
+    private readonly tyme4tsService: Tyme4tsService,
+    private readonly palaceLayoutService: PalaceLayoutService,
+    private readonly birthTimeService: BirthTimeService,
+    private readonly calendarService: CalendarService
   ) {}
 
   /**
@@ -27,17 +65,34 @@ export class ZiweiService {
    * @returns 完整的紫微斗数星盘结果
    */
   async calculateZiweiChart(dto: CalculateZiweiDto): Promise<ZiweiChartResult> {
+    const { chart } = await this.calculateChartWithLayout(dto);
+    return chart;
+  }
+
+  /**
+   * 计算紫微斗数星盘，并返回排盘所用的宫位排布
+   * 出生时刻只解析一次，需要推算运限的调用方由此取得与星盘同源的宫位排布
+   * @param dto 包含出生信息的数据传输对象
+   * @returns 星盘结果及宫位排布
+   */
+  async calculateChartWithLayout(dto: CalculateZiweiDto): Promise<{ chart: ZiweiChartResult; layout: PalaceLayout }> {
     try {
       this.logger.log(`开始计算紫微斗数星盘: ${JSON.stringify(dto)}`);
       
-      // 1. 将输入日期转换为农历
-      const lunarDate = this.convertToLunarDate(dto.birthDate, dto.dateType);
+      // 0. 确定运限参考时间
+      const targetDate = this.resolveTargetDate(dto.targetDate, dto.targetTime);
+      
+      // 1. 将输入日期转换为农历，并换算时区、校正为真太阳时
+      const birth = this.resolveBirthMoment(dto);
+      const lunarDate = birth.lunarDate;
       
       // 2. 计算四柱八字
       const fourPillars = this.calculateFourPillars(
         lunarDate, 
-        dto.birthTime, 
-        dto.birthPlace
+        birth.hour, 
+        birth.minute, 
+        dto.birthPlace,
+        birth.lateZiHour
       );
       
       // 3. 获取生肖和星座
@@ -50,25 +105,36 @@ export class ZiweiService {
       // 4. 使用iztro计算紫微斗数星盘
       const ziweiData = this.iztroService.calculateZiweiChart({
         year: lunarDate.getYear(),
-        month: lunarDate.getMonth(),
+        month: Math.abs(lunarDate.getMonth()),
         day: lunarDate.getDay(),
-        hour: parseInt(dto.birthTime.split(':')[0]),
-        minute: parseInt(dto.birthTime.split(':')[1] || '0'),
+        isLeapMonth: lunarDate.getMonth() < 0,
+        hour: birth.hour,
+        minute: birth.minute,
         gender: dto.gender === 'male' ? 'man' : 'woman'
       });
       
-      // 5. 计算运限数据（大限、小限、流年等）
+      // 5. 排布十二宫干支，并计算运限数据（大限、小限、流年等）
+      const layout = this.palaceLayoutService.buildLayout(
+        lunarDate.getYear(),
+        lunarDate.getMonth(),
+        lunarDate.getDay(),
+        birth.hour,
+        dto.gender
+      );
       const luckPeriods = this.generateLuckPeriods(
         lunarDate, 
-        dto.gender, 
-        ziweiData.palaces
+        layout, 
+        ziweiData.palaces,
+        targetDate
       );
       
       // 6. 整理星耀信息
       const starsInfo = this.organizeStarInfo(ziweiData.palaces);
       
-      // 7. 计算四化信息
-      const transformations = this.calculateTransformations(fourPillars, ziweiData.palaces);
+      // 7. 计算四化信息及各宫宫干飞化，生年四化按农历年干起，与宫位排布同源
+      const transformations = this.calculateTransformations(layout.yearStem, fourPillars, ziweiData.palaces);
+      const flyingTransformations = this.calculateFlyingTransformations(layout, ziweiData.palaces);
+      const starDetails = this.buildStarDetails(layout, ziweiData.palaces);
       
       // 8. 整合结果并返回
       const result: ZiweiChartResult = {
@@ -79,6 +145,7 @@ export class ZiweiService {
           name: palace.name,
           position: palace.position,
           stars: palace.stars,
+          starDetails: starDetails[palace.name] || [],
           isVoid: palace.stars.length === 0,
           // 添加宫位的其他属性
           direction: this.getPalaceDirection(palace.position),
@@ -87,45 +154,171 @@ export class ZiweiService {
         luckPeriods,
         starsInfo,
         transformations,
+        flyingTransformations,
+        timeZone: birth.timeZone,
+        solarTime: birth.solarTime,
+        ziHour: birth.ziHour,
         calculationTime: new Date().toISOString()
       };
       
       this.logger.log('紫微斗数星盘计算完成');
-      return result;
+      return { chart: result, layout };
     } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
       this.logger.error('紫微斗数星盘计算失败', error.stack);
       throw new Error(`星盘计算失败: ${error.message}`);
     }
   }
   
+  /**
+   * 解析运限参考时间
+   * @param dateStr 参考日期 (YYYY-MM-DD)，为空时取当前时间
+   * @param timeStr 参考时间 (HH:MM)，为空时取 00:00
+   * @returns 参考时间
+   */
+  resolveTargetDate(dateStr?: string, timeStr?: string): Date {
+    if (!dateStr) {
+      return new Date();
+    }
+    
+    const dateMatch = /^(\d{4})-(\d{1,2})-(\d{1,2})$/.exec(dateStr);
+    const timeMatch = /^(\d{1,2}):(\d{1,2})$/.exec(timeStr || '00:00');
+    if (!dateMatch || !timeMatch) {
+      throw new BadRequestException(`运限参考时间格式错误: ${dateStr} ${timeStr || ''}`.trim());
+    }
+    
+    const [year, month, day] = dateMatch.slice(1).map(Number);
+    const [hour, minute] = timeMatch.slice(1).map(Number);
+    const targetDate = new Date(year, month - 1, day, hour, minute);
+    if (
+      targetDate.getMonth() !== month - 1 ||
+      targetDate.getDate() !== day ||
+      hour > 23 ||
+      minute > 59
+    ) {
+      throw new BadRequestException(`运限参考时间无效: ${dateStr} ${timeStr || ''}`.trim());
+    }
+    
+    return targetDate;
+  }
+  
+  /**
+   * 确定排盘使用的出生时刻
+   * 先统一换算为公历当地时间，按时区与夏令时换算为北京时间，再按出生地经度校正为真太阳时，
+   * 最后按子时换日方式确定排盘日期；四柱与星盘均使用同一结果
+   * @param dto 出生信息
+   * @returns 排盘使用的农历日期、时分、是否为不换日的晚子时、北京时间时刻、子时换日前的真太阳时时刻及换算说明
+   */
+  resolveBirthMoment(dto: CalculateZiweiDto): {
+    lunarDate: Lunar;
+    beijingMoment: BirthMoment;
+    solarMoment: BirthMoment;
+    hour: number;
+    minute: number;
+    lateZiHour: boolean;
+    timeZone: TimeZoneAdjustment;
+    solarTime: SolarTimeCorrection;
+    ziHour: ZiHourConvention;
+  } {
+    const solar = this.convertToLunarDate(dto.birthDate, dto.dateType, dto.isLeapMonth).getSolar();
+    const [hour, minute] = this.parseBirthTime(dto.birthTime);
+    
+    const beijing = this.birthTimeService.toBeijingTime(
+      {
+        year: solar.getYear(),
+        month: solar.getMonth(),
+        day: solar.getDay(),
+        hour,
+        minute
+      },
+      dto.timeZone
+    );
+    
+    const { moment: solarMoment, correction } = this.birthTimeService.toTrueSolarTime(
+      beijing.moment,
+      {
+        birthPlace: dto.birthPlace,
+        longitude: dto.longitude,
+        latitude: dto.latitude,
+        enabled: dto.trueSolarTime
+      }
+    );
+    
+    const { moment, ziHour } = this.birthTimeService.applyZiHourMode(solarMoment, dto.ziHourMode);
+    
+    return {
+      lunarDate: Solar.fromYmd(moment.year, moment.month, moment.day).getLunar(),
+      beijingMoment: beijing.moment,
+      solarMoment,
+      // 晚子时不换日时，四柱与星盘均按当日子时排布，时干另按次日日干起
+      hour: moment.hour === 23 ? 0 : moment.hour,
+      minute: moment.minute,
+      lateZiHour: ziHour.lateZiHour && !ziHour.dayShifted,
+      timeZone: beijing.adjustment,
+      solarTime: correction,
+      ziHour
+    };
+  }
+  
+  /**
+   * 解析出生时间
+   * @param timeStr 出生时间 (HH:MM)
+   * @returns 小时与分钟
+   */
+  private parseBirthTime(timeStr: string): [number, number] {
+    const match = /^(\d{1,2})(?::(\d{1,2}))?$/.exec(String(timeStr ?? '').trim());
+    if (!match) {
+      throw new BadRequestException(`出生时间格式错误: ${timeStr}`);
+    }
+    
+    const hour = Number(match[1]);
+    const minute = Number(match[2] || 0);
+    if (hour > 23 || minute > 59) {
+      throw new BadRequestException(`出生时间无效: ${timeStr}`);
+    }
+    
+    return [hour, minute];
+  }
+  
   /**
    * 将输入日期转换为农历日期
    * @param dateStr 日期字符串 (YYYY-MM-DD)
    * @param dateType 日期类型 (solar/lunar)
+   * @param isLeapMonth 农历日期是否为闰月
    * @returns 农历日期对象
    */
-  private convertToLunarDate(dateStr: string, dateType: string): Lunar {
-    const [year, month, day] = dateStr.split('-').map(Number);
+  private convertToLunarDate(dateStr: string, dateType: string, isLeapMonth?: boolean): Lunar {
+    const [year, month, day] = this.calendarService.parseDate(dateStr, '出生日期');
     if (dateType === 'solar') {
-      return Solar.fromYmd(year, month, day).getLunar();
-    } else {
-      return Lunar.fromYmd(year, month, day);
+      if (isLeapMonth) {
+        throw new BadRequestException('isLeapMonth 仅适用于农历日期');
+      }
+      return this.calendarService.fromSolar(year, month, day);
     }
+    
+    return this.calendarService.fromLunar(year, month, day, isLeapMonth);
   }
   
   /**
    * 计算四柱八字
    * @param lunarDate 农历日期
-   * @param birthTime 出生时间 (HH:MM)
+   * @param hour 出生小时（真太阳时）
+   * @param minute 出生分钟（真太阳时）
    * @param birthPlace 出生地点
+   * @param lateZiHour 是否为不换日的晚子时，是则日柱取当日、时干按次日日干起
    * @returns 四柱八字信息
    */
-  private calculateFourPillars(lunarDate: Lunar, birthTime: string, birthPlace: string): FourPillars {
+  calculateFourPillars(
+    lunarDate: Lunar,
+    hour: number,
+    minute: number,
+    birthPlace: string,
+    lateZiHour = false
+  ): FourPillars {
     // 使用tyme4ts计算四柱
-    const hour = parseInt(birthTime.split(':')[0]);
-    const minute = parseInt(birthTime.split(':')[1] || '0');
-    
-    return this.tyme4tsService.calculateFourPillars(
+    const fourPillars = this.tyme4tsService.calculateFourPillars(
       lunarDate.getYear(),
       lunarDate.getMonth(),
       lunarDate.getDay(),
@@ -133,16 +326,26 @@ export class ZiweiService {
       minute,
       birthPlace
     );
+    if (!lateZiHour) {
+      return fourPillars;
+    }
+
+    return {
+      ...fourPillars,
+      hour: { stem: getHourStem(fourPillars.day.stem, '子', true), branch: '子' }
+    };
   }
   
   /**
    * 生成运限数据（大限、小限、流年等）
+   * 大限、小限与流年按宫位排布推算，与运限时间线、四化判断及命盘绘制同源，虚岁按参考时间所在农历年计
    * @param lunarDate 农历出生日期
-   * @param gender 性别
+   * @param layout 宫位排布
    * @param palaces 宫位信息
+   * @param targetDate 运限参考时间
    * @returns 运限数据对象
    */
-  private generateLuckPeriods(lunarDate: Lunar, gender: string, palaces: Palace[]): {
+  private generateLuckPeriods(lunarDate: Lunar, layout: PalaceLayout, palaces: Palace[], targetDate: Date): {
     major: LuckPeriod[];
     minor: LuckPeriod;
     annual: LuckPeriod;
@@ -150,55 +353,43 @@ export class ZiweiService {
     daily: LuckPeriod;
     hourly: LuckPeriod;
   } {
-    // 计算当前年份
-    const currentYear = new Date().getFullYear();
-    const birthYear = lunarDate.getYear();
-    const age = currentYear - birthYear;
+    // 计算参考年份及虚岁
+    const currentYear = targetDate.getFullYear();
+    const targetYear = Solar.fromDate(targetDate).getLunar().getYear();
+    const age = this.palaceLayoutService.getNominalAge(layout.birthYear, targetYear);
     
     // 计算大限
-    const majorPeriods = this.iztroService.calculateMajorPeriods(
-      lunarDate, 
-      gender === 'male' ? 'man' : 'woman'
-    );
-    
-    // 计算当前大限
-    const currentMajor = majorPeriods.find(period => 
-      age >= period.startAge && age < period.endAge
-    ) || majorPeriods[0];
+    const majorPeriods = this.palaceLayoutService.getDecadePalaces(layout).map(decade => this.toLuckPeriod(decade));
     
     // 计算小限
-    const minorPeriod = this.iztroService.calculateMinorPeriod(
-      lunarDate, 
-      gender === 'male' ? 'man' : 'woman',
-      currentYear
-    );
+    const minorPeriod = this.toLuckPeriod(this.palaceLayoutService.getMinorPalace(layout, age));
     
     // 计算流年
-    const annualPeriod = this.iztroService.calculateAnnualPeriod(
-      lunarDate, 
-      currentYear,
-      palaces
-    );
+    const annualPeriod = this.toLuckPeriod({
+      ...this.palaceLayoutService.getAnnualPalace(layout, targetYear),
+      startAge: age,
+      endAge: age
+    });
     
     // 计算流月
     const monthlyPeriod = this.iztroService.calculateMonthlyPeriod(
       lunarDate, 
       currentYear,
-      new Date().getMonth() + 1,
+      targetDate.getMonth() + 1,
       palaces
     );
     
     // 计算流日
     const dailyPeriod = this.iztroService.calculateDailyPeriod(
       lunarDate, 
-      new Date(),
+      targetDate,
       palaces
     );
     
     // 计算流时
     const hourlyPeriod = this.iztroService.calculateHourlyPeriod(
       lunarDate, 
-      new Date(),
+      targetDate,
       palaces
     );
     
@@ -212,6 +403,21 @@ export class ZiweiService {
     };
   }
   
+  /**
+   * 将运限宫位转换为运限数据
+   * @param period 运限宫位
+   * @returns 运限数据
+   */
+  private toLuckPeriod(period: PeriodPalace): LuckPeriod {
+    return {
+      palace: period.name,
+      startAge: period.startAge,
+      endAge: period.endAge,
+      stem: period.stem,
+      branch: period.branch
+    };
+  }
+  
   /**
    * 组织星耀信息
    * @param palaces 宫位信息数组
@@ -244,15 +450,80 @@ export class ZiweiService {
     };
   }
   
+  /**
+   * 整理各宫星曜详细信息：类别、亮度、五行阴阳及生年四化，并安长生十二神
+   * @param layout 宫位排布
+   * @param palaces 宫位信息数组
+   * @returns 以宫位名称为键的星曜详细信息
+   */
+  private buildStarDetails(layout: PalaceLayout, palaces: Palace[]): Record<string, ZiweiStar[]> {
+    const natal = STEM_TRANSFORMATIONS[layout.yearStem];
+
+    // 长生十二神自五行局长生位起，阳男阴女顺行，阴男阳女逆行
+    const startIndex = EARTHLY_BRANCHES.indexOf(CHANGSHENG_START_BRANCH[layout.bureau.number]);
+    const step = layout.forward ? 1 : -1;
+    const changshengByBranch: Record<string, string> = {};
+    CHANGSHENG_STARS.forEach((star, i) => {
+      changshengByBranch[EARTHLY_BRANCHES[(startIndex + step * i + 12) % 12]] = star;
+    });
+
+    const details: Record<string, ZiweiStar[]> = {};
+    layout.palaces.forEach(layoutPalace => {
+      const palace = palaces.find(p => p.name === layoutPalace.name);
+      const branchIndex = EARTHLY_BRANCHES.indexOf(layoutPalace.branch);
+      const changsheng = changshengByBranch[layoutPalace.branch];
+      const stars = palace ? [...palace.stars] : [];
+      if (!stars.includes(changsheng)) {
+        stars.push(changsheng);
+      }
+
+      details[layoutPalace.name] = stars.map(star => {
+        const metadata = STAR_METADATA[star];
+        const transformationIndex = natal.indexOf(star);
+        const transformation = transformationIndex >= 0 ? TRANSFORMATION_TYPES[transformationIndex] : null;
+        return {
+          name: star,
+          type: star === changsheng ? 'changsheng' : metadata?.type || this.getStarType(star),
+          brightness: STAR_BRIGHTNESS[star]?.[branchIndex] || null,
+          fiveElement: metadata?.fiveElement ?? null,
+          yinYang: metadata?.yinYang ?? null,
+          transformation,
+          transformationName: transformation ? TRANSFORMATION_NAMES[transformation] : null
+        };
+      });
+    });
+
+    return details;
+  }
+
+  /**
+   * 按 iztro 分类判断未收录星曜的类别
+   * @param star 星曜名称
+   * @returns 星曜类别
+   */
+  private getStarType(star: string): StarType {
+    if (this.iztroService.isMainStar(star)) {
+      return 'main';
+    }
+    if (this.iztroService.isLuckyStar(star)) {
+      return 'lucky';
+    }
+    if (this.iztroService.isEvilStar(star)) {
+      return 'evil';
+    }
+    return 'minor';
+  }
+
   /**
    * 计算四化信息
+   * @param yearStem 生年天干（农历年干，与宫位排布一致）
    * @param fourPillars 四柱八字
    * @param palaces 宫位信息
    * @returns 四化信息对象
    */
-  private calculateTransformations(fourPillars: FourPillars, palaces: Palace[]): TransformationInfo {
-    // 根据年干计算四化
-    const yearStemTransformations = this.iztroService.getTransformationsByStem(fourPillars.year.stem);
+  private calculateTransformations(yearStem: string, fourPillars: FourPillars, palaces: Palace[]): TransformationInfo {
+    // 根据生年天干计算四化
+    const yearStemTransformations = this.iztroService.getTransformationsByStem(yearStem);
     
     // 根据日干计算四化
     const dayStemTransformations = this.iztroService.getTransformationsByStem(fourPillars.day.stem);
@@ -265,7 +536,7 @@ export class ZiweiService {
     
     return {
       yearStem: {
-        stem: fourPillars.year.stem,
+        stem: yearStem,
         transformations: yearStemTransformations
       },
       dayStem: {
@@ -291,52 +562,203 @@ export class ZiweiService {
   }
   
   /**
-   * 判断指定宫位是否存在四化
-   * @param palaceName 宫位名称
-   * @param transformationType 四化类型
+   * 判断指定宫位三方四正是否存在四化
+   * 按实际星盘分别检查本命、大限和流年三个层次，运限以参考日期为准
+   * @param dto 包含出生信息、目标宫位和四化类型的数据传输对象
    * @returns 判断结果
    */
-  async checkPalaceTransformation(
-    palaceName: string,
-    transformationType: 'huaquan' | 'huake' | 'huaxing' | 'huaji'
-  ): Promise<{
-    exists: boolean;
-    details: Array<{
-      palace: string;
-      star: string;
-      transformation: string;
-    }>;
-  }> {
+  async checkPalaceTransformation(dto: CheckTransformationDto): Promise<PalaceTransformationCheckResult> {
+    if (!TRANSFORMATION_TYPES.includes(dto.transformationType)) {
+      throw new BadRequestException(`不支持的四化类型: ${dto.transformationType}`);
+    }
+    if (!PALACE_NAMES.includes(dto.palaceName)) {
+      throw new BadRequestException(`未知宫位: ${dto.palaceName}`);
+    }
+
     // 获取宫位三方四正
-    const { allRelatedPalaces } = await this.getTripleSquarePalaces(palaceName);
-    
-    // 模拟获取当前星盘数据（实际应用中应从缓存或重新计算获取）
-    // 这里简化处理，实际应传入具体的星盘数据
-    const mockPalaces = [
-      { name: '命宫', stars: ['紫微', '天府'] },
-      { name: '兄弟宫', stars: ['天机'] },
-      { name: '夫妻宫', stars: ['太阳', '太阴'] },
-      // ...其他宫位
-    ];
-    
-    // 检查这些宫位中是否存在指定类型的四化
-    const details = [];
-    for (const palace of mockPalaces) {
-      if (allRelatedPalaces.includes(palace.name)) {
-        for (const star of palace.stars) {
-          const transformation = this.iztroService.getStarTransformation(star);
-          if (transformation && transformation.type === transformationType) {
-            details.push({
-              palace: palace.name,
-              star,
-              transformation: transformation.name
-            });
-          }
+    const { allRelatedPalaces } = await this.getTripleSquarePalaces(dto.palaceName);
+
+    // 计算实际星盘与宫位排布
+    const { chart, layout } = await this.calculateChartWithLayout(dto);
+
+    // 确定参考日期所在的大限与流年
+    const targetDate = this.resolveTargetDate(dto.targetDate, dto.targetTime);
+    const targetYear = Solar.fromDate(targetDate).getLunar().getYear();
+    const age = this.palaceLayoutService.getNominalAge(layout.birthYear, targetYear);
+    const decadePalace = this.palaceLayoutService.getDecadePalace(layout, age);
+    const annualPalace = this.palaceLayoutService.getAnnualPalace(layout, targetYear);
+
+    const natal = this.checkLayerTransformation(
+      'natal', layout.yearStem, dto.transformationType, chart.palaces, allRelatedPalaces
+    );
+    const decade = decadePalace
+      ? {
+          ...this.checkLayerTransformation(
+            'decade', decadePalace.stem, dto.transformationType, chart.palaces, allRelatedPalaces
+          ),
+          palace: decadePalace.name,
+          period: `${decadePalace.startAge}-${decadePalace.endAge}岁`
         }
-      }
+      : null;
+    const annual = {
+      ...this.checkLayerTransformation(
+        'annual',
+        this.palaceLayoutService.getYearStemBranch(targetYear).stem,
+        dto.transformationType,
+        chart.palaces,
+        allRelatedPalaces
+      ),
+      palace: annualPalace.name,
+      period: `${targetYear}年`
+    };
+
+    return {
+      palaceName: dto.palaceName,
+      transformationType: dto.transformationType,
+      transformationName: TRANSFORMATION_NAMES[dto.transformationType],
+      relatedPalaces: allRelatedPalaces,
+      exists: natal.exists || !!decade?.exists || annual.exists,
+      natal,
+      decade,
+      annual
+    };
+  }
+
+  /**
+   * 计算运限时间线
+   * 列出全部大限及其宫干四化，并逐年给出流年命宫、流年四化和小限宫位
+   * @param dto 包含出生信息和年份范围的数据传输对象
+   * @returns 运限时间线
+   */
+  async calculateTimeline(dto: ZiweiTimelineDto): Promise<ZiweiTimelineResult> {
+    const startYear = Number(dto.startYear);
+    const endYear = Number(dto.endYear);
+    if (!Number.isInteger(startYear) || !Number.isInteger(endYear) || startYear > endYear) {
+      throw new BadRequestException(`年份范围无效: ${dto.startYear}-${dto.endYear}`);
     }
-    
+    if (endYear - startYear >= this.MAX_TIMELINE_YEARS) {
+      throw new BadRequestException(`年份范围不能超过${this.MAX_TIMELINE_YEARS}年`);
+    }
+
+    // 星盘只计算一次，各年运限均由宫位排布推得
+    const { chart, layout } = await this.calculateChartWithLayout(dto);
+    if (startYear < layout.birthYear) {
+      throw new BadRequestException(`起始年份不能早于出生年份: ${layout.birthYear}`);
+    }
+
+    const decades = this.palaceLayoutService.getDecadePalaces(layout).map(decade => ({
+      name: decade.name,
+      stem: decade.stem,
+      branch: decade.branch,
+      startAge: decade.startAge,
+      endAge: decade.endAge,
+      startYear: layout.birthYear + decade.startAge - 1,
+      endYear: layout.birthYear + decade.endAge - 1,
+      transformations: this.getStemTransformations(decade.stem, chart.palaces)
+    }));
+
+    const years = [];
+    for (let year = startYear; year <= endYear; year++) {
+      const age = this.palaceLayoutService.getNominalAge(layout.birthYear, year);
+      const { stem, branch } = this.palaceLayoutService.getYearStemBranch(year);
+      const decade = this.palaceLayoutService.getDecadePalace(layout, age);
+      const { name, stem: minorStem, branch: minorBranch } = this.palaceLayoutService.getMinorPalace(layout, age);
+
+      years.push({
+        year,
+        ganzhi: `${stem}${branch}`,
+        age,
+        decadePalace: decade ? decade.name : null,
+        annualPalace: this.palaceLayoutService.getAnnualPalace(layout, year),
+        minorPalace: { name, stem: minorStem, branch: minorBranch },
+        transformations: this.getStemTransformations(stem, chart.palaces)
+      });
+    }
+
+    return {
+      birthYear: layout.birthYear,
+      bureau: layout.bureau.name,
+      forward: layout.forward,
+      decades,
+      years
+    };
+  }
+
+  /**
+   * 获取天干四化星及其本命落宫
+   * @param stem 起四化的天干
+   * @param palaces 星盘宫位
+   * @returns 禄权科忌四颗四化星
+   */
+  getStemTransformations(stem: string, palaces: Palace[]): TransformedStar[] {
+    return STEM_TRANSFORMATIONS[stem].map((star, i) => {
+      const type = TRANSFORMATION_TYPES[i];
+      const palace = palaces.find(p => p.stars.includes(star));
+      return {
+        type,
+        name: TRANSFORMATION_NAMES[type],
+        star,
+        palace: palace ? palace.name : null
+      };
+    });
+  }
+
+  /**
+   * 计算各宫宫干飞化
+   * 宫干所化之星在本宫为离心自化，对宫宫干所化之星在本宫为向心自化
+   * @param layout 宫位排布
+   * @param palaces 星盘宫位
+   * @returns 各宫飞化信息，顺序同 PALACE_NAMES
+   */
+  private calculateFlyingTransformations(layout: PalaceLayout, palaces: Palace[]): PalaceFlyingTransformation[] {
+    const flying = layout.palaces.map(palace => ({
+      palace,
+      transformations: this.getStemTransformations(palace.stem, palaces)
+    }));
+
+    return flying.map(({ palace, transformations }) => {
+      const oppositeBranch = EARTHLY_BRANCHES[(EARTHLY_BRANCHES.indexOf(palace.branch) + 6) % 12];
+      const opposite = flying.find(item => item.palace.branch === oppositeBranch) as (typeof flying)[number];
+      return {
+        palace: palace.name,
+        stem: palace.stem,
+        branch: palace.branch,
+        oppositePalace: opposite.palace.name,
+        transformations,
+        outwardSelfTransformations: transformations.filter(star => star.palace === palace.name),
+        inwardSelfTransformations: opposite.transformations.filter(star => star.palace === palace.name)
+      };
+    });
+  }
+
+  /**
+   * 检查单一运限层次的四化是否落入指定宫位
+   * @param layer 运限层次
+   * @param stem 起四化的天干
+   * @param transformationType 四化类型
+   * @param palaces 星盘宫位
+   * @param relatedPalaces 需要检查的宫位名称
+   * @returns 该层次的判断结果
+   */
+  private checkLayerTransformation(
+    layer: TransformationLayerType,
+    stem: string,
+    transformationType: TransformationType,
+    palaces: Palace[],
+    relatedPalaces: string[]
+  ): TransformationLayerResult {
+    const star = STEM_TRANSFORMATIONS[stem][TRANSFORMATION_TYPES.indexOf(transformationType)];
+    const details = palaces
+      .filter(palace => relatedPalaces.includes(palace.name) && palace.stars.includes(star))
+      .map(palace => ({
+        palace: palace.name,
+        star,
+        transformation: TRANSFORMATION_NAMES[transformationType]
+      }));
+
     return {
+      layer,
+      stem,
       exists: details.length > 0,
       details
     };
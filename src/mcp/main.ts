@@ -0,0 +1,27 @@
+import { NestFactory } from '@nestjs/core';
+import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import { AppModule } from '../app.module';
+import { McpService } from './mcp.service';
+
+/**
+ * MCP stdio 入口
+ * stdout 专用于协议消息，因此仅输出错误日志（写入 stderr）
+ */
+async function bootstrap(): Promise<void> {
+  const app = await NestFactory.createApplicationContext(AppModule, {
+    logger: ['error']
+  });
+
+  const server = app.get(McpService).createServer();
+  await server.connect(new StdioServerTransport());
+
+  const shutdown = async () => {
+    await server.close();
+    await app.close();
+    process.exit(0);
+  };
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+}
+
+bootstrap();
@@ -0,0 +1,234 @@
+import { z } from 'zod/v4';
+import { TRANSFORMATION_TYPES, ZI_HOUR_MODES } from '../shared/constants/ziwei.constants';
+import { COMPATIBILITY_RELATIONSHIPS } from '../shared/constants/compatibility.constants';
+import { CONTEXT_DETAIL_LEVELS, CONTEXT_FORMATS, CONTEXT_MIN_TOKENS } from '../shared/constants/chart.constants';
+
+/**
+ * MCP工具输入参数定义
+ * 与REST接口的DTO保持一致，由MCP SDK自动转换为JSON Schema
+ */
+
+/**
+ * 出生信息参数（对应 CalculateZiweiDto）
+ */
+export const birthInputShape = {
+  birthDate: z
+    .string()
+    .regex(/^\d{4}-\d{1,2}-\d{1,2}$/, '日期格式应为 YYYY-MM-DD')
+    .describe('出生日期 (YYYY-MM-DD)'),
+  birthTime: z
+    .string()
+    .regex(/^\d{1,2}(:\d{1,2})?$/, '时间格式应为 HH:MM')
+    .describe('出生时间 (HH:MM，24小时制)'),
+  timeZone: z
+    .string()
+    .optional()
+    .describe('出生时间所用时区，IANA名称或UTC偏移，默认为 Asia/Shanghai（含1986-1991年夏令时）'),
+  birthPlace: z.string().describe('出生地点，用于查找经度做真太阳时校正'),
+  longitude: z.number().min(-180).max(180).optional().describe('出生地经度（东经为正），优先于出生地点'),
+  latitude: z.number().min(-90).max(90).optional().describe('出生地纬度（北纬为正）'),
+  trueSolarTime: z.boolean().optional().describe('是否按真太阳时校正出生时间，默认为 true'),
+  gender: z.enum(['male', 'female']).describe('性别'),
+  dateType: z.enum(['solar', 'lunar']).describe('日期类型：solar 公历 / lunar 农历'),
+  isLeapMonth: z.boolean().optional().describe('农历出生日期是否为闰月，仅 dateType 为 lunar 时有效'),
+  ziHourMode: z
+    .enum(ZI_HOUR_MODES)
+    .optional()
+    .describe('子时换日方式：switchAt23 为23点起算次日（默认），switchAt0 为0点换日'),
+  targetDate: z
+    .string()
+    .regex(/^\d{4}-\d{1,2}-\d{1,2}$/, '日期格式应为 YYYY-MM-DD')
+    .optional()
+    .describe('运限参考日期 (YYYY-MM-DD，公历)，默认为当前日期'),
+  targetTime: z
+    .string()
+    .regex(/^\d{1,2}:\d{1,2}$/, '时间格式应为 HH:MM')
+    .optional()
+    .describe('运限参考时间 (HH:MM)，默认为 00:00')
+};
+
+/**
+ * 命盘输入参数：出生信息或已保存命盘的 chartId（对应含 chartId 的 CalculateZiweiDto）
+ */
+export const chartInputShape = {
+  ...birthInputShape,
+  chartId: z
+    .string()
+    .optional()
+    .describe('已保存命盘的标识或档案名（见 saveChart），提供时使用保存的出生信息，可省略出生信息字段'),
+  birthDate: birthInputShape.birthDate.optional(),
+  birthTime: birthInputShape.birthTime.optional(),
+  birthPlace: birthInputShape.birthPlace.optional(),
+  gender: birthInputShape.gender.optional(),
+  dateType: birthInputShape.dateType.optional()
+};
+
+/**
+ * 运限时间线参数（对应 ZiweiTimelineDto）
+ */
+export const timelineShape = {
+  ...chartInputShape,
+  startYear: z.number().int().describe('起始农历年'),
+  endYear: z.number().int().describe('结束农历年（含），范围不超过120年')
+};
+
+/**
+ * 合盘参数（对应 CompatibilityDto）
+ */
+export const compatibilityShape = {
+  personA: z.object(chartInputShape).describe('甲方出生信息或 chartId'),
+  personB: z.object(chartInputShape).describe('乙方出生信息或 chartId'),
+  relationship: z
+    .enum(COMPATIBILITY_RELATIONSHIPS)
+    .optional()
+    .describe('关系类型：couple 伴侣（默认）/ business 合作伙伴')
+};
+
+/**
+ * 命盘文本导出参数（对应 ChartContextDto）
+ */
+export const chartContextShape = {
+  ...chartInputShape,
+  format: z.enum(CONTEXT_FORMATS).optional().describe('导出格式：text 纯文本（默认）/ markdown'),
+  detail: z
+    .enum(CONTEXT_DETAIL_LEVELS)
+    .optional()
+    .describe('详略：summary 仅命宫三方四正主星，standard 十二宫主辅煞星（默认），full 另含杂曜、长生十二神与宫干自化'),
+  maxTokens: z.number().int().min(CONTEXT_MIN_TOKENS).optional().describe('token 预算，超出时自末节起截断或省略')
+};
+
+/**
+ * 八字排盘参数（对应 CalculateBaziDto）
+ */
+export const baziShape = {
+  ...chartInputShape,
+  annualStartYear: z.number().int().optional().describe('流年起始公历年，默认为参考日期所在大运的起始年'),
+  annualEndYear: z.number().int().optional().describe('流年结束公历年（含），默认为参考日期所在大运的结束年')
+};
+
+/**
+ * 宫位名称参数
+ */
+export const palaceNameShape = {
+  palaceName: z.string().describe('宫位名称，如：命宫、夫妻宫、官禄宫')
+};
+
+/**
+ * 宫位四化判断参数（对应 CheckTransformationDto）
+ */
+export const palaceTransformationShape = {
+  ...chartInputShape,
+  ...palaceNameShape,
+  transformationType: z
+    .enum(TRANSFORMATION_TYPES)
+    .describe('四化类型：hualu 化禄 / huaquan 化权 / huake 化科 / huaji 化忌')
+};
+
+/**
+ * 单日查询参数（对应 GetAlmanacDto）
+ */
+export const almanacDateShape = {
+  date: z
+    .string()
+    .regex(/^\d{4}-\d{1,2}-\d{1,2}$/, '日期格式应为 YYYY-MM-DD')
+    .describe('公历日期 (YYYY-MM-DD)')
+};
+
+/**
+ * 年月查询参数
+ */
+export const yearMonthShape = {
+  year: z.number().int().describe('公历年份'),
+  month: z.number().int().min(1).max(12).describe('公历月份 (1-12)')
+};
+
+/**
+ * 年份查询参数
+ */
+export const yearShape = {
+  year: z.number().int().describe('公历年份')
+};
+
+/**
+ * 择日参数（对应 SelectDatesDto）
+ */
+export const selectDatesShape = {
+  activity: z.string().describe('择日事项，如嫁娶、开业、入宅、动土、出行'),
+  startDate: z
+    .string()
+    .regex(/^\d{4}-\d{1,2}-\d{1,2}$/, '日期格式应为 YYYY-MM-DD')
+    .describe('起始日期 (YYYY-MM-DD，公历)'),
+  endDate: z
+    .string()
+    .regex(/^\d{4}-\d{1,2}-\d{1,2}$/, '日期格式应为 YYYY-MM-DD')
+    .describe('结束日期 (YYYY-MM-DD，公历，含)，范围不超过366天'),
+  participants: z
+    .array(
+      z.object({
+        name: z.string().optional().describe('参与者名称'),
+        birthDate: z
+          .string()
+          .regex(/^\d{4}-\d{1,2}-\d{1,2}$/, '日期格式应为 YYYY-MM-DD')
+          .describe('公历出生日期 (YYYY-MM-DD)')
+      })
+    )
+    .optional()
+    .describe('参与者出生信息，用于排除与其年支、日支相冲刑害的日子'),
+  limit: z.number().int().min(1).max(100).optional().describe('返回候选日数量，默认10')
+};
+
+/**
+ * 公历农历互换参数（对应 ConvertDateDto）
+ */
+export const convertDateShape = {
+  date: z
+    .string()
+    .regex(/^\d{4}-\d{1,2}-\d{1,2}$/, '日期格式应为 YYYY-MM-DD')
+    .describe('日期 (YYYY-MM-DD)'),
+  from: z.enum(['solar', 'lunar']).describe('输入日期类型：solar 公历转农历 / lunar 农历转公历'),
+  isLeapMonth: z.boolean().optional().describe('农历日期是否为闰月（仅 from 为 lunar 时有效）')
+};
+
+/**
+ * 按日柱反查参数（对应 DayPillarLookupDto）
+ */
+export const dayPillarLookupShape = {
+  ganzhi: z.string().length(2).describe('日柱干支，如甲子'),
+  startYear: z.number().int().min(1900).max(2100).optional().describe('起始公历年，默认1900'),
+  endYear: z.number().int().min(1900).max(2100).optional().describe('结束公历年（含），默认2100')
+};
+
+/**
+ * 按农历月日反查参数（对应 LunarDateLookupDto）
+ */
+export const lunarDateLookupShape = {
+  month: z.number().int().min(1).max(12).describe('农历月 (1-12)'),
+  day: z.number().int().min(1).max(30).describe('农历日 (1-30)'),
+  isLeapMonth: z.boolean().optional().describe('是否为闰月'),
+  startYear: z.number().int().min(1900).max(2100).describe('起始农历年'),
+  endYear: z.number().int().min(1900).max(2100).describe('结束农历年（含）')
+};
+
+/**
+ * 保存命盘参数（对应 SaveChartDto）
+ */
+export const saveChartShape = {
+  ...birthInputShape,
+  profile: z.string().optional().describe('档案名，唯一，可代替命盘标识作为 chartId 使用，如 me、spouse'),
+  name: z.string().optional().describe('备注名称')
+};
+
+/**
+ * 命盘标识参数
+ */
+export const chartIdShape = {
+  chartId: z.string().describe('命盘标识或档案名')
+};
+
+/**
+ * 更新命盘参数
+ */
+export const updateChartShape = {
+  ...chartIdShape,
+  ...saveChartShape
+};
@@ -0,0 +1,511 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js';
+import { CallToolResult, ServerNotification, ServerRequest } from '@modelcontextprotocol/sdk/types.js';
+import { ZiweiService } from '../core/ziwei/ziwei.service';
+import { CompatibilityService } from '../core/ziwei/compatibility.service';
+import { ChartContextService } from '../core/ziwei/chart-context.service';
+import { PatternService } from '../core/ziwei/pattern.service';
+import { AlmanacService } from '../core/almanac/almanac.service';
+import { DateSelectionService } from '../core/almanac/date-selection.service';
+import { CalendarService } from '../core/calendar/calendar.service';
+import { BaziService } from '../core/bazi/bazi.service';
+import { AiAnalysisService } from '../core/ai/ai-analysis.service';
+import { AiNarrativeService } from '../core/ai/ai-narrative.service';
+import { AiAnalysisStreamService } from '../core/ai/ai-analysis-stream.service';
+import { ChartStorageService } from '../core/storage/chart-storage.service';
+import { CalculateZiweiDto } from '../api/dto/ziwei.dto';
+import {
+  chartInputShape,
+  timelineShape,
+  baziShape,
+  compatibilityShape,
+  chartContextShape,
+  palaceNameShape,
+  palaceTransformationShape,
+  almanacDateShape,
+  yearMonthShape,
+  yearShape,
+  selectDatesShape,
+  convertDateShape,
+  dayPillarLookupShape,
+  lunarDateLookupShape,
+  saveChartShape,
+  chartIdShape,
+  updateChartShape
+} from './mcp.schemas';
+
+/**
+ * MCP服务
+ * 将紫微斗数、黄历、AI命理分析和命盘存储能力注册为MCP工具
+ */
+@Injectable()
+export class McpService {
+  private readonly logger = new Logger(McpService.name);
+  private readonly SERVER_NAME = 'lunar-ziwei-mcp';
+  private readonly SERVER_VERSION = '1.0.0';
+
+  constructor(
+    private readonly ziweiService: ZiweiService,
+    private readonly compatibilityService: CompatibilityService,
+    private readonly chartContextService: ChartContextService,
+    private readonly patternService: PatternService,
+    private readonly almanacService: AlmanacService,
+    private readonly dateSelectionService: DateSelectionService,
+    private readonly calendarService: CalendarService,
+    private readonly baziService: BaziService,
+    private readonly aiAnalysisService: AiAnalysisService,
+    private readonly aiNarrativeService: AiNarrativeService,
+    private readonly aiAnalysisStreamService: AiAnalysisStreamService,
+    private readonly chartStorageService: ChartStorageService
+  ) {}
+
+  /**
+   * 创建并注册全部工具的MCP Server实例
+   * 每个传输连接（stdio进程或无状态HTTP请求）使用独立实例
+   * @returns MCP Server实例
+   */
+  createServer(): McpServer {
+    const server = new McpServer({
+      name: this.SERVER_NAME,
+      version: this.SERVER_VERSION
+    });
+
+    this.registerZiweiTools(server);
+    this.registerAlmanacTools(server);
+    this.registerCalendarTools(server);
+    this.registerBaziTools(server);
+    this.registerAiAnalysisTools(server);
+    this.registerChartStorageTools(server);
+
+    return server;
+  }
+
+  /**
+   * 注册紫微斗数相关工具
+   * @param server MCP Server实例
+   */
+  private registerZiweiTools(server: McpServer): void {
+    server.registerTool(
+      'calculateZiweiChart',
+      {
+        title: '计算紫微斗数星盘',
+        description: '根据出生信息计算完整的紫微斗数12宫星盘数据、运限信息和星耀分析，可指定运限参考日期',
+        inputSchema: chartInputShape
+      },
+      args => this.execute('calculateZiweiChart', async () =>
+        this.ziweiService.calculateZiweiChart(await this.chartStorageService.resolveInput(args))
+      )
+    );
+
+    server.registerTool(
+      'calculateTimeline',
+      {
+        title: '获取运限时间线',
+        description: '列出全部大限的宫位与宫干四化，并给出指定年份范围内每年的流年命宫、流年四化和小限宫位',
+        inputSchema: timelineShape
+      },
+      args => this.execute('calculateTimeline', async () =>
+        this.ziweiService.calculateTimeline(await this.chartStorageService.resolveInput(args))
+      )
+    );
+
+    server.registerTool(
+      'analyzeCompatibility',
+      {
+        title: '合盘分析',
+        description: '比较两人的星盘与四柱：星曜互叠、生年四化互飞、年支日支合冲刑害及五行互补，返回总分与分项得分',
+        inputSchema: compatibilityShape
+      },
+      args => this.execute('analyzeCompatibility', async () =>
+        this.compatibilityService.analyzeCompatibility({
+          ...args,
+          personA: await this.chartStorageService.resolveInput(args.personA),
+          personB: await this.chartStorageService.resolveInput(args.personB)
+        })
+      )
+    );
+
+    server.registerTool(
+      'exportChartContext',
+      {
+        title: '导出命盘文本',
+        description: '将星盘整理为可直接放入大模型提示词的纯文本或 Markdown（四柱、生年四化、当前大限流年、各宫星曜），可选详略与 token 预算',
+        inputSchema: chartContextShape
+      },
+      args => this.execute('exportChartContext', async () =>
+        this.chartContextService.exportContext(await this.chartStorageService.resolveInput(args))
+      )
+    );
+
+    server.registerTool(
+      'analyzePatterns',
+      {
+        title: '格局分析',
+        description: '按规则库检查星盘中的星曜组合（紫府同宫、机月同梁、杀破狼、火贪格、羊陀夹忌、禄马交驰等），返回成立的格局、成格宫位、构成星曜与断语',
+        inputSchema: chartInputShape
+      },
+      args => this.execute('analyzePatterns', async () =>
+        this.patternService.analyzePatterns(await this.chartStorageService.resolveInput(args))
+      )
+    );
+
+    server.registerTool(
+      'getTripleSquarePalaces',
+      {
+        title: '获取指定宫位的三方四正',
+        description: '根据宫位名称查询其三方四正宫位信息',
+        inputSchema: palaceNameShape
+      },
+      args => this.execute('getTripleSquarePalaces', () =>
+        this.ziweiService.getTripleSquarePalaces(args.palaceName)
+      )
+    );
+
+    server.registerTool(
+      'checkPalaceTransformation',
+      {
+        title: '判断宫位是否存在四化',
+        description: '根据出生信息计算星盘，分别检查本命、大限和流年（以参考日期为准）的四化是否落入指定宫位的三方四正',
+        inputSchema: palaceTransformationShape
+      },
+      args => this.execute('checkPalaceTransformation', async () =>
+        this.ziweiService.checkPalaceTransformation(await this.chartStorageService.resolveInput(args))
+      )
+    );
+  }
+
+  /**
+   * 注册黄历相关工具
+   * @param server MCP Server实例
+   */
+  private registerAlmanacTools(server: McpServer): void {
+    server.registerTool(
+      'getDailyAlmanac',
+      {
+        title: '获取指定日期黄历信息',
+        description: '根据日期查询当天的黄历信息，包括宜忌、干支、神煞等',
+        inputSchema: almanacDateShape
+      },
+      args => this.execute('getDailyAlmanac', () => this.almanacService.getDailyAlmanac(args.date))
+    );
+
+    server.registerTool(
+      'getLuckyDays',
+      {
+        title: '获取指定月份黄道吉日',
+        description: '查询指定月份的黄道吉日及其适宜事项',
+        inputSchema: yearMonthShape
+      },
+      args => this.execute('getLuckyDays', () =>
+        this.almanacService.getLuckyDays(args.year, args.month)
+      )
+    );
+
+    server.registerTool(
+      'getMonthCalendar',
+      {
+        title: '获取指定月份月历',
+        description: '返回当月每日的公历农历、干支、建除、星宿、节气、节日、宜忌摘要及吉日标记，标出农历月首、闰月与交节换月',
+        inputSchema: yearMonthShape
+      },
+      args => this.execute('getMonthCalendar', () =>
+        this.almanacService.getMonthCalendar(args.year, args.month)
+      )
+    );
+
+    server.registerTool(
+      'getSolarTerms',
+      {
+        title: '获取指定年份节气信息',
+        description: '查询指定年份的所有节气日期和时间',
+        inputSchema: yearShape
+      },
+      args => this.execute('getSolarTerms', () => this.almanacService.getSolarTerms(args.year))
+    );
+
+    server.registerTool(
+      'getSuitableAvoid',
+      {
+        title: '获取指定日期宜忌事项',
+        description: '查询指定日期的适宜和避免事项',
+        inputSchema: almanacDateShape
+      },
+      args => this.execute('getSuitableAvoid', () => this.almanacService.getSuitableAvoid(args.date))
+    );
+
+    server.registerTool(
+      'getHourlyAlmanac',
+      {
+        title: '获取指定日期十二时辰吉凶',
+        description: '查询指定日期十二时辰的干支、黄道黑道、吉凶、冲煞及宜忌；子时分早子时与晚子时，晚子时按次日日干起时干',
+        inputSchema: almanacDateShape
+      },
+      args => this.execute('getHourlyAlmanac', () => this.almanacService.getHourlyAlmanac(args.date))
+    );
+
+    server.registerTool(
+      'selectDates',
+      {
+        title: '按事项择日',
+        description: '在日期范围内按事项宜忌、黄道黑道、神煞及与参与者年支日支的冲刑害为日期评分，返回排序后的候选日及评分依据',
+        inputSchema: selectDatesShape
+      },
+      args => this.execute('selectDates', () => this.dateSelectionService.selectDates(args))
+    );
+  }
+
+  /**
+   * 注册历法换算相关工具
+   * @param server MCP Server实例
+   */
+  private registerCalendarTools(server: McpServer): void {
+    server.registerTool(
+      'convertDate',
+      {
+        title: '公历农历互换',
+        description: '公历转农历或农历转公历（支持闰月），同时返回年月日干支',
+        inputSchema: convertDateShape
+      },
+      args => this.execute('convertDate', () => this.calendarService.convert(args))
+    );
+
+    server.registerTool(
+      'lookupDayPillar',
+      {
+        title: '按日柱反查日期',
+        description: '查找年份范围内日柱为指定干支的全部公历日期，默认范围1900-2100',
+        inputSchema: dayPillarLookupShape
+      },
+      args => this.execute('lookupDayPillar', () => this.calendarService.findDayPillarDates(args))
+    );
+
+    server.registerTool(
+      'lookupLunarDate',
+      {
+        title: '按农历月日反查日期',
+        description: '查找各农历年中指定农历月日对应的公历日期，并列出不存在该日期的年份',
+        inputSchema: lunarDateLookupShape
+      },
+      args => this.execute('lookupLunarDate', () => this.calendarService.findLunarDates(args))
+    );
+  }
+
+  /**
+   * 注册八字相关工具
+   * @param server MCP Server实例
+   */
+  private registerBaziTools(server: McpServer): void {
+    server.registerTool(
+      'calculateBazi',
+      {
+        title: '八字排盘',
+        description: '根据出生信息计算四柱的十神、藏干、纳音、十二长生，五行力量与日主旺衰，以及大运和流年',
+        inputSchema: baziShape
+      },
+      args => this.execute('calculateBazi', async () =>
+        this.baziService.calculateBazi(await this.chartStorageService.resolveInput(args))
+      )
+    );
+  }
+
+  /**
+   * 注册AI命理分析相关工具
+   * @param server MCP Server实例
+   */
+  private registerAiAnalysisTools(server: McpServer): void {
+    server.registerTool(
+      'generateCompleteAnalysis',
+      {
+        title: '生成完整命理分析报告',
+        description: '根据出生信息生成包含性格、事业、感情、健康和运势走势的完整命理分析报告，请求携带 progressToken 时逐节发送进度通知',
+        inputSchema: chartInputShape
+      },
+      (args, extra) => this.execute('generateCompleteAnalysis', async () =>
+        this.collectCompleteAnalysis(await this.chartStorageService.resolveInput(args), extra)
+      )
+    );
+
+    server.registerTool(
+      'getPersonalityAnalysis',
+      {
+        title: '获取性格分析',
+        description: '根据出生信息分析个人性格特点和天赋潜能',
+        inputSchema: chartInputShape
+      },
+      args => this.execute('getPersonalityAnalysis', async () => {
+        const dto = await this.chartStorageService.resolveInput(args);
+        return this.aiNarrativeService.attachNarrative('personality', dto, await this.aiAnalysisService.getPersonalityAnalysis(dto));
+      })
+    );
+
+    server.registerTool(
+      'getCareerAnalysis',
+      {
+        title: '获取事业财运分析',
+        description: '分析个人事业发展趋势和财运状况',
+        inputSchema: chartInputShape
+      },
+      args => this.execute('getCareerAnalysis', async () => {
+        const dto = await this.chartStorageService.resolveInput(args);
+        return this.aiNarrativeService.attachNarrative('career', dto, await this.aiAnalysisService.getCareerAnalysis(dto));
+      })
+    );
+
+    server.registerTool(
+      'getRelationshipAnalysis',
+      {
+        title: '获取感情婚姻分析',
+        description: '分析个人感情运势和婚姻状况',
+        inputSchema: chartInputShape
+      },
+      args => this.execute('getRelationshipAnalysis', async () => {
+        const dto = await this.chartStorageService.resolveInput(args);
+        return this.aiNarrativeService.attachNarrative('relationship', dto, await this.aiAnalysisService.getRelationshipAnalysis(dto));
+      })
+    );
+
+    server.registerTool(
+      'getHealthAnalysis',
+      {
+        title: '获取健康状况分析',
+        description: '分析个人健康状况和注意事项',
+        inputSchema: chartInputShape
+      },
+      args => this.execute('getHealthAnalysis', async () => {
+        const dto = await this.chartStorageService.resolveInput(args);
+        return this.aiNarrativeService.attachNarrative('health', dto, await this.aiAnalysisService.getHealthAnalysis(dto));
+      })
+    );
+
+    server.registerTool(
+      'getFortuneTrend',
+      {
+        title: '获取运势走势分析',
+        description: '分析未来几年的运势走势和关键节点',
+        inputSchema: chartInputShape
+      },
+      args => this.execute('getFortuneTrend', async () => {
+        const dto = await this.chartStorageService.resolveInput(args);
+        return this.aiNarrativeService.attachNarrative('fortuneTrend', dto, await this.aiAnalysisService.getFortuneTrend(dto));
+      })
+    );
+  }
+
+  /**
+   * 注册命盘存储相关工具
+   * @param server MCP Server实例
+   */
+  private registerChartStorageTools(server: McpServer): void {
+    server.registerTool(
+      'saveChart',
+      {
+        title: '保存命盘',
+        description: '保存出生信息及计算所得星盘，返回命盘标识；可指定唯一的档案名（如 me、spouse），之后其他工具可用 chartId 代替出生信息',
+        inputSchema: saveChartShape
+      },
+      args => this.execute('saveChart', () => this.chartStorageService.saveChart(args))
+    );
+
+    server.registerTool(
+      'listCharts',
+      {
+        title: '列出已保存的命盘',
+        description: '按创建时间列出全部命盘的标识、档案名与出生信息，不含星盘',
+        inputSchema: {}
+      },
+      () => this.execute('listCharts', () => this.chartStorageService.listCharts())
+    );
+
+    server.registerTool(
+      'getChart',
+      {
+        title: '获取命盘',
+        description: '按命盘标识或档案名获取出生信息及保存时计算的星盘',
+        inputSchema: chartIdShape
+      },
+      args => this.execute('getChart', () => this.chartStorageService.getChart(args.chartId))
+    );
+
+    server.registerTool(
+      'updateChart',
+      {
+        title: '更新命盘',
+        description: '以新的出生信息重新计算星盘并覆盖保存；未提供档案名或备注名称时保持原值',
+        inputSchema: updateChartShape
+      },
+      args => this.execute('updateChart', () => {
+        const { chartId, ...dto } = args;
+        return this.chartStorageService.updateChart(chartId, dto);
+      })
+    );
+
+    server.registerTool(
+      'deleteChart',
+      {
+        title: '删除命盘',
+        description: '按命盘标识或档案名删除命盘',
+        inputSchema: chartIdShape
+      },
+      args => this.execute('deleteChart', () => this.chartStorageService.deleteChart(args.chartId))
+    );
+  }
+
+  /**
+   * 消费流式分析事件组装完整报告，请求携带 progressToken 时每完成一节发送一次进度通知
+   * @param dto 出生信息
+   * @param extra 工具调用上下文
+   * @returns 各分节附带解读的完整报告
+   */
+  private async collectCompleteAnalysis(
+    dto: CalculateZiweiDto,
+    extra: RequestHandlerExtra<ServerRequest, ServerNotification>
+  ): Promise<Record<string, unknown>> {
+    const progressToken = extra._meta?.progressToken;
+    let report: Record<string, unknown> = {};
+    const labels: Record<string, string> = {};
+
+    for await (const event of this.aiAnalysisStreamService.streamCompleteAnalysis(dto)) {
+      if (event.event === 'start') {
+        report = { ...event.data.meta };
+      } else if (event.event === 'section') {
+        report[event.data.section] = event.data.content;
+        labels[event.data.section] = event.data.label;
+      } else if (event.event === 'progress' && progressToken !== undefined) {
+        await extra.sendNotification({
+          method: 'notifications/progress',
+          params: {
+            progressToken,
+            progress: event.data.completed,
+            total: event.data.total,
+            message: `${labels[event.data.section]}已完成`
+          }
+        });
+      }
+    }
+    return report;
+  }
+
+  /**
+   * 执行工具调用并转换为MCP结果
+   * 业务异常以 isError 结果返回，而不是中断协议连接
+   * @param toolName 工具名称
+   * @param handler 实际执行的业务方法
+   * @returns MCP工具调用结果
+   */
+  private async execute(toolName: string, handler: () => Promise<unknown>): Promise<CallToolResult> {
+    try {
+      this.logger.log(`执行MCP工具: ${toolName}`);
+      const result = await handler();
+      return {
+        content: [{ type: 'text', text: JSON.stringify(result, null, 2) }]
+      };
+    } catch (error) {
+      this.logger.error(`MCP工具执行失败: ${toolName}`, error.stack);
+      return {
+        isError: true,
+        content: [{ type: 'text', text: `${toolName} 执行失败: ${error.message}` }]
+      };
+    }
+  }
+}
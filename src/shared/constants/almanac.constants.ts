@@ -0,0 +1,398 @@
+/**
+ * 黄历择吉常量
+ * 宜忌规则参照《协纪辨方书》通行取法整理
+ */
+
+/**
+ * 择吉规则：命中时追加的宜、忌事项
+ */
+export interface SuitabilityRule {
+  suitable: string[];
+  avoid: string[];
+}
+
+/**
+ * 建除十二神，自月建所在地支起建日顺排
+ */
+export const TWELVE_BUILDINGS = ['建', '除', '满', '平', '定', '执', '破', '危', '成', '收', '开', '闭'];
+
+/**
+ * 建除十二神宜忌
+ */
+export const BUILDING_RULES: Record<string, SuitabilityRule> = {
+  '建': { suitable: ['出行', '上任', '上书', '见贵', '会友'], avoid: ['动土', '开仓', '嫁娶', '纳采', '安葬'] },
+  '除': { suitable: ['祭祀', '沐浴', '解除', '求医', '治病', '扫舍', '除服'], avoid: ['嫁娶', '出行', '上任', '移徙'] },
+  '满': { suitable: ['祈福', '祭祀', '开市', '纳财', '交易', '裁衣'], avoid: ['栽种', '安葬', '上任', '求医'] },
+  '平': { suitable: ['祭祀', '修造', '涂泥', '平治道涂'], avoid: ['嫁娶', '开市', '移徙', '栽种', '开渠'] },
+  '定': { suitable: ['冠带', '嫁娶', '纳采', '订盟', '交易', '入学', '安床'], avoid: ['诉讼', '出行', '求医', '移徙'] },
+  '执': { suitable: ['祭祀', '捕捉', '纳采', '修造', '栽种'], avoid: ['开市', '出行', '移徙', '开仓'] },
+  '破': {
+    suitable: ['求医', '治病', '破屋', '坏垣'],
+    avoid: ['嫁娶', '纳采', '开市', '交易', '入宅', '移徙', '出行', '上任', '动土', '修造', '安葬']
+  },
+  '危': { suitable: ['祭祀', '祈福', '安床', '纳财'], avoid: ['登高', '行船', '出行', '嫁娶'] },
+  '成': {
+    suitable: ['嫁娶', '纳采', '开市', '交易', '立券', '入学', '入宅', '移徙', '出行', '上任', '祭祀'],
+    avoid: ['诉讼']
+  },
+  '收': { suitable: ['纳财', '捕捉', '收割', '纳畜', '入学'], avoid: ['出行', '安葬', '开市', '求医'] },
+  '开': {
+    suitable: ['祭祀', '祈福', '求嗣', '入学', '开市', '出行', '上任', '嫁娶', '动土'],
+    avoid: ['安葬', '破土', '伐木']
+  },
+  '闭': { suitable: ['筑堤', '补垣', '塞穴', '收藏', '安葬'], avoid: ['开市', '出行', '求医', '上任', '动土'] }
+};
+
+/**
+ * 黄道黑道十二神，自青龙起顺排；寅申月青龙在子，卯酉月在寅，依次隔位
+ */
+export const TWELVE_OFFICERS = [
+  '青龙', '明堂', '天刑', '朱雀', '金匮', '天德',
+  '白虎', '玉堂', '天牢', '玄武', '司命', '勾陈'
+];
+
+/**
+ * 黄道六神
+ */
+export const HUANGDAO_OFFICERS = ['青龙', '明堂', '金匮', '天德', '玉堂', '司命'];
+
+/**
+ * 黄道黑道十二神宜忌
+ */
+export const OFFICER_RULES: Record<string, SuitabilityRule> = {
+  '青龙': { suitable: ['嫁娶', '出行', '移徙'], avoid: [] },
+  '明堂': { suitable: ['见贵', '上任', '上书'], avoid: [] },
+  '天刑': { suitable: [], avoid: ['诉讼', '出行'] },
+  '朱雀': { suitable: [], avoid: ['诉讼', '上书', '嫁娶'] },
+  '金匮': { suitable: ['嫁娶', '纳财', '求嗣'], avoid: [] },
+  '天德': { suitable: ['祭祀', '祈福', '修造'], avoid: [] },
+  '白虎': { suitable: [], avoid: ['嫁娶', '安葬', '出行'] },
+  '玉堂': { suitable: ['入宅', '安床', '开市'], avoid: [] },
+  '天牢': { suitable: [], avoid: ['诉讼', '开市'] },
+  '玄武': { suitable: [], avoid: ['诉讼', '交易', '出行'] },
+  '司命': { suitable: ['祭祀', '祈福'], avoid: [] },
+  '勾陈': { suitable: [], avoid: ['嫁娶', '动土', '移徙'] }
+};
+
+/**
+ * 月令神煞定义
+ */
+export interface MonthlyShenSha extends SuitabilityRule {
+  /** 神煞名称 */
+  name: string;
+  /** 是否为吉神 */
+  auspicious: boolean;
+  /**
+   * 按月建地支（子至亥）排列的所值干支：单字为日干或日支，两字为日干支；
+   * 同月有多个取值时列于同一数组项
+   */
+  targets: string[][];
+  /** 德神：可化解寻常凶煞所忌 */
+  virtue?: boolean;
+  /** 重煞：德神不能化解，且当日宜事仅取此煞自身所宜 */
+  severe?: boolean;
+}
+
+/**
+ * 月令神煞表
+ */
+export const MONTHLY_SHENSHA: MonthlyShenSha[] = [
+  {
+    name: '天德',
+    auspicious: true,
+    virtue: true,
+    targets: [['巳'], ['庚'], ['丁'], ['申'], ['壬'], ['辛'], ['亥'], ['甲'], ['癸'], ['寅'], ['丙'], ['乙']],
+    suitable: ['祭祀', '祈福', '上任', '修造', '嫁娶', '入宅', '移徙'],
+    avoid: []
+  },
+  {
+    name: '天德合',
+    auspicious: true,
+    virtue: true,
+    targets: [['申'], ['乙'], ['壬'], ['巳'], ['丁'], ['丙'], ['寅'], ['己'], ['戊'], ['亥'], ['辛'], ['庚']],
+    suitable: ['祭祀', '祈福', '修造', '嫁娶'],
+    avoid: []
+  },
+  {
+    name: '月德',
+    auspicious: true,
+    virtue: true,
+    targets: [['壬'], ['庚'], ['丙'], ['甲'], ['壬'], ['庚'], ['丙'], ['甲'], ['壬'], ['庚'], ['丙'], ['甲']],
+    suitable: ['祭祀', '祈福', '上任', '修造', '嫁娶', '入宅', '移徙'],
+    avoid: []
+  },
+  {
+    name: '月德合',
+    auspicious: true,
+    virtue: true,
+    targets: [['丁'], ['乙'], ['辛'], ['己'], ['丁'], ['乙'], ['辛'], ['己'], ['丁'], ['乙'], ['辛'], ['己']],
+    suitable: ['祭祀', '祈福', '嫁娶', '修造', '交易'],
+    avoid: []
+  },
+  {
+    name: '天赦',
+    auspicious: true,
+    virtue: true,
+    targets: [
+      ['甲子'], ['甲子'], ['戊寅'], ['戊寅'], ['戊寅'], ['甲午'],
+      ['甲午'], ['甲午'], ['戊申'], ['戊申'], ['戊申'], ['甲子']
+    ],
+    suitable: ['祭祀', '祈福', '解除', '求医'],
+    avoid: []
+  },
+  {
+    name: '月空',
+    auspicious: true,
+    targets: [['丙'], ['甲'], ['壬'], ['庚'], ['丙'], ['甲'], ['壬'], ['庚'], ['丙'], ['甲'], ['壬'], ['庚']],
+    suitable: ['上书', '修造', '动土', '安床'],
+    avoid: []
+  },
+  {
+    name: '天医',
+    auspicious: true,
+    targets: [['亥'], ['子'], ['丑'], ['寅'], ['卯'], ['辰'], ['巳'], ['午'], ['未'], ['申'], ['酉'], ['戌']],
+    suitable: ['求医', '治病'],
+    avoid: []
+  },
+  {
+    name: '天喜',
+    auspicious: true,
+    targets: [['申'], ['酉'], ['戌'], ['亥'], ['子'], ['丑'], ['寅'], ['卯'], ['辰'], ['巳'], ['午'], ['未']],
+    suitable: ['嫁娶', '纳采', '订盟', '会友'],
+    avoid: []
+  },
+  {
+    name: '驿马',
+    auspicious: true,
+    targets: [['寅'], ['亥'], ['申'], ['巳'], ['寅'], ['亥'], ['申'], ['巳'], ['寅'], ['亥'], ['申'], ['巳']],
+    suitable: ['出行', '移徙', '上任'],
+    avoid: []
+  },
+  {
+    name: '母仓',
+    auspicious: true,
+    targets: [
+      ['申', '酉'], ['申', '酉'], ['亥', '子'], ['亥', '子'], ['亥', '子'], ['寅', '卯'],
+      ['寅', '卯'], ['寅', '卯'], ['辰', '戌', '丑', '未'], ['辰', '戌', '丑', '未'], ['辰', '戌', '丑', '未'], ['申', '酉']
+    ],
+    suitable: ['纳畜', '栽种', '牧养'],
+    avoid: []
+  },
+  {
+    name: '月破',
+    auspicious: false,
+    severe: true,
+    targets: [['午'], ['未'], ['申'], ['酉'], ['戌'], ['亥'], ['子'], ['丑'], ['寅'], ['卯'], ['辰'], ['巳']],
+    suitable: ['求医', '治病', '破屋', '坏垣'],
+    avoid: ['嫁娶', '纳采', '开市', '交易', '入宅', '移徙', '出行', '上任', '动土', '修造', '安葬']
+  },
+  {
+    name: '四废',
+    auspicious: false,
+    severe: true,
+    targets: [
+      ['丙午', '丁巳'], ['丙午', '丁巳'], ['庚申', '辛酉'], ['庚申', '辛酉'], ['庚申', '辛酉'], ['壬子', '癸亥'],
+      ['壬子', '癸亥'], ['壬子', '癸亥'], ['甲寅', '乙卯'], ['甲寅', '乙卯'], ['甲寅', '乙卯'], ['丙午', '丁巳']
+    ],
+    suitable: [],
+    avoid: ['嫁娶', '开市', '交易', '上任', '出行', '修造', '动土']
+  },
+  {
+    name: '受死',
+    auspicious: false,
+    severe: true,
+    targets: [['卯'], ['酉'], ['戌'], ['辰'], ['亥'], ['巳'], ['子'], ['午'], ['丑'], ['未'], ['寅'], ['申']],
+    suitable: ['捕捉', '畋猎'],
+    avoid: ['嫁娶', '开市', '入宅', '移徙', '出行', '上任', '求医', '安葬']
+  },
+  {
+    name: '往亡',
+    auspicious: false,
+    severe: true,
+    targets: [['戌'], ['丑'], ['寅'], ['巳'], ['申'], ['亥'], ['卯'], ['午'], ['酉'], ['子'], ['辰'], ['未']],
+    suitable: [],
+    avoid: ['出行', '上任', '嫁娶', '移徙', '求医']
+  },
+  {
+    name: '月厌',
+    auspicious: false,
+    targets: [['子'], ['亥'], ['戌'], ['酉'], ['申'], ['未'], ['午'], ['巳'], ['辰'], ['卯'], ['寅'], ['丑']],
+    suitable: [],
+    avoid: ['嫁娶', '出行', '移徙', '入宅', '上任']
+  },
+  {
+    name: '月煞',
+    auspicious: false,
+    targets: [['未'], ['辰'], ['丑'], ['戌'], ['未'], ['辰'], ['丑'], ['戌'], ['未'], ['辰'], ['丑'], ['戌']],
+    suitable: [],
+    avoid: ['修造', '动土', '嫁娶', '开市']
+  },
+  {
+    name: '劫煞',
+    auspicious: false,
+    targets: [['巳'], ['寅'], ['亥'], ['申'], ['巳'], ['寅'], ['亥'], ['申'], ['巳'], ['寅'], ['亥'], ['申']],
+    suitable: [],
+    avoid: ['出行', '嫁娶', '交易']
+  },
+  {
+    name: '灾煞',
+    auspicious: false,
+    targets: [['午'], ['卯'], ['子'], ['酉'], ['午'], ['卯'], ['子'], ['酉'], ['午'], ['卯'], ['子'], ['酉']],
+    suitable: [],
+    avoid: ['出行', '修造', '求医']
+  },
+  {
+    name: '血忌',
+    auspicious: false,
+    targets: [['午'], ['子'], ['丑'], ['未'], ['寅'], ['申'], ['卯'], ['酉'], ['辰'], ['戌'], ['巳'], ['亥']],
+    suitable: [],
+    avoid: ['针灸', '宰杀']
+  },
+  {
+    name: '归忌',
+    auspicious: false,
+    targets: [['寅'], ['子'], ['丑'], ['寅'], ['子'], ['丑'], ['寅'], ['子'], ['丑'], ['寅'], ['子'], ['丑']],
+    suitable: [],
+    avoid: ['移徙', '入宅', '远行', '归宁']
+  }
+];
+
+/**
+ * 十二地支所属生肖
+ */
+export const BRANCH_ZODIACS: Record<string, string> = {
+  '子': '鼠', '丑': '牛', '寅': '虎', '卯': '兔', '辰': '龙', '巳': '蛇',
+  '午': '马', '未': '羊', '申': '猴', '酉': '鸡', '戌': '狗', '亥': '猪'
+};
+
+/**
+ * 十二地支所在方位
+ */
+export const BRANCH_DIRECTIONS: Record<string, string> = {
+  '子': '正北', '丑': '东北', '寅': '东北', '卯': '正东', '辰': '东南', '巳': '东南',
+  '午': '正南', '未': '西南', '申': '西南', '酉': '正西', '戌': '西北', '亥': '西北'
+};
+
+/**
+ * 喜神方位（按日干）：甲己在艮，乙庚在乾，丙辛在坤，丁壬在离，戊癸在巽
+ */
+export const XI_SHEN_DIRECTIONS: Record<string, string> = {
+  '甲': '东北', '乙': '西北', '丙': '西南', '丁': '正南', '戊': '东南',
+  '己': '东北', '庚': '西北', '辛': '西南', '壬': '正南', '癸': '东南'
+};
+
+/**
+ * 财神方位（按日干）：甲乙东北，丙丁西南，戊己正北，庚辛正东，壬癸正南
+ */
+export const CAI_SHEN_DIRECTIONS: Record<string, string> = {
+  '甲': '东北', '乙': '东北', '丙': '西南', '丁': '西南', '戊': '正北',
+  '己': '正北', '庚': '正东', '辛': '正东', '壬': '正南', '癸': '正南'
+};
+
+/**
+ * 福神方位（按日干）：甲己正北，乙庚坤，丙辛乾，丁壬巽，戊癸艮
+ */
+export const FU_SHEN_DIRECTIONS: Record<string, string> = {
+  '甲': '正北', '乙': '西南', '丙': '西北', '丁': '东南', '戊': '东北',
+  '己': '正北', '庚': '西南', '辛': '西北', '壬': '东南', '癸': '东北'
+};
+
+/**
+ * 天乙贵人所在地支（按日干），阳贵主昼，阴贵主夜
+ */
+export const NOBLE_BRANCHES: Record<string, { yang: string; yin: string }> = {
+  '甲': { yang: '未', yin: '丑' },
+  '乙': { yang: '申', yin: '子' },
+  '丙': { yang: '酉', yin: '亥' },
+  '丁': { yang: '亥', yin: '酉' },
+  '戊': { yang: '丑', yin: '未' },
+  '己': { yang: '子', yin: '申' },
+  '庚': { yang: '丑', yin: '未' },
+  '辛': { yang: '寅', yin: '午' },
+  '壬': { yang: '卯', yin: '巳' },
+  '癸': { yang: '巳', yin: '卯' }
+};
+
+/**
+ * 煞方（按日支三合局）：申子辰煞南，寅午戌煞北，亥卯未煞西，巳酉丑煞东
+ */
+export const SHA_DIRECTIONS: Record<string, string> = {
+  '申': '南', '子': '南', '辰': '南',
+  '寅': '北', '午': '北', '戌': '北',
+  '亥': '西', '卯': '西', '未': '西',
+  '巳': '东', '酉': '东', '丑': '东'
+};
+
+/**
+ * 六十甲子日胎神占方，自甲子日起
+ */
+export const DAY_TAI_SHEN = [
+  '占门碓外东南', '碓磨厕外东南', '厨灶炉外正南', '仓库门外正南', '房床栖外正南', '占门床外正南',
+  '占碓磨外正南', '厨灶厕外西南', '仓库炉外西南', '房床门外西南', '门鸡栖外西南', '碓磨床外西南',
+  '厨灶碓外西南', '仓库厕外正西', '房床炉外正西', '占大门外正西', '碓磨栖外正西', '厨灶床外正西',
+  '仓库碓外西北', '房床厕外西北', '占门炉外西北', '碓磨门外西北', '厨灶栖外西北', '仓库床外正北',
+  '房床碓外正北', '占门厕外正北', '碓磨炉外正北', '厨灶门外正北', '仓库栖外正北', '占房床房内北',
+  '占门碓房内北', '碓磨厕房内北', '厨灶炉房内北', '仓库门房内北', '房床栖房内中', '占门床房内中',
+  '占碓磨房内南', '厨灶厕房内南', '仓库炉房内南', '房床门房内西', '门鸡栖房内东', '碓磨床房内东',
+  '厨灶碓房内东', '仓库厕房内东', '房床炉房内中', '占大门外东北', '碓磨栖外东北', '厨灶床外东北',
+  '仓库碓外东北', '房床厕外东北', '占门炉外东北', '碓磨门外正东', '厨灶栖外正东', '仓库床外正东',
+  '房床碓外正东', '占门厕外正东', '碓磨炉外东南', '厨灶门外东南', '仓库栖外东南', '占房床外东南'
+];
+
+/**
+ * 择日事项的常用说法与黄历用语对照
+ */
+export const ACTIVITY_ALIASES: Record<string, string> = {
+  '结婚': '嫁娶',
+  '婚嫁': '嫁娶',
+  '订婚': '纳采',
+  '开业': '开市',
+  '开张': '开市',
+  '签约': '立券',
+  '搬家': '移徙',
+  '乔迁': '入宅',
+  '装修': '修造',
+  '旅行': '出行',
+  '就医': '求医',
+  '入职': '上任'
+};
+
+/**
+ * 地支相刑（含寅巳申、丑戌未三刑，子卯无礼之刑及辰午酉亥自刑）
+ */
+export const BRANCH_PUNISHMENTS: Array<[string, string]> = [
+  ['子', '卯'], ['寅', '巳'], ['巳', '申'], ['申', '寅'],
+  ['丑', '戌'], ['戌', '未'], ['未', '丑'],
+  ['辰', '辰'], ['午', '午'], ['酉', '酉'], ['亥', '亥']
+];
+
+/**
+ * 地支六害
+ */
+export const BRANCH_HARMS: Array<[string, string]> = [
+  ['子', '未'], ['丑', '午'], ['寅', '巳'], ['卯', '辰'], ['申', '亥'], ['酉', '戌']
+];
+
+/**
+ * 十二时辰起止时间（北京时间），子时指当日0点起的早子时
+ */
+export const HOUR_RANGES: Record<string, string> = {
+  '子': '00:00-00:59', '丑': '01:00-02:59', '寅': '03:00-04:59', '卯': '05:00-06:59',
+  '辰': '07:00-08:59', '巳': '09:00-10:59', '午': '11:00-12:59', '未': '13:00-14:59',
+  '申': '15:00-16:59', '酉': '17:00-18:59', '戌': '19:00-20:59', '亥': '21:00-22:59'
+};
+
+/**
+ * 晚子时起止时间（北京时间），已入次日子时
+ */
+export const LATE_ZI_HOUR_RANGE = '23:00-23:59';
+
+/**
+ * 贵人登临之时所宜
+ */
+export const NOBLE_HOUR_SUITABLE = ['见贵', '上书', '祈福', '求财'];
+
+/**
+ * 日历导出支持的事件类型：黄道吉日、节气交节、节日
+ */
+export const ALMANAC_CALENDAR_EVENT_TYPES = ['luckyDays', 'solarTerms', 'festivals'] as const;
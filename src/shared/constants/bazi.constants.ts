@@ -0,0 +1,120 @@
+/**
+ * 八字常量
+ */
+
+/**
+ * 五行，按相生顺序排列：前者生后者，隔一位者相克
+ */
+export const FIVE_ELEMENTS = ['木', '火', '土', '金', '水'];
+
+/**
+ * 天干五行
+ */
+export const STEM_ELEMENTS: Record<string, string> = {
+  '甲': '木', '乙': '木', '丙': '火', '丁': '火', '戊': '土',
+  '己': '土', '庚': '金', '辛': '金', '壬': '水', '癸': '水'
+};
+
+/**
+ * 地支五行
+ */
+export const BRANCH_ELEMENTS: Record<string, string> = {
+  '子': '水', '丑': '土', '寅': '木', '卯': '木', '辰': '土', '巳': '火',
+  '午': '火', '未': '土', '申': '金', '酉': '金', '戌': '土', '亥': '水'
+};
+
+/**
+ * 地支藏干，依次为本气、中气、余气
+ */
+export const HIDDEN_STEMS: Record<string, string[]> = {
+  '子': ['癸'],
+  '丑': ['己', '癸', '辛'],
+  '寅': ['甲', '丙', '戊'],
+  '卯': ['乙'],
+  '辰': ['戊', '乙', '癸'],
+  '巳': ['丙', '戊', '庚'],
+  '午': ['丁', '己'],
+  '未': ['己', '丁', '乙'],
+  '申': ['庚', '壬', '戊'],
+  '酉': ['辛'],
+  '戌': ['戊', '辛', '丁'],
+  '亥': ['壬', '甲']
+};
+
+/**
+ * 藏干力量权重，按藏干个数取值
+ */
+export const HIDDEN_STEM_WEIGHTS: Record<number, number[]> = {
+  1: [1],
+  2: [0.7, 0.3],
+  3: [0.6, 0.3, 0.1]
+};
+
+/**
+ * 十神，按与日主五行关系（同我、我生、我克、克我、生我）排列，每组先同性后异性
+ */
+export const TEN_GODS = [
+  '比肩', '劫财', '食神', '伤官', '偏财', '正财', '七杀', '正官', '偏印', '正印'
+];
+
+/**
+ * 十二长生
+ */
+export const TWELVE_LIFE_STAGES = [
+  '长生', '沐浴', '冠带', '临官', '帝旺', '衰', '病', '死', '墓', '绝', '胎', '养'
+];
+
+/**
+ * 各天干长生所在地支，阳干顺行、阴干逆行
+ */
+export const STEM_LIFE_START: Record<string, string> = {
+  '甲': '亥', '乙': '午', '丙': '寅', '丁': '酉', '戊': '寅',
+  '己': '酉', '庚': '巳', '辛': '子', '壬': '申', '癸': '卯'
+};
+
+/**
+ * 十神类别，与 TEN_GODS 的分组一一对应
+ */
+export const TEN_GOD_GROUPS = ['比劫', '食伤', '财星', '官杀', '印星'];
+
+/**
+ * 五行旺衰状态，按相对月令五行在相生序中的位次（同令、令生、令克、克令、生令）排列
+ */
+export const ELEMENT_SEASON_STATES = ['旺', '相', '死', '囚', '休'];
+
+/**
+ * 十二节（月令交接之节），依次为第1、3、5…23个节气
+ */
+export const TWELVE_JIE = [
+  '立春', '惊蛰', '清明', '立夏', '芒种', '小暑', '立秋', '白露', '寒露', '立冬', '大雪', '小寒'
+];
+
+/**
+ * 五行力量计分：天干、地支各计1分，月令地支加倍
+ */
+export const ELEMENT_SCORES = {
+  stem: 1,
+  branch: 1,
+  monthBranch: 2
+};
+
+/**
+ * 日主旺衰等级，按生扶力量占比自高到低判定
+ */
+export const DAY_MASTER_LEVELS: Array<{ min: number; level: string }> = [
+  { min: 0.65, level: '身强' },
+  { min: 0.55, level: '偏强' },
+  { min: 0.45, level: '中和' },
+  { min: 0.35, level: '偏弱' },
+  { min: 0, level: '身弱' }
+];
+
+/**
+ * 排列的大运步数
+ */
+export const LUCK_PILLAR_COUNT = 10;
+
+/**
+ * 起运折算：三天折一年，即折合一岁的分钟数
+ */
+export const LUCK_START_MINUTES_PER_YEAR = 3 * 24 * 60;
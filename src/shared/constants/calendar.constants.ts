@@ -0,0 +1,38 @@
+/**
+ * 历法换算常量
+ */
+
+/**
+ * 支持换算的公历年份范围
+ */
+export const CALENDAR_MIN_YEAR = 1900;
+export const CALENDAR_MAX_YEAR = 2100;
+
+/**
+ * 一天的毫秒数
+ */
+export const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * 按日期范围逐日推算时允许的最大天数
+ */
+export const MAX_DATE_RANGE_DAYS = 366;
+
+/**
+ * 公历1900年1月1日的日干支在六十甲子中的序号（甲戌）
+ */
+export const DAY_PILLAR_EPOCH_INDEX = 10;
+
+/**
+ * 农历月份名称
+ */
+export const LUNAR_MONTH_NAMES = ['正', '二', '三', '四', '五', '六', '七', '八', '九', '十', '冬', '腊'];
+
+/**
+ * 农历日名称
+ */
+export const LUNAR_DAY_NAMES = [
+  '初一', '初二', '初三', '初四', '初五', '初六', '初七', '初八', '初九', '初十',
+  '十一', '十二', '十三', '十四', '十五', '十六', '十七', '十八', '十九', '二十',
+  '廿一', '廿二', '廿三', '廿四', '廿五', '廿六', '廿七', '廿八', '廿九', '三十'
+];
@@ -0,0 +1,26 @@
+/**
+ * 命盘存储常量
+ */
+import { resolve } from 'path';
+
+/**
+ * 存储方式：sqlite 本地数据库文件（默认）/ memory 进程内存（重启后丢失，用于测试）
+ */
+export const CHART_STORAGE_DRIVERS = ['sqlite', 'memory'] as const;
+
+/**
+ * SQLite 数据库文件默认路径：项目根目录下的 data/charts.db
+ * 按本文件位置（src 或 dist 下的 shared/constants）推算，不受进程工作目录影响，
+ * 以免 MCP 客户端从其他目录启动服务时在不可写的位置建库
+ */
+export const DEFAULT_CHART_DB_PATH = resolve(__dirname, '..', '..', '..', 'data', 'charts.db');
+
+/**
+ * 未提供 chartId 时必填的出生信息字段
+ */
+export const REQUIRED_BIRTH_FIELDS = ['birthDate', 'birthTime', 'birthPlace', 'gender', 'dateType'] as const;
+
+/**
+ * 档案名规则：1-32位中英文、数字、下划线或连字符，如 me、spouse、本人
+ */
+export const PROFILE_NAME_PATTERN = /^[\w\u4e00-\u9fa5-]{1,32}$/;
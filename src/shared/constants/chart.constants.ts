@@ -0,0 +1,86 @@
+/**
+ * 命盘绘制常量
+ */
+
+/**
+ * 十二宫在4×4方盘中的格位 [列, 行]，巳宫在左上，地支顺时针排列，中央2×2为命主信息
+ */
+export const CHART_BRANCH_CELLS: Record<string, [number, number]> = {
+  '巳': [0, 0], '午': [1, 0], '未': [2, 0], '申': [3, 0],
+  '辰': [0, 1], '酉': [3, 1],
+  '卯': [0, 2], '戌': [3, 2],
+  '寅': [0, 3], '丑': [1, 3], '子': [2, 3], '亥': [3, 3]
+};
+
+/**
+ * 命盘尺寸（像素）
+ */
+export const CHART_SIZE = {
+  cell: 220,
+  padding: 10,
+  lineHeight: 20
+};
+
+/**
+ * 命盘字体，优先使用常见中文字体
+ */
+export const CHART_FONT_FAMILY = "'Noto Sans CJK SC', 'Noto Sans SC', 'PingFang SC', 'Microsoft YaHei', 'WenQuanYi Micro Hei', sans-serif";
+
+/**
+ * 命盘配色
+ */
+export const CHART_COLORS = {
+  background: '#fffdf7',
+  border: '#8c6d46',
+  mainStar: '#b22222',
+  luckyStar: '#1f6f43',
+  evilStar: '#4b4b4b',
+  otherStar: '#6b5b45',
+  brightness: '#8c6d46',
+  palaceName: '#1d3f72',
+  stemBranch: '#8c6d46',
+  decade: '#6b5b45',
+  decadeHighlight: '#fff1c2',
+  annualHighlight: '#d93025',
+  centerTitle: '#1d3f72',
+  text: '#333333'
+};
+
+/**
+ * 四化标记底色，按化禄、化权、化科、化忌排列
+ */
+export const TRANSFORMATION_COLORS = ['#2e7d32', '#6a1b9a', '#1565c0', '#c62828'];
+
+/**
+ * 命盘文本导出格式
+ */
+export const CONTEXT_FORMATS = ['text', 'markdown'] as const;
+
+/**
+ * 命盘文本导出详略：summary 仅三方四正主星，standard 为十二宫主辅煞星，full 另含杂曜、长生十二神与宫干自化
+ */
+export const CONTEXT_DETAIL_LEVELS = ['summary', 'standard', 'full'] as const;
+
+/**
+ * 命盘文本各节，按输出顺序排列；超出 token 预算时自末节起截断或省略
+ * minDetail 为输出该节所需的最低详略
+ */
+export const CONTEXT_SECTIONS = [
+  { key: 'basic', label: '基本信息', minDetail: 'summary' },
+  { key: 'pillars', label: '四柱', minDetail: 'summary' },
+  { key: 'transformations', label: '生年四化', minDetail: 'summary' },
+  { key: 'periods', label: '当前运限', minDetail: 'summary' },
+  { key: 'palaces', label: '宫位星曜', minDetail: 'summary' },
+  { key: 'decades', label: '大限排列', minDetail: 'standard' },
+  { key: 'selfTransformations', label: '宫干自化', minDetail: 'full' }
+] as const;
+
+/**
+ * summary 详略下输出的宫位（命宫三方四正）
+ */
+export const CONTEXT_SUMMARY_PALACES = ['命宫', '财帛宫', '官禄宫', '迁移宫'];
+
+/**
+ * token 预算下限
+ */
+export const CONTEXT_MIN_TOKENS = 50;
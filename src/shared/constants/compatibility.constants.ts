@@ -0,0 +1,107 @@
+/**
+ * 合盘常量
+ */
+
+/**
+ * 合盘关系类型：couple 伴侣 / business 合作伙伴
+ */
+export const COMPATIBILITY_RELATIONSHIPS = ['couple', 'business'] as const;
+
+/**
+ * 叠盘关注的对方宫位及其权重，按关系类型区分
+ */
+export const OVERLAY_PALACE_WEIGHTS: Record<(typeof COMPATIBILITY_RELATIONSHIPS)[number], Record<string, number>> = {
+  couple: { '夫妻宫': 2, '交友宫': 1, '官禄宫': 1 },
+  business: { '夫妻宫': 1, '交友宫': 2, '官禄宫': 2 }
+};
+
+/**
+ * 叠入对方宫位的星曜计分（每颗）
+ */
+export const OVERLAY_STAR_SCORES = {
+  main: 2,
+  lucky: 3,
+  evil: -3
+};
+
+/**
+ * 生年四化飞入对方宫位的计分，化忌入命宫、夫妻宫时加重
+ */
+export const CROSS_TRANSFORMATION_SCORES: Record<string, number> = {
+  hualu: 6,
+  huaquan: 3,
+  huake: 4,
+  huaji: -6
+};
+
+/**
+ * 受生年四化影响加倍计分的对方宫位
+ */
+export const CROSS_TRANSFORMATION_KEY_PALACES = ['命宫', '夫妻宫'];
+
+/**
+ * 地支六合
+ */
+export const BRANCH_COMBINATIONS: Array<[string, string]> = [
+  ['子', '丑'], ['寅', '亥'], ['卯', '戌'], ['辰', '酉'], ['巳', '申'], ['午', '未']
+];
+
+/**
+ * 地支三合局
+ */
+export const BRANCH_TRINES = ['申子辰', '亥卯未', '寅午戌', '巳酉丑'];
+
+/**
+ * 地支关系计分，年支、日支各自计分
+ */
+export const BRANCH_RELATION_SCORES: Record<string, number> = {
+  '六合': 10,
+  '三合': 6,
+  '冲': -10,
+  '刑': -6,
+  '害': -5
+};
+
+/**
+ * 天干五合
+ */
+export const STEM_COMBINATIONS: Array<[string, string]> = [
+  ['甲', '己'], ['乙', '庚'], ['丙', '辛'], ['丁', '壬'], ['戊', '癸']
+];
+
+/**
+ * 五行互补计分
+ */
+export const ELEMENT_COMPLEMENT_SCORES = {
+  // 对方旺盛之五行恰为己方所需，每个五行计分
+  supplied: 5,
+  // 日主五行相生
+  dayMasterGenerating: 5,
+  // 日主五行相同
+  dayMasterSame: 2,
+  // 日主五行相克
+  dayMasterControlling: -5,
+  // 日干五合
+  stemCombination: 6
+};
+
+/**
+ * 五行在命局中占比不低于此值时视为旺盛，可补对方所需
+ */
+export const DOMINANT_ELEMENT_RATIO = 0.25;
+
+/**
+ * 合盘总分基准分，各项得分在此基础上加减后限定于0-100
+ */
+export const COMPATIBILITY_BASE_SCORE = 60;
+
+/**
+ * 合盘等级，按总分自高到低判定
+ */
+export const COMPATIBILITY_LEVELS: Array<{ min: number; level: string }> = [
+  { min: 85, level: '上佳' },
+  { min: 70, level: '良好' },
+  { min: 55, level: '中等' },
+  { min: 40, level: '欠佳' },
+  { min: 0, level: '较差' }
+];
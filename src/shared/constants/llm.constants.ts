@@ -0,0 +1,91 @@
+/**
+ * 大模型解读常量
+ */
+
+/**
+ * 大模型提供方：OpenAI 兼容接口、Anthropic 兼容接口、本地模板（离线、测试用）
+ */
+export const LLM_PROVIDERS = ['openai', 'anthropic', 'template'] as const;
+
+/**
+ * 远程提供方默认接口地址
+ */
+export const LLM_DEFAULT_BASE_URLS: Record<'openai' | 'anthropic', string> = {
+  openai: 'https://api.openai.com/v1',
+  anthropic: 'https://api.anthropic.com/v1'
+};
+
+/**
+ * Anthropic 接口版本请求头
+ */
+export const ANTHROPIC_API_VERSION = '2023-06-01';
+
+/**
+ * 生成参数默认值
+ */
+export const LLM_DEFAULTS = {
+  timeoutMs: 30000,
+  maxTokens: 1024,
+  temperature: 0.7
+};
+
+/**
+ * 解读分节及各节关注的宫位
+ */
+export const NARRATIVE_SECTIONS = {
+  basicInfo: { label: '命盘概要', palaces: ['命宫'] },
+  personality: { label: '性格分析', palaces: ['命宫', '福德宫', '迁移宫'] },
+  career: { label: '事业财运', palaces: ['官禄宫', '财帛宫', '迁移宫'] },
+  relationship: { label: '感情婚姻', palaces: ['夫妻宫', '交友宫', '子女宫'] },
+  health: { label: '健康状况', palaces: ['疾厄宫', '父母宫'] },
+  fortuneTrend: { label: '运势走势', palaces: ['命宫'] }
+};
+
+/**
+ * 默认提示词版本
+ */
+export const DEFAULT_PROMPT_VERSION = 'v2';
+
+/**
+ * 提示词模板，按版本号管理；{{name}} 为占位符
+ */
+export const PROMPT_TEMPLATES: Record<string, { system: string; user: string; sections: Record<string, string> }> = {
+  v1: {
+    system:
+      '你是一位精通紫微斗数的命理师。请严格依据用户提供的命盘数据与结构化分析结果撰写解读，' +
+      '不得编造命盘中不存在的星曜、四化或运限；语气平实中肯，避免绝对化的吉凶断语，不做医疗、投资等专业建议。',
+    user:
+      '请撰写「{{label}}」部分的解读，约300字，分段叙述，不使用标题与列表。\n' +
+      '侧重点：{{instruction}}\n\n' +
+      '【命盘】\n{{chart}}\n\n' +
+      '【结构化分析】\n{{analysis}}',
+    sections: {
+      basicInfo: '概括命宫主星格局、五行局与生年四化的整体基调',
+      personality: '结合命宫、福德宫、迁移宫主星的亮度与四化，说明性格特点、天赋与需要留意的倾向',
+      career: '结合官禄宫、财帛宫主星与四化，说明适合的事业方向、求财方式与风险',
+      relationship: '结合夫妻宫、交友宫主星与四化，说明感情模式、择偶倾向与相处建议',
+      health: '结合疾厄宫星曜五行与煞星，说明体质特点与日常调养方向',
+      fortuneTrend: '结合当前大限、流年所在宫位，说明近年运势起伏与关键节点'
+    }
+  },
+  v2: {
+    system:
+      '你是一位精通紫微斗数的命理师。请严格依据用户提供的命盘数据、结构化分析结果与已成立的格局撰写解读，' +
+      '不得编造命盘中不存在的星曜、四化、运限或格局；引用格局时须点明格局名称与成格宫位；' +
+      '语气平实中肯，避免绝对化的吉凶断语，不做医疗、投资等专业建议。',
+    user:
+      '请撰写「{{label}}」部分的解读，约300字，分段叙述，不使用标题与列表。\n' +
+      '侧重点：{{instruction}}\n\n' +
+      '【命盘】\n{{chart}}\n\n' +
+      '【成立的格局】\n{{patterns}}\n\n' +
+      '【结构化分析】\n{{analysis}}',
+    sections: {
+      basicInfo: '概括命宫主星格局、五行局与生年四化的整体基调，有格局成立时先点明格局',
+      personality: '结合命宫、福德宫、迁移宫主星的亮度、四化与相关格局，说明性格特点、天赋与需要留意的倾向',
+      career: '结合官禄宫、财帛宫主星、四化与相关格局，说明适合的事业方向、求财方式与风险',
+      relationship: '结合夫妻宫、交友宫主星、四化与相关格局，说明感情模式、择偶倾向与相处建议',
+      health: '结合疾厄宫星曜五行、煞星与相关格局，说明体质特点与日常调养方向',
+      fortuneTrend: '结合当前大限、流年所在宫位与相关格局，说明近年运势起伏与关键节点'
+    }
+  }
+};
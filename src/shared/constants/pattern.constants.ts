@@ -0,0 +1,126 @@
+/**
+ * 紫微斗数格局规则
+ */
+import { PALACE_NAMES } from './ziwei.constants';
+import { NARRATIVE_SECTIONS } from './llm.constants';
+
+/**
+ * 格局吉凶：auspicious 吉格 / inauspicious 凶格
+ */
+export const PATTERN_CATEGORIES = ['auspicious', 'inauspicious'] as const;
+
+/**
+ * 命宫三方四正及财帛、官禄、迁移诸宫，财星格局在这些宫位成格
+ */
+const WEALTH_PALACES = ['命宫', '财帛宫', '官禄宫', '迁移宫'];
+
+/**
+ * 格局规则库，按顺序检查
+ * scope 为检查成格的宫位；clauses 须全部成立，其中：
+ * - where 为查找范围：self 本宫、trineSquare 本宫三方四正、flanking 前后两邻宫（stars 须两宫各占其一）
+ * - stars 须全部出现，anyStars 至少出现一颗；以“化”开头者（如 化忌）表示带该生年四化的任一星曜
+ * sections 为引用该格局的解读分节，此外成格宫位所属的分节也会引用
+ */
+export const PATTERN_RULES: Array<{
+  id: string;
+  name: string;
+  category: (typeof PATTERN_CATEGORIES)[number];
+  scope: string[];
+  clauses: Array<{ where: 'self' | 'trineSquare' | 'flanking'; stars?: string[]; anyStars?: string[] }>;
+  reading: string;
+  sections: Array<keyof typeof NARRATIVE_SECTIONS>;
+}> = [
+  {
+    id: 'ziFuTongGong',
+    name: '紫府同宫',
+    category: 'auspicious',
+    scope: ['命宫'],
+    clauses: [{ where: 'self', stars: ['紫微', '天府'] }],
+    reading: '紫微、天府同守命宫，帝星得库，主为人稳重宽厚、有领导才能与守成之福，一生衣食丰足。',
+    sections: ['basicInfo', 'personality', 'career']
+  },
+  {
+    id: 'jiYueTongLiang',
+    name: '机月同梁',
+    category: 'auspicious',
+    scope: ['命宫'],
+    clauses: [
+      { where: 'self', anyStars: ['天机', '太阴', '天同', '天梁'] },
+      { where: 'trineSquare', stars: ['天机', '太阴', '天同', '天梁'] }
+    ],
+    reading: '天机、太阴、天同、天梁会于命宫三方四正，主心思细密、善于谋划，宜公职、文职或在大机构任职，利守成而不利冒进。',
+    sections: ['basicInfo', 'personality', 'career']
+  },
+  {
+    id: 'shaPoLang',
+    name: '杀破狼',
+    category: 'auspicious',
+    scope: ['命宫'],
+    clauses: [
+      { where: 'self', anyStars: ['七杀', '破军', '贪狼'] },
+      { where: 'trineSquare', stars: ['七杀', '破军', '贪狼'] }
+    ],
+    reading: '命坐七杀、破军或贪狼，三星会于三方，主性格刚毅、求新求变、勇于开创，一生起伏较大，宜动中求成。',
+    sections: ['basicInfo', 'personality', 'career', 'fortuneTrend']
+  },
+  {
+    id: 'huoTanGe',
+    name: '火贪格',
+    category: 'auspicious',
+    scope: WEALTH_PALACES,
+    clauses: [{ where: 'self', stars: ['贪狼', '火星'] }],
+    reading: '贪狼与火星同宫，主横发，机遇来得急骤，宜把握时机，发后须防骤退。',
+    sections: ['career', 'fortuneTrend']
+  },
+  {
+    id: 'lingTanGe',
+    name: '铃贪格',
+    category: 'auspicious',
+    scope: WEALTH_PALACES,
+    clauses: [{ where: 'self', stars: ['贪狼', '铃星'] }],
+    reading: '贪狼与铃星同宫，亦主突发之财与机遇，较火贪格稍缓而持久。',
+    sections: ['career', 'fortuneTrend']
+  },
+  {
+    id: 'luMaJiaoChi',
+    name: '禄马交驰',
+    category: 'auspicious',
+    scope: WEALTH_PALACES,
+    clauses: [
+      { where: 'self', stars: ['天马'] },
+      { where: 'self', anyStars: ['禄存', '化禄'] }
+    ],
+    reading: '禄存或化禄与天马同宫，主财源流动、动中生财，宜经商、外出或异地发展。',
+    sections: ['career', 'fortuneTrend']
+  },
+  {
+    id: 'changQuJiaMing',
+    name: '昌曲夹命',
+    category: 'auspicious',
+    scope: ['命宫'],
+    clauses: [{ where: 'flanking', stars: ['文昌', '文曲'] }],
+    reading: '文昌、文曲夹命宫，主聪明好学、文采出众，利考试与文职。',
+    sections: ['personality', 'career']
+  },
+  {
+    id: 'zuoYouJiaMing',
+    name: '左右夹命',
+    category: 'auspicious',
+    scope: ['命宫'],
+    clauses: [{ where: 'flanking', stars: ['左辅', '右弼'] }],
+    reading: '左辅、右弼夹命宫，主得贵人扶持、人缘佳，做事多有助力。',
+    sections: ['personality', 'career']
+  },
+  {
+    id: 'yangTuoJiaJi',
+    name: '羊陀夹忌',
+    category: 'inauspicious',
+    scope: PALACE_NAMES,
+    clauses: [
+      { where: 'self', anyStars: ['化忌'] },
+      { where: 'flanking', stars: ['擎羊', '陀罗'] }
+    ],
+    reading: '化忌所在之宫为擎羊、陀罗前后所夹，主该宫所司之事受困受阻、进退两难，宜守不宜攻。',
+    sections: []
+  }
+];
@@ -0,0 +1,125 @@
+/**
+ * 离线地名经纬度表
+ * 收录各省级行政区首府及主要城市，经度东经为正，纬度北纬为正
+ */
+
+export interface PlaceCoordinate {
+  /** 城市名称（不含“市”） */
+  name: string;
+  /** 所属省级行政区（不含“省”“自治区”等后缀） */
+  province: string;
+  /** 是否为省级行政区首府 */
+  capital?: boolean;
+  /** 经度 */
+  longitude: number;
+  /** 纬度 */
+  latitude: number;
+}
+
+export const CHINA_PLACES: PlaceCoordinate[] = [
+  // 直辖市及特别行政区
+  { name: '北京', province: '北京', capital: true, longitude: 116.41, latitude: 39.90 },
+  { name: '天津', province: '天津', capital: true, longitude: 117.20, latitude: 39.08 },
+  { name: '上海', province: '上海', capital: true, longitude: 121.47, latitude: 31.23 },
+  { name: '重庆', province: '重庆', capital: true, longitude: 106.55, latitude: 29.56 },
+  { name: '香港', province: '香港', capital: true, longitude: 114.17, latitude: 22.32 },
+  { name: '澳门', province: '澳门', capital: true, longitude: 113.54, latitude: 22.20 },
+
+  // 华北
+  { name: '石家庄', province: '河北', capital: true, longitude: 114.51, latitude: 38.04 },
+  { name: '保定', province: '河北', longitude: 115.46, latitude: 38.87 },
+  { name: '唐山', province: '河北', longitude: 118.18, latitude: 39.63 },
+  { name: '邯郸', province: '河北', longitude: 114.54, latitude: 36.63 },
+  { name: '秦皇岛', province: '河北', longitude: 119.60, latitude: 39.93 },
+  { name: '太原', province: '山西', capital: true, longitude: 112.55, latitude: 37.87 },
+  { name: '大同', province: '山西', longitude: 113.30, latitude: 40.08 },
+  { name: '呼和浩特', province: '内蒙古', capital: true, longitude: 111.75, latitude: 40.84 },
+  { name: '包头', province: '内蒙古', longitude: 109.84, latitude: 40.66 },
+
+  // 东北
+  { name: '沈阳', province: '辽宁', capital: true, longitude: 123.43, latitude: 41.80 },
+  { name: '大连', province: '辽宁', longitude: 121.61, latitude: 38.91 },
+  { name: '鞍山', province: '辽宁', longitude: 122.99, latitude: 41.11 },
+  { name: '长春', province: '吉林', capital: true, longitude: 125.32, latitude: 43.82 },
+  { name: '哈尔滨', province: '黑龙江', capital: true, longitude: 126.53, latitude: 45.80 },
+  { name: '齐齐哈尔', province: '黑龙江', longitude: 123.92, latitude: 47.35 },
+  { name: '大庆', province: '黑龙江', longitude: 125.10, latitude: 46.59 },
+
+  // 华东
+  { name: '南京', province: '江苏', capital: true, longitude: 118.80, latitude: 32.06 },
+  { name: '苏州', province: '江苏', longitude: 120.59, latitude: 31.30 },
+  { name: '无锡', province: '江苏', longitude: 120.31, latitude: 31.49 },
+  { name: '常州', province: '江苏', longitude: 119.97, latitude: 31.81 },
+  { name: '徐州', province: '江苏', longitude: 117.28, latitude: 34.20 },
+  { name: '南通', province: '江苏', longitude: 120.89, latitude: 31.98 },
+  { name: '扬州', province: '江苏', longitude: 119.41, latitude: 32.39 },
+  { name: '杭州', province: '浙江', capital: true, longitude: 120.16, latitude: 30.27 },
+  { name: '宁波', province: '浙江', longitude: 121.55, latitude: 29.87 },
+  { name: '温州', province: '浙江', longitude: 120.70, latitude: 28.00 },
+  { name: '绍兴', province: '浙江', longitude: 120.58, latitude: 30.03 },
+  { name: '嘉兴', province: '浙江', longitude: 120.76, latitude: 30.75 },
+  { name: '金华', province: '浙江', longitude: 119.65, latitude: 29.08 },
+  { name: '合肥', province: '安徽', capital: true, longitude: 117.23, latitude: 31.82 },
+  { name: '芜湖', province: '安徽', longitude: 118.43, latitude: 31.35 },
+  { name: '福州', province: '福建', capital: true, longitude: 119.30, latitude: 26.08 },
+  { name: '厦门', province: '福建', longitude: 118.09, latitude: 24.48 },
+  { name: '泉州', province: '福建', longitude: 118.68, latitude: 24.87 },
+  { name: '南昌', province: '江西', capital: true, longitude: 115.86, latitude: 28.68 },
+  { name: '九江', province: '江西', longitude: 116.00, latitude: 29.71 },
+  { name: '赣州', province: '江西', longitude: 114.93, latitude: 25.83 },
+  { name: '济南', province: '山东', capital: true, longitude: 117.12, latitude: 36.65 },
+  { name: '青岛', province: '山东', longitude: 120.38, latitude: 36.07 },
+  { name: '烟台', province: '山东', longitude: 121.45, latitude: 37.46 },
+  { name: '潍坊', province: '山东', longitude: 119.16, latitude: 36.71 },
+  { name: '临沂', province: '山东', longitude: 118.36, latitude: 35.10 },
+  { name: '台北', province: '台湾', capital: true, longitude: 121.56, latitude: 25.04 },
+
+  // 华中
+  { name: '郑州', province: '河南', capital: true, longitude: 113.63, latitude: 34.75 },
+  { name: '洛阳', province: '河南', longitude: 112.45, latitude: 34.62 },
+  { name: '开封', province: '河南', longitude: 114.31, latitude: 34.80 },
+  { name: '武汉', province: '湖北', capital: true, longitude: 114.31, latitude: 30.59 },
+  { name: '宜昌', province: '湖北', longitude: 111.29, latitude: 30.69 },
+  { name: '襄阳', province: '湖北', longitude: 112.14, latitude: 32.04 },
+  { name: '长沙', province: '湖南', capital: true, longitude: 112.94, latitude: 28.23 },
+  { name: '株洲', province: '湖南', longitude: 113.13, latitude: 27.83 },
+  { name: '衡阳', province: '湖南', longitude: 112.57, latitude: 26.89 },
+
+  // 华南
+  { name: '广州', province: '广东', capital: true, longitude: 113.26, latitude: 23.13 },
+  { name: '深圳', province: '广东', longitude: 114.06, latitude: 22.54 },
+  { name: '珠海', province: '广东', longitude: 113.58, latitude: 22.27 },
+  { name: '佛山', province: '广东', longitude: 113.12, latitude: 23.02 },
+  { name: '东莞', province: '广东', longitude: 113.75, latitude: 23.02 },
+  { name: '汕头', province: '广东', longitude: 116.68, latitude: 23.35 },
+  { name: '湛江', province: '广东', longitude: 110.36, latitude: 21.27 },
+  { name: '南宁', province: '广西', capital: true, longitude: 108.37, latitude: 22.82 },
+  { name: '桂林', province: '广西', longitude: 110.29, latitude: 25.27 },
+  { name: '柳州', province: '广西', longitude: 109.41, latitude: 24.33 },
+  { name: '海口', province: '海南', capital: true, longitude: 110.20, latitude: 20.04 },
+  { name: '三亚', province: '海南', longitude: 109.51, latitude: 18.25 },
+
+  // 西南
+  { name: '成都', province: '四川', capital: true, longitude: 104.07, latitude: 30.57 },
+  { name: '绵阳', province: '四川', longitude: 104.68, latitude: 31.47 },
+  { name: '贵阳', province: '贵州', capital: true, longitude: 106.63, latitude: 26.65 },
+  { name: '遵义', province: '贵州', longitude: 106.93, latitude: 27.73 },
+  { name: '昆明', province: '云南', capital: true, longitude: 102.83, latitude: 24.88 },
+  { name: '大理', province: '云南', longitude: 100.23, latitude: 25.61 },
+  { name: '丽江', province: '云南', longitude: 100.23, latitude: 26.86 },
+  { name: '拉萨', province: '西藏', capital: true, longitude: 91.11, latitude: 29.65 },
+  { name: '日喀则', province: '西藏', longitude: 88.88, latitude: 29.27 },
+
+  // 西北
+  { name: '西安', province: '陕西', capital: true, longitude: 108.94, latitude: 34.34 },
+  { name: '宝鸡', province: '陕西', longitude: 107.24, latitude: 34.36 },
+  { name: '延安', province: '陕西', longitude: 109.49, latitude: 36.59 },
+  { name: '兰州', province: '甘肃', capital: true, longitude: 103.83, latitude: 36.06 },
+  { name: '天水', province: '甘肃', longitude: 105.72, latitude: 34.58 },
+  { name: '敦煌', province: '甘肃', longitude: 94.66, latitude: 40.14 },
+  { name: '西宁', province: '青海', capital: true, longitude: 101.78, latitude: 36.62 },
+  { name: '银川', province: '宁夏', capital: true, longitude: 106.23, latitude: 38.49 },
+  { name: '乌鲁木齐', province: '新疆', capital: true, longitude: 87.62, latitude: 43.83 },
+  { name: '喀什', province: '新疆', longitude: 75.99, latitude: 39.47 },
+  { name: '伊宁', province: '新疆', longitude: 81.32, latitude: 43.92 }
+];
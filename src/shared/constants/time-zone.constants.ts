@@ -0,0 +1,26 @@
+/**
+ * 时区相关常量
+ */
+
+/**
+ * 北京时间相对UTC的偏移（分钟）
+ */
+export const BEIJING_UTC_OFFSET_MINUTES = 8 * 60;
+
+/**
+ * 视为北京时间并适用中国夏令时表的时区名称
+ */
+export const CHINA_TIME_ZONES = ['Asia/Shanghai', 'Asia/Chongqing', 'Asia/Chungking', 'Asia/Harbin', 'PRC'];
+
+/**
+ * 中国大陆夏令时（1986-1991年）
+ * 开始日凌晨2时拨快至3时，结束日凌晨2时（夏令时）拨回至1时
+ */
+export const CHINA_DST_PERIODS: Array<{ year: number; start: [number, number]; end: [number, number] }> = [
+  { year: 1986, start: [5, 4], end: [9, 14] },
+  { year: 1987, start: [4, 12], end: [9, 13] },
+  { year: 1988, start: [4, 17], end: [9, 11] },
+  { year: 1989, start: [4, 16], end: [9, 17] },
+  { year: 1990, start: [4, 15], end: [9, 16] },
+  { year: 1991, start: [4, 14], end: [9, 15] }
+];
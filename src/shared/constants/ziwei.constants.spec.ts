@@ -0,0 +1,54 @@
+import { astro } from 'iztro';
+import { EARTHLY_BRANCHES, STAR_BRIGHTNESS } from './ziwei.constants';
+
+describe('STAR_BRIGHTNESS', () => {
+  const mainStars = [
+    '紫微', '天机', '太阳', '武曲', '天同', '廉贞', '天府',
+    '太阴', '贪狼', '巨门', '天相', '天梁', '七杀', '破军'
+  ];
+
+  /**
+   * 逐日排盘收集 iztro 给出的星曜亮度，键为「星名+宫支」
+   * 紫微随生日与五行局落入十二宫，其余主星随之遍历十二宫
+   */
+  const collectBrightness = (): Map<string, string> => {
+    const brightness = new Map<string, string>();
+    const start = new Date(2000, 0, 1);
+    for (let offset = 0; offset < 60; offset++) {
+      const date = new Date(start.getFullYear(), start.getMonth(), start.getDate() + offset);
+      const solarDate = `${date.getFullYear()}-${date.getMonth() + 1}-${date.getDate()}`;
+      const astrolabe = astro.astrolabeBySolarDate(solarDate, offset % 12, offset % 2 ? '女' : '男');
+      astrolabe.palaces.forEach(palace => {
+        [...palace.majorStars, ...palace.minorStars]
+          .filter(star => STAR_BRIGHTNESS[star.name])
+          .forEach(star => brightness.set(star.name + palace.earthlyBranch, star.brightness || ''));
+      });
+    }
+    return brightness;
+  };
+
+  const expected = collectBrightness();
+
+  it('十四主星在十二宫的亮度均已覆盖', () => {
+    const missing = mainStars.flatMap(star =>
+      EARTHLY_BRANCHES.filter(branch => !expected.has(star + branch)).map(branch => star + branch)
+    );
+    expect(missing).toEqual([]);
+  });
+
+  it.each(mainStars)('%s 十二宫亮度与 iztro 一致', star => {
+    expect(STAR_BRIGHTNESS[star]).toEqual(EARTHLY_BRANCHES.map(branch => expected.get(star + branch)));
+  });
+
+  it('辅星、煞星已出现宫位的亮度与 iztro 一致', () => {
+    const auxStars = Object.keys(STAR_BRIGHTNESS).filter(star => !mainStars.includes(star));
+    auxStars.forEach(star => {
+      EARTHLY_BRANCHES.forEach((branch, index) => {
+        const key = star + branch;
+        if (expected.has(key)) {
+          expect([key, STAR_BRIGHTNESS[star][index]]).toEqual([key, expected.get(key)]);
+        }
+      });
+    });
+  });
+});
@@ -0,0 +1,207 @@
+/**
+ * 紫微斗数基础常量
+ */
+
+/**
+ * 十天干
+ */
+export const HEAVENLY_STEMS = ['甲', '乙', '丙', '丁', '戊', '己', '庚', '辛', '壬', '癸'];
+
+/**
+ * 十二地支
+ */
+export const EARTHLY_BRANCHES = ['子', '丑', '寅', '卯', '辰', '巳', '午', '未', '申', '酉', '戌', '亥'];
+
+/**
+ * 十二宫名称，自命宫起逆时针排列
+ */
+export const PALACE_NAMES = [
+  '命宫', '兄弟宫', '夫妻宫', '子女宫', '财帛宫', '疾厄宫',
+  '迁移宫', '交友宫', '官禄宫', '田宅宫', '福德宫', '父母宫'
+];
+
+/**
+ * 六十甲子纳音，每两组干支共用一个纳音
+ */
+export const NAYIN = [
+  '海中金', '炉中火', '大林木', '路旁土', '剑锋金', '山头火',
+  '涧下水', '城头土', '白蜡金', '杨柳木', '泉中水', '屋上土',
+  '霹雳火', '松柏木', '长流水', '沙中金', '山下火', '平地木',
+  '壁上土', '金箔金', '覆灯火', '天河水', '大驿土', '钗钏金',
+  '桑柘木', '大溪水', '沙中土', '天上火', '石榴木', '大海水'
+];
+
+/**
+ * 纳音五行对应的五行局数
+ */
+export const FIVE_ELEMENTS_BUREAU: Record<string, { name: string; number: number }> = {
+  '水': { name: '水二局', number: 2 },
+  '木': { name: '木三局', number: 3 },
+  '金': { name: '金四局', number: 4 },
+  '土': { name: '土五局', number: 5 },
+  '火': { name: '火六局', number: 6 }
+};
+
+/**
+ * 子时换日方式：switchAt23 为23点起算次日（早晚子不分），switchAt0 为0点换日（23点后为当日晚子时）
+ */
+export const ZI_HOUR_MODES = ['switchAt23', 'switchAt0'] as const;
+
+/**
+ * 四化类型及中文名称，按禄、权、科、忌排列
+ */
+export const TRANSFORMATION_TYPES = ['hualu', 'huaquan', 'huake', 'huaji'] as const;
+
+export const TRANSFORMATION_NAMES: Record<(typeof TRANSFORMATION_TYPES)[number], string> = {
+  hualu: '化禄',
+  huaquan: '化权',
+  huake: '化科',
+  huaji: '化忌'
+};
+
+/**
+ * 十干四化表，每项依次为化禄、化权、化科、化忌之星
+ */
+export const STEM_TRANSFORMATIONS: Record<string, [string, string, string, string]> = {
+  '甲': ['廉贞', '破军', '武曲', '太阳'],
+  '乙': ['天机', '天梁', '紫微', '太阴'],
+  '丙': ['天同', '天机', '文昌', '廉贞'],
+  '丁': ['太阴', '天同', '天机', '巨门'],
+  '戊': ['贪狼', '太阴', '右弼', '天机'],
+  '己': ['武曲', '贪狼', '天梁', '文曲'],
+  '庚': ['太阳', '武曲', '太阴', '天同'],
+  '辛': ['巨门', '太阳', '文曲', '文昌'],
+  '壬': ['天梁', '紫微', '左辅', '武曲'],
+  '癸': ['破军', '巨门', '太阴', '贪狼']
+};
+
+/**
+ * 小限起宫：按生年地支三合局确定一岁小限所在地支
+ */
+export const MINOR_PERIOD_START_BRANCH: Record<string, string> = {
+  '寅': '辰', '午': '辰', '戌': '辰',
+  '申': '戌', '子': '戌', '辰': '戌',
+  '巳': '未', '酉': '未', '丑': '未',
+  '亥': '丑', '卯': '丑', '未': '丑'
+};
+
+/**
+ * 星曜在各宫的亮度，按宫支子至亥排列；空字符串表示该星不入此宫
+ */
+export const STAR_BRIGHTNESS: Record<string, string[]> = {
+  '紫微': ['平', '庙', '旺', '旺', '得', '旺', '庙', '庙', '旺', '旺', '得', '旺'],
+  '天机': ['庙', '陷', '得', '旺', '利', '平', '庙', '陷', '得', '旺', '利', '平'],
+  '太阳': ['陷', '不', '庙', '庙', '旺', '旺', '庙', '得', '得', '平', '陷', '陷'],
+  '武曲': ['旺', '庙', '得', '利', '庙', '平', '旺', '庙', '得', '利', '庙', '平'],
+  '天同': ['旺', '不', '利', '平', '平', '庙', '陷', '不', '旺', '平', '平', '庙'],
+  '廉贞': ['平', '利', '庙', '平', '利', '陷', '平', '利', '庙', '平', '利', '陷'],
+  '天府': ['庙', '庙', '庙', '得', '庙', '得', '旺', '庙', '得', '旺', '庙', '得'],
+  '太阴': ['庙', '庙', '旺', '陷', '陷', '陷', '陷', '不', '利', '旺', '旺', '庙'],
+  '贪狼': ['旺', '庙', '平', '利', '庙', '陷', '旺', '庙', '平', '利', '庙', '陷'],
+  '巨门': ['旺', '不', '庙', '庙', '平', '旺', '旺', '不', '庙', '庙', '平', '旺'],
+  '天相': ['庙', '庙', '庙', '陷', '得', '得', '旺', '得', '庙', '陷', '得', '得'],
+  '天梁': ['庙', '旺', '庙', '庙', '旺', '陷', '庙', '庙', '庙', '得', '庙', '陷'],
+  '七杀': ['旺', '庙', '庙', '旺', '庙', '平', '旺', '庙', '庙', '旺', '庙', '平'],
+  '破军': ['庙', '旺', '得', '陷', '旺', '平', '庙', '旺', '得', '陷', '旺', '平'],
+  '文昌': ['得', '庙', '陷', '利', '得', '庙', '陷', '利', '得', '庙', '陷', '利'],
+  '文曲': ['得', '庙', '平', '旺', '得', '庙', '陷', '旺', '得', '庙', '陷', '旺'],
+  '火星': ['陷', '得', '庙', '利', '陷', '得', '庙', '利', '陷', '得', '庙', '利'],
+  '铃星': ['陷', '得', '庙', '利', '陷', '得', '庙', '利', '陷', '得', '庙', '利'],
+  '擎羊': ['陷', '庙', '', '陷', '庙', '', '陷', '庙', '', '陷', '庙', ''],
+  '陀罗': ['', '庙', '陷', '', '庙', '陷', '', '庙', '陷', '', '庙', '陷']
+};
+
+/**
+ * 星曜类别：主星、吉星、凶星、杂曜、长生十二神
+ */
+export const STAR_TYPES = ['main', 'lucky', 'evil', 'minor', 'changsheng'] as const;
+
+/**
+ * 星曜属性：类别、五行、阴阳；五行或阴阳无定论者为 null
+ */
+export const STAR_METADATA: Record<
+  string,
+  { type: (typeof STAR_TYPES)[number]; fiveElement: string | null; yinYang: '阴' | '阳' | null }
+> = {
+  // 十四主星
+  '紫微': { type: 'main', fiveElement: '土', yinYang: '阴' },
+  '天机': { type: 'main', fiveElement: '木', yinYang: '阴' },
+  '太阳': { type: 'main', fiveElement: '火', yinYang: '阳' },
+  '武曲': { type: 'main', fiveElement: '金', yinYang: '阴' },
+  '天同': { type: 'main', fiveElement: '水', yinYang: '阳' },
+  '廉贞': { type: 'main', fiveElement: '火', yinYang: '阴' },
+  '天府': { type: 'main', fiveElement: '土', yinYang: '阳' },
+  '太阴': { type: 'main', fiveElement: '水', yinYang: '阴' },
+  '贪狼': { type: 'main', fiveElement: '木', yinYang: '阳' },
+  '巨门': { type: 'main', fiveElement: '水', yinYang: '阴' },
+  '天相': { type: 'main', fiveElement: '水', yinYang: '阳' },
+  '天梁': { type: 'main', fiveElement: '土', yinYang: '阳' },
+  '七杀': { type: 'main', fiveElement: '金', yinYang: '阴' },
+  '破军': { type: 'main', fiveElement: '水', yinYang: '阴' },
+  // 六吉星及禄存、天马
+  '左辅': { type: 'lucky', fiveElement: '土', yinYang: '阳' },
+  '右弼': { type: 'lucky', fiveElement: '水', yinYang: '阴' },
+  '文昌': { type: 'lucky', fiveElement: '金', yinYang: '阳' },
+  '文曲': { type: 'lucky', fiveElement: '水', yinYang: '阴' },
+  '天魁': { type: 'lucky', fiveElement: '火', yinYang: '阳' },
+  '天钺': { type: 'lucky', fiveElement: '火', yinYang: '阴' },
+  '禄存': { type: 'lucky', fiveElement: '土', yinYang: '阴' },
+  '天马': { type: 'lucky', fiveElement: '火', yinYang: '阳' },
+  // 六煞星
+  '擎羊': { type: 'evil', fiveElement: '金', yinYang: '阳' },
+  '陀罗': { type: 'evil', fiveElement: '金', yinYang: '阴' },
+  '火星': { type: 'evil', fiveElement: '火', yinYang: '阳' },
+  '铃星': { type: 'evil', fiveElement: '火', yinYang: '阴' },
+  '地空': { type: 'evil', fiveElement: '火', yinYang: '阴' },
+  '地劫': { type: 'evil', fiveElement: '火', yinYang: '阳' },
+  // 杂曜
+  '天刑': { type: 'minor', fiveElement: '火', yinYang: '阳' },
+  '天姚': { type: 'minor', fiveElement: '水', yinYang: '阴' },
+  '红鸾': { type: 'minor', fiveElement: '水', yinYang: '阴' },
+  '天喜': { type: 'minor', fiveElement: '水', yinYang: '阳' },
+  '天哭': { type: 'minor', fiveElement: '金', yinYang: '阳' },
+  '天虚': { type: 'minor', fiveElement: '土', yinYang: '阴' },
+  '龙池': { type: 'minor', fiveElement: '水', yinYang: '阳' },
+  '凤阁': { type: 'minor', fiveElement: '土', yinYang: '阳' },
+  '孤辰': { type: 'minor', fiveElement: '火', yinYang: '阳' },
+  '寡宿': { type: 'minor', fiveElement: '火', yinYang: '阴' },
+  '华盖': { type: 'minor', fiveElement: '木', yinYang: '阳' },
+  '咸池': { type: 'minor', fiveElement: '水', yinYang: '阴' },
+  '三台': { type: 'minor', fiveElement: '土', yinYang: '阳' },
+  '八座': { type: 'minor', fiveElement: '土', yinYang: '阴' },
+  '恩光': { type: 'minor', fiveElement: '火', yinYang: '阳' },
+  '天贵': { type: 'minor', fiveElement: '土', yinYang: '阳' },
+  '台辅': { type: 'minor', fiveElement: '土', yinYang: '阳' },
+  '封诰': { type: 'minor', fiveElement: '土', yinYang: '阴' },
+  '天官': { type: 'minor', fiveElement: '土', yinYang: '阳' },
+  '天福': { type: 'minor', fiveElement: '土', yinYang: '阳' },
+  '天寿': { type: 'minor', fiveElement: '土', yinYang: '阳' },
+  '天才': { type: 'minor', fiveElement: '木', yinYang: null },
+  '解神': { type: 'minor', fiveElement: '木', yinYang: '阳' },
+  '破碎': { type: 'minor', fiveElement: '火', yinYang: '阴' },
+  '天伤': { type: 'minor', fiveElement: '水', yinYang: '阳' },
+  '天使': { type: 'minor', fiveElement: '水', yinYang: '阴' },
+  '天巫': { type: 'minor', fiveElement: null, yinYang: null },
+  '天月': { type: 'minor', fiveElement: null, yinYang: null },
+  '阴煞': { type: 'minor', fiveElement: null, yinYang: null },
+  '蜚廉': { type: 'minor', fiveElement: null, yinYang: null },
+  '天空': { type: 'minor', fiveElement: null, yinYang: null },
+  '旬空': { type: 'minor', fiveElement: null, yinYang: null },
+  '截空': { type: 'minor', fiveElement: null, yinYang: null }
+};
+
+/**
+ * 长生十二神，自长生起依次排列
+ */
+export const CHANGSHENG_STARS = ['长生', '沐浴', '冠带', '临官', '帝旺', '衰', '病', '死', '墓', '绝', '胎', '养'];
+
+/**
+ * 长生起宫：按五行局数确定长生所在地支（水土同宫）
+ */
+export const CHANGSHENG_START_BRANCH: Record<number, string> = {
+  2: '申',
+  3: '亥',
+  4: '巳',
+  5: '申',
+  6: '寅'
+};
@@ -0,0 +1,356 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { SuitabilityAnalysis } from './suitability.types';
+import { ALMANAC_CALENDAR_EVENT_TYPES } from '../constants/almanac.constants';
+
+export { SuitabilityItems } from './suitability.types';
+
+/**
+ * 日历导出事件类型
+ */
+export type AlmanacCalendarEventType = (typeof ALMANAC_CALENDAR_EVENT_TYPES)[number];
+
+/**
+ * 每日神煞方位
+ */
+export class AlmanacDirection {
+  @ApiProperty({ description: '喜神方位', example: '东北' })
+  xiShen: string;
+
+  @ApiProperty({ description: '财神方位', example: '东北' })
+  caiShen: string;
+
+  @ApiProperty({ description: '福神方位', example: '正北' })
+  fuShen: string;
+
+  @ApiProperty({ description: '阳贵神方位（昼）', example: '西南' })
+  yangGui: string;
+
+  @ApiProperty({ description: '阴贵神方位（夜）', example: '东北' })
+  yinGui: string;
+
+  @ApiProperty({ description: '胎神占方', example: '占门碓外东南' })
+  taiShen: string;
+
+  @ApiProperty({ description: '冲煞', example: '冲马(庚午)煞南' })
+  chongSha: string;
+
+  @ApiProperty({ description: '所冲生肖', example: '马' })
+  chong: string;
+
+  @ApiProperty({ description: '煞方', example: '南' })
+  sha: string;
+
+  @ApiProperty({ description: '吉方（喜神、财神、福神、贵神所在）', type: [String] })
+  auspicious: string[];
+
+  @ApiProperty({ description: '凶方（煞方）', type: [String] })
+  inauspicious: string[];
+}
+
+/**
+ * 时辰黄历
+ */
+export class HourlyAlmanac {
+  @ApiProperty({ description: '时辰，子时分早子时与晚子时', example: '早子时' })
+  name: string;
+
+  @ApiProperty({ description: '起止时间', example: '00:00-00:59' })
+  timeRange: string;
+
+  @ApiProperty({ description: '时干支', example: '甲子' })
+  ganzhi: string;
+
+  @ApiProperty({ description: '黄道黑道十二神', example: '金匮' })
+  officer: string;
+
+  @ApiProperty({ description: '是否为黄道时' })
+  huangDao: boolean;
+
+  @ApiProperty({ description: '吉凶', enum: ['吉', '凶'], example: '吉' })
+  verdict: '吉' | '凶';
+
+  @ApiProperty({ description: '冲煞', example: '冲马(庚午)煞南' })
+  chongSha: string;
+
+  @ApiProperty({ description: '是否为日干贵人所临之时' })
+  noble: boolean;
+
+  @ApiProperty({ description: '宜', type: [String] })
+  suitable: string[];
+
+  @ApiProperty({ description: '忌', type: [String] })
+  avoid: string[];
+}
+
+/**
+ * 时辰黄历查询结果
+ */
+export class HourlyAlmanacResult {
+  @ApiProperty({ description: '查询日期 (YYYY-MM-DD)', example: '2024-02-10' })
+  date: string;
+
+  @ApiProperty({ description: '日干支', example: '甲辰' })
+  dayGanzhi: string;
+
+  @ApiProperty({ description: '十二时辰（子时分早子时与晚子时）', type: [HourlyAlmanac] })
+  hours: HourlyAlmanac[];
+}
+
+/**
+ * 生肖信息
+ */
+export class ZodiacInfo {
+  @ApiProperty({ description: '年生肖', example: '龙' })
+  year: string;
+
+  @ApiProperty({ description: '日生肖', example: '龙' })
+  day: string;
+
+  @ApiProperty({ description: '年干支', example: '甲辰年' })
+  yearGanzhi: string;
+
+  @ApiProperty({ description: '生肖年', example: '龙年' })
+  yearShengxiao: string;
+}
+
+/**
+ * 干支日期
+ */
+export class GanzhiDate {
+  @ApiProperty({ description: '年干', example: '甲' })
+  yearGan: string;
+
+  @ApiProperty({ description: '年支', example: '辰' })
+  yearZhi: string;
+
+  @ApiProperty({ description: '月干', example: '丙' })
+  monthGan: string;
+
+  @ApiProperty({ description: '月支', example: '寅' })
+  monthZhi: string;
+
+  @ApiProperty({ description: '日干', example: '甲' })
+  dayGan: string;
+
+  @ApiProperty({ description: '日支', example: '辰' })
+  dayZhi: string;
+}
+
+/**
+ * 黄历查询结果
+ */
+export class AlmanacResult {
+  @ApiProperty({ description: '公历、农历及干支日期' })
+  date: {
+    solar: {
+      year: number;
+      month: number;
+      day: number;
+      week: number;
+    };
+    lunar: {
+      year: number;
+      month: number;
+      day: number;
+      leap: boolean;
+      monthName: string;
+      dayName: string;
+    };
+    ganzhi: GanzhiDate;
+  };
+
+  @ApiProperty({ description: '生肖信息', type: ZodiacInfo })
+  zodiac: ZodiacInfo;
+
+  @ApiProperty({ description: '星座', example: '水瓶座' })
+  constellation: string;
+
+  @ApiPropertyOptional({ description: '当日节气', nullable: true })
+  jieqi: { name: string; date: string } | null;
+
+  @ApiProperty({ description: '节日', type: [String] })
+  festival: string[];
+
+  @ApiProperty({ description: '宜忌', type: SuitabilityAnalysis })
+  suitability: SuitabilityAnalysis;
+
+  @ApiProperty({ description: '神煞方位', type: AlmanacDirection })
+  directions: AlmanacDirection;
+
+  @ApiProperty({ description: '十二时辰吉凶宜忌（子时分早子时与晚子时）', type: [HourlyAlmanac] })
+  hours: HourlyAlmanac[];
+
+  @ApiProperty({ description: '彭祖百忌' })
+  pengZuBaiJi: string[];
+
+  @ApiProperty({ description: '当日神煞' })
+  gods: Record<string, string[]>;
+
+  @ApiProperty({ description: '十二建除', example: '满' })
+  twelveBuildings: string;
+
+  @ApiProperty({ description: '二十八星宿', example: '角' })
+  lunarMansion: string;
+}
+
+/**
+ * 黄道吉日
+ */
+export class LuckyDay {
+  @ApiProperty({ description: '公历日期 (YYYY-MM-DD)', example: '2024-02-10' })
+  date: string;
+
+  @ApiProperty({ description: '农历日期', example: '正月初一' })
+  lunarDate: string;
+
+  @ApiProperty({ description: '日干支', example: '甲辰' })
+  ganzhi: string;
+
+  @ApiProperty({ description: '宜', type: [String] })
+  suitable: string[];
+
+  @ApiProperty({ description: '吉日类型说明' })
+  luckyType: string;
+}
+
+/**
+ * 黄道吉日查询结果
+ */
+export class LuckyDayResult {
+  @ApiProperty({ description: '年份', example: 2024 })
+  year: number;
+
+  @ApiProperty({ description: '月份', example: 2 })
+  month: number;
+
+  @ApiProperty({ description: '吉日数量', example: 12 })
+  count: number;
+
+  @ApiProperty({ description: '吉日列表', type: [LuckyDay] })
+  days: LuckyDay[];
+}
+
+/**
+ * 节气信息
+ */
+export class SolarTermInfo {
+  @ApiProperty({ description: '节气名称', example: '立春' })
+  name: string;
+
+  @ApiProperty({ description: '交节日期 (YYYY-MM-DD)', example: '2024-02-04' })
+  date: string;
+
+  @ApiProperty({ description: '交节时刻 (HH:mm:ss)', example: '16:26:53' })
+  time: string;
+
+  @ApiProperty({ description: '节气说明' })
+  description: string;
+
+  @ApiProperty({ description: '节气习俗', type: [String] })
+  customs: string[];
+}
+
+/**
+ * 节气查询结果
+ */
+export class SolarTermResult {
+  @ApiProperty({ description: '年份', example: 2024 })
+  year: number;
+
+  @ApiProperty({ description: '全年二十四节气', type: [SolarTermInfo] })
+  terms: SolarTermInfo[];
+
+  @ApiPropertyOptional({ description: '立春日期' })
+  springStart?: string;
+
+  @ApiPropertyOptional({ description: '立夏日期' })
+  summerStart?: string;
+
+  @ApiPropertyOptional({ description: '立秋日期' })
+  autumnStart?: string;
+
+  @ApiPropertyOptional({ description: '立冬日期' })
+  winterStart?: string;
+}
+
+/**
+ * 月历、年历中的单日记录
+ */
+export class CalendarDay {
+  @ApiProperty({ description: '公历日期 (YYYY-MM-DD)', example: '2024-02-10' })
+  date: string;
+
+  @ApiProperty({ description: '星期 (0为星期日)', example: 6 })
+  week: number;
+
+  @ApiProperty({ description: '农历日期' })
+  lunar: {
+    year: number;
+    month: number;
+    day: number;
+    leap: boolean;
+    monthName: string;
+    dayName: string;
+  };
+
+  @ApiProperty({ description: '是否为农历月首日（初一）' })
+  lunarMonthStart: boolean;
+
+  @ApiProperty({ description: '日干支', example: '甲辰' })
+  ganzhi: string;
+
+  @ApiProperty({ description: '月干支（以节换月）', example: '丙寅' })
+  monthGanzhi: string;
+
+  @ApiProperty({ description: '是否为交节换月之日，当日起月干支改变' })
+  ganzhiMonthStart: boolean;
+
+  @ApiProperty({ description: '十二建除', example: '满' })
+  building: string;
+
+  @ApiProperty({ description: '二十八星宿', example: '角' })
+  lunarMansion: string;
+
+  @ApiPropertyOptional({ description: '当日交节的节气', nullable: true, example: '立春' })
+  jieqi: string | null;
+
+  @ApiProperty({ description: '节日', type: [String] })
+  festivals: string[];
+
+  @ApiProperty({ description: '宜（摘要）', type: [String] })
+  suitable: string[];
+
+  @ApiProperty({ description: '忌（摘要）', type: [String] })
+  avoid: string[];
+
+  @ApiProperty({ description: '是否为黄道吉日' })
+  lucky: boolean;
+}
+
+/**
+ * 月历查询结果
+ */
+export class MonthCalendarResult {
+  @ApiProperty({ description: '公历年份', example: 2024 })
+  year: number;
+
+  @ApiProperty({ description: '公历月份', example: 2 })
+  month: number;
+
+  @ApiProperty({ description: '当月各日', type: [CalendarDay] })
+  days: CalendarDay[];
+}
+
+/**
+ * 年历查询结果
+ */
+export class YearCalendarResult {
+  @ApiProperty({ description: '公历年份', example: 2024 })
+  year: number;
+
+  @ApiPropertyOptional({ description: '同数字农历年的闰月（闰几月），无闰月为 null', nullable: true, example: null })
+  leapMonth: number | null;
+
+  @ApiProperty({ description: '十二个月的月历', type: [MonthCalendarResult] })
+  months: MonthCalendarResult[];
+}
@@ -0,0 +1,86 @@
+/**
+ * AI命理分析流式输出相关类型定义
+ */
+import { AnalysisNarrative, NarrativeSection } from './llm.types';
+import { PatternMatch } from './pattern.types';
+
+/**
+ * 开始事件：列出将要输出的分节
+ */
+export interface AnalysisStartEvent {
+  event: 'start';
+  data: {
+    /** 将要输出的分节 */
+    sections: NarrativeSection[];
+    /** 分节总数 */
+    total: number;
+    /** 报告中分节以外的字段 */
+    meta: Record<string, unknown>;
+  };
+}
+
+/**
+ * 分节事件：某一分节已就绪
+ */
+export interface AnalysisSectionEvent {
+  event: 'section';
+  data: {
+    /** 分节 */
+    section: NarrativeSection;
+    /** 分节名称 */
+    label: string;
+    /** 分节分析结果，附带 narrative 解读与引用的 patterns 格局；解读生成失败时无 narrative */
+    content: Record<string, unknown> & { narrative?: AnalysisNarrative; patterns: PatternMatch[] };
+  };
+}
+
+/**
+ * 进度事件：每输出一个分节发送一次
+ */
+export interface AnalysisProgressEvent {
+  event: 'progress';
+  data: {
+    /** 刚完成的分节 */
+    section: NarrativeSection;
+    /** 已完成分节数 */
+    completed: number;
+    /** 分节总数 */
+    total: number;
+  };
+}
+
+/**
+ * 错误事件：指定分节时表示该分节解读生成失败，随后仍输出该分节；未指定分节时表示整个分析中止
+ */
+export interface AnalysisErrorEvent {
+  event: 'error';
+  data: {
+    /** 出错的分节 */
+    section?: NarrativeSection;
+    /** 错误信息 */
+    message: string;
+  };
+}
+
+/**
+ * 结束事件
+ */
+export interface AnalysisDoneEvent {
+  event: 'done';
+  data: {
+    /** 分节总数 */
+    total: number;
+    /** 解读生成失败的分节数 */
+    failed: number;
+  };
+}
+
+/**
+ * 流式分析事件
+ */
+export type AnalysisStreamEvent =
+  | AnalysisStartEvent
+  | AnalysisSectionEvent
+  | AnalysisProgressEvent
+  | AnalysisErrorEvent
+  | AnalysisDoneEvent;
@@ -0,0 +1,263 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { SolarTimeCorrection, TimeZoneAdjustment, ZiHourConvention } from './birth-time.types';
+
+/**
+ * 地支藏干
+ */
+export class HiddenStem {
+  @ApiProperty({ description: '藏干', example: '丁' })
+  stem: string;
+
+  @ApiProperty({ description: '五行', example: '火' })
+  element: string;
+
+  @ApiProperty({ description: '对日主的十神', example: '正财' })
+  tenGod: string;
+
+  @ApiProperty({ description: '力量权重（本气、中气、余气）', example: 0.7 })
+  weight: number;
+}
+
+/**
+ * 八字单柱详情
+ */
+export class BaziPillar {
+  @ApiProperty({ description: '干支', example: '庚午' })
+  ganzhi: string;
+
+  @ApiProperty({ description: '天干', example: '庚' })
+  stem: string;
+
+  @ApiProperty({ description: '地支', example: '午' })
+  branch: string;
+
+  @ApiProperty({ description: '天干五行', example: '金' })
+  stemElement: string;
+
+  @ApiProperty({ description: '地支五行', example: '火' })
+  branchElement: string;
+
+  @ApiProperty({ description: '天干对日主的十神，日柱天干为“日主”', example: '偏印' })
+  tenGod: string;
+
+  @ApiProperty({ description: '地支藏干', type: [HiddenStem] })
+  hiddenStems: HiddenStem[];
+
+  @ApiProperty({ description: '纳音', example: '路旁土' })
+  nayin: string;
+
+  @ApiProperty({ description: '日主在本柱地支的十二长生', example: '胎' })
+  lifeStage: string;
+
+  @ApiProperty({ description: '本柱天干坐本柱地支的十二长生（自坐）', example: '沐浴' })
+  selfLifeStage: string;
+}
+
+/**
+ * 八字四柱详情
+ */
+export class BaziPillars {
+  @ApiProperty({ description: '年柱', type: BaziPillar })
+  year: BaziPillar;
+
+  @ApiProperty({ description: '月柱', type: BaziPillar })
+  month: BaziPillar;
+
+  @ApiProperty({ description: '日柱', type: BaziPillar })
+  day: BaziPillar;
+
+  @ApiProperty({ description: '时柱', type: BaziPillar })
+  hour: BaziPillar;
+}
+
+/**
+ * 五行力量
+ */
+export class ElementStrength {
+  @ApiProperty({ description: '五行', example: '水' })
+  element: string;
+
+  @ApiProperty({ description: '力量得分', example: 1.6 })
+  score: number;
+
+  @ApiProperty({ description: '占比 (0-1)', example: 0.2 })
+  ratio: number;
+
+  @ApiProperty({ description: '按月令的旺相休囚死', example: '囚' })
+  state: string;
+
+  @ApiProperty({ description: '对日主的十神类别', example: '比劫' })
+  relation: string;
+}
+
+/**
+ * 日主旺衰
+ */
+export class DayMasterStrength {
+  @ApiProperty({ description: '日主天干', example: '壬' })
+  stem: string;
+
+  @ApiProperty({ description: '日主五行', example: '水' })
+  element: string;
+
+  @ApiProperty({ description: '日主五行在月令的旺相休囚死', example: '囚' })
+  monthState: string;
+
+  @ApiProperty({ description: '是否得令（月令旺或相）' })
+  seasonal: boolean;
+
+  @ApiProperty({ description: '是否得地（地支藏干有与日主同五行者，即通根）' })
+  rooted: boolean;
+
+  @ApiProperty({ description: '生扶力量（比劫、印星）得分', example: 2.9 })
+  supportScore: number;
+
+  @ApiProperty({ description: '克泄耗力量（食伤、财星、官杀）得分', example: 6.1 })
+  drainScore: number;
+
+  @ApiProperty({ description: '生扶力量占比 (0-1)', example: 0.32 })
+  ratio: number;
+
+  @ApiProperty({ description: '旺衰等级', enum: ['身强', '偏强', '中和', '偏弱', '身弱'], example: '身弱' })
+  level: string;
+
+  @ApiProperty({ description: '旺衰说明', example: '壬水生于巳月，失令，得地，生扶力量占32%，判为身弱' })
+  description: string;
+}
+
+/**
+ * 起运信息
+ */
+export class LuckStart {
+  @ApiProperty({ description: '大运是否顺行（阳年生男、阴年生女顺行）' })
+  forward: boolean;
+
+  @ApiProperty({ description: '起运计算所依据的节', example: '芒种' })
+  jie: string;
+
+  @ApiProperty({ description: '交节时刻 (YYYY-MM-DD HH:mm:ss)', example: '1990-06-06 05:46:00' })
+  jieTime: string;
+
+  @ApiProperty({ description: '起运岁数（年）', example: 6 })
+  years: number;
+
+  @ApiProperty({ description: '起运岁数（月）', example: 2 })
+  months: number;
+
+  @ApiProperty({ description: '起运岁数（日）', example: 10 })
+  days: number;
+
+  @ApiProperty({ description: '起运日期 (YYYY-MM-DD)', example: '1996-07-27' })
+  date: string;
+
+  @ApiProperty({ description: '起运说明', example: '出生后距芒种18天15小时，三天折一年，6年2个月10天后起运' })
+  description: string;
+}
+
+/**
+ * 大运
+ */
+export class LuckPillar {
+  @ApiProperty({ description: '大运序号，从1开始', example: 1 })
+  index: number;
+
+  @ApiProperty({ description: '大运干支', example: '壬午' })
+  ganzhi: string;
+
+  @ApiProperty({ description: '大运天干对日主的十神', example: '比肩' })
+  tenGod: string;
+
+  @ApiProperty({ description: '大运地支本气对日主的十神', example: '正财' })
+  branchTenGod: string;
+
+  @ApiProperty({ description: '纳音', example: '杨柳木' })
+  nayin: string;
+
+  @ApiProperty({ description: '日主在大运地支的十二长生', example: '胎' })
+  lifeStage: string;
+
+  @ApiProperty({ description: '起始周岁', example: 6 })
+  startAge: number;
+
+  @ApiProperty({ description: '结束周岁', example: 15 })
+  endAge: number;
+
+  @ApiProperty({ description: '起始公历年', example: 1996 })
+  startYear: number;
+
+  @ApiProperty({ description: '结束公历年', example: 2005 })
+  endYear: number;
+
+  @ApiProperty({ description: '是否为参考日期所在大运' })
+  current: boolean;
+}
+
+/**
+ * 流年
+ */
+export class AnnualPillar {
+  @ApiProperty({ description: '公历年', example: 2025 })
+  year: number;
+
+  @ApiProperty({ description: '流年干支', example: '乙巳' })
+  ganzhi: string;
+
+  @ApiProperty({ description: '流年天干对日主的十神', example: '伤官' })
+  tenGod: string;
+
+  @ApiProperty({ description: '流年地支本气对日主的十神', example: '偏财' })
+  branchTenGod: string;
+
+  @ApiProperty({ description: '纳音', example: '覆灯火' })
+  nayin: string;
+
+  @ApiProperty({ description: '日主在流年地支的十二长生', example: '绝' })
+  lifeStage: string;
+
+  @ApiProperty({ description: '周岁', example: 35 })
+  age: number;
+
+  @ApiProperty({ description: '所在大运干支，未起运时为null', example: '丙戌', nullable: true })
+  luckPillar: string | null;
+
+  @ApiProperty({ description: '是否为参考日期所在年份' })
+  current: boolean;
+}
+
+/**
+ * 八字分析结果
+ */
+export class BaziResult {
+  @ApiProperty({ description: '性别', enum: ['male', 'female'], example: 'male' })
+  gender: 'male' | 'female';
+
+  @ApiProperty({ description: '四柱详情', type: BaziPillars })
+  pillars: BaziPillars;
+
+  @ApiProperty({ description: '五行力量', type: [ElementStrength] })
+  elements: ElementStrength[];
+
+  @ApiProperty({ description: '日主旺衰', type: DayMasterStrength })
+  dayMaster: DayMasterStrength;
+
+  @ApiProperty({ description: '起运信息', type: LuckStart })
+  luckStart: LuckStart;
+
+  @ApiProperty({ description: '大运', type: [LuckPillar] })
+  luckPillars: LuckPillar[];
+
+  @ApiProperty({ description: '流年', type: [AnnualPillar] })
+  annualPillars: AnnualPillar[];
+
+  @ApiProperty({ description: '时区与夏令时换算信息', type: TimeZoneAdjustment })
+  timeZone: TimeZoneAdjustment;
+
+  @ApiProperty({ description: '真太阳时校正信息', type: SolarTimeCorrection })
+  solarTime: SolarTimeCorrection;
+
+  @ApiProperty({ description: '子时换日信息', type: ZiHourConvention })
+  ziHour: ZiHourConvention;
+
+  @ApiProperty({ description: '计算时间' })
+  calculationTime: string;
+}
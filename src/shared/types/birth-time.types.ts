@@ -0,0 +1,96 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { ZI_HOUR_MODES } from '../constants/ziwei.constants';
+
+/**
+ * 子时换日方式
+ */
+export type ZiHourMode = (typeof ZI_HOUR_MODES)[number];
+
+/**
+ * 出生时刻（公历）
+ */
+export interface BirthMoment {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+}
+
+/**
+ * 真太阳时校正信息
+ */
+export class SolarTimeCorrection {
+  @ApiProperty({ description: '是否已按真太阳时校正' })
+  applied: boolean;
+
+  @ApiPropertyOptional({ description: '匹配到的地名', example: '乌鲁木齐' })
+  place?: string;
+
+  @ApiPropertyOptional({ description: '出生地经度（东经为正）', example: 87.62 })
+  longitude?: number;
+
+  @ApiPropertyOptional({ description: '出生地纬度（北纬为正）', example: 43.83 })
+  latitude?: number;
+
+  @ApiProperty({ description: '经度时差（分钟），以东经120°为基准', example: -129.5 })
+  longitudeOffsetMinutes: number;
+
+  @ApiProperty({ description: '均时差（分钟）', example: 3.9 })
+  equationOfTimeMinutes: number;
+
+  @ApiProperty({ description: '总校正量（分钟）', example: -125.6 })
+  totalOffsetMinutes: number;
+
+  @ApiProperty({ description: '校正前的北京时间', example: '1990-05-17 14:30' })
+  clockTime: string;
+
+  @ApiProperty({ description: '校正后的真太阳时', example: '1990-05-17 12:24' })
+  solarTime: string;
+
+  @ApiPropertyOptional({ description: '未校正的原因' })
+  reason?: string;
+}
+
+/**
+ * 时区与夏令时换算信息
+ */
+export class TimeZoneAdjustment {
+  @ApiProperty({ description: '出生时间所用时区（IANA名称或UTC偏移）', example: 'Asia/Shanghai' })
+  timeZone: string;
+
+  @ApiProperty({ description: '出生时刻当地相对UTC的偏移（分钟，含夏令时）', example: 540 })
+  utcOffsetMinutes: number;
+
+  @ApiProperty({ description: '出生时刻当地是否处于夏令时' })
+  dst: boolean;
+
+  @ApiProperty({ description: '换算为北京时间的调整量（分钟）', example: -60 })
+  offsetMinutes: number;
+
+  @ApiProperty({ description: '输入的当地时间', example: '1990-06-01 08:30' })
+  localTime: string;
+
+  @ApiProperty({ description: '换算后的北京时间（标准时）', example: '1990-06-01 07:30' })
+  beijingTime: string;
+
+  @ApiPropertyOptional({ description: '换算说明，如夏令时切换时段的处理方式' })
+  note?: string;
+}
+
+/**
+ * 子时换日处理信息
+ */
+export class ZiHourConvention {
+  @ApiProperty({ description: '子时换日方式', enum: ZI_HOUR_MODES, example: 'switchAt23' })
+  mode: ZiHourMode;
+
+  @ApiProperty({ description: '出生时间是否处于23:00-24:00（晚子时）' })
+  lateZiHour: boolean;
+
+  @ApiProperty({ description: '排盘日期是否因子时换日而顺延至次日' })
+  dayShifted: boolean;
+
+  @ApiProperty({ description: '处理说明', example: '23点起算次日，按次日子时排盘' })
+  description: string;
+}
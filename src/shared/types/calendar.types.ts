@@ -0,0 +1,128 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+/**
+ * 公历日期信息
+ */
+export class SolarDateInfo {
+  @ApiProperty({ description: '公历日期 (YYYY-MM-DD)', example: '2024-09-17' })
+  date: string;
+
+  @ApiProperty({ description: '年', example: 2024 })
+  year: number;
+
+  @ApiProperty({ description: '月', example: 9 })
+  month: number;
+
+  @ApiProperty({ description: '日', example: 17 })
+  day: number;
+
+  @ApiProperty({ description: '星期 (0为星期日)', example: 2 })
+  week: number;
+}
+
+/**
+ * 农历日期信息
+ */
+export class LunarDateInfo {
+  @ApiProperty({ description: '农历年', example: 2024 })
+  year: number;
+
+  @ApiProperty({ description: '农历月', example: 8 })
+  month: number;
+
+  @ApiProperty({ description: '农历日', example: 15 })
+  day: number;
+
+  @ApiProperty({ description: '是否为闰月' })
+  leap: boolean;
+
+  @ApiProperty({ description: '农历日期文字', example: '八月十五' })
+  text: string;
+}
+
+/**
+ * 年、月、日干支
+ */
+export class GanzhiInfo {
+  @ApiProperty({ description: '年干支', example: '甲辰' })
+  year: string;
+
+  @ApiProperty({ description: '月干支', example: '癸酉' })
+  month: string;
+
+  @ApiProperty({ description: '日干支', example: '辛丑' })
+  day: string;
+}
+
+/**
+ * 公历农历互换结果
+ */
+export class DateConversionResult {
+  @ApiProperty({ description: '公历日期', type: SolarDateInfo })
+  solar: SolarDateInfo;
+
+  @ApiProperty({ description: '农历日期', type: LunarDateInfo })
+  lunar: LunarDateInfo;
+
+  @ApiProperty({ description: '干支', type: GanzhiInfo })
+  ganzhi: GanzhiInfo;
+}
+
+/**
+ * 按日柱反查结果
+ */
+export class DayPillarLookupResult {
+  @ApiProperty({ description: '日柱干支', example: '甲子' })
+  ganzhi: string;
+
+  @ApiProperty({ description: '起始公历年', example: 1900 })
+  startYear: number;
+
+  @ApiProperty({ description: '结束公历年（含）', example: 2100 })
+  endYear: number;
+
+  @ApiProperty({ description: '匹配日期数量', example: 1223 })
+  count: number;
+
+  @ApiProperty({ description: '匹配的公历日期 (YYYY-MM-DD)', type: [String] })
+  dates: string[];
+}
+
+/**
+ * 农历日期在某年的对应结果
+ */
+export class LunarDateMatch {
+  @ApiProperty({ description: '农历年', example: 2024 })
+  lunarYear: number;
+
+  @ApiProperty({ description: '公历日期 (YYYY-MM-DD)', example: '2024-09-17' })
+  solarDate: string;
+
+  @ApiProperty({ description: '年干支', example: '甲辰' })
+  yearGanzhi: string;
+}
+
+/**
+ * 农历日期在某年不存在的说明
+ */
+export class LunarDateMissing {
+  @ApiProperty({ description: '农历年', example: 2023 })
+  lunarYear: number;
+
+  @ApiProperty({ description: '原因', example: '农历2023年没有闰四月' })
+  reason: string;
+}
+
+/**
+ * 按农历月日反查结果
+ */
+export class LunarDateLookupResult {
+  @ApiProperty({ description: '农历日期文字', example: '八月十五' })
+  lunarDate: string;
+
+  @ApiProperty({ description: '各年对应的公历日期', type: [LunarDateMatch] })
+  matches: LunarDateMatch[];
+
+  @ApiProperty({ description: '该农历日期不存在的年份', type: [LunarDateMissing] })
+  missing: LunarDateMissing[];
+}
@@ -0,0 +1,41 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { CONTEXT_DETAIL_LEVELS, CONTEXT_FORMATS } from '../constants/chart.constants';
+
+/**
+ * 命盘文本导出格式
+ */
+export type ContextFormat = (typeof CONTEXT_FORMATS)[number];
+
+/**
+ * 命盘文本导出详略
+ */
+export type ContextDetailLevel = (typeof CONTEXT_DETAIL_LEVELS)[number];
+
+/**
+ * 命盘文本导出结果
+ */
+export class ChartContextResult {
+  @ApiProperty({ description: '导出格式', enum: CONTEXT_FORMATS })
+  format: ContextFormat;
+
+  @ApiProperty({ description: '详略', enum: CONTEXT_DETAIL_LEVELS })
+  detail: ContextDetailLevel;
+
+  @ApiProperty({ description: '命盘文本，可直接放入大模型提示词' })
+  content: string;
+
+  @ApiProperty({ description: '估算 token 数（汉字按1个、其余字符按每4个1个计）', example: 420 })
+  estimatedTokens: number;
+
+  @ApiProperty({ description: 'token 预算，未指定为 null', example: 800, nullable: true })
+  maxTokens: number | null;
+
+  @ApiProperty({ description: '已输出的节', type: [String] })
+  sections: string[];
+
+  @ApiProperty({ description: '因超出预算而省略的节', type: [String] })
+  omittedSections: string[];
+
+  @ApiProperty({ description: '是否因超出预算而截断或省略了内容' })
+  truncated: boolean;
+}
@@ -0,0 +1,111 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { CHART_STORAGE_DRIVERS } from '../constants/chart-storage.constants';
+import { ZiHourMode } from './birth-time.types';
+import { ZiweiChartResult } from './ziwei.types';
+
+/**
+ * 存储方式
+ */
+export type ChartStorageDriver = (typeof CHART_STORAGE_DRIVERS)[number];
+
+/**
+ * 规范化后的出生信息，默认值均已填充
+ */
+export interface BirthInput {
+  birthDate: string;
+  birthTime: string;
+  timeZone: string;
+  birthPlace: string;
+  longitude?: number;
+  latitude?: number;
+  trueSolarTime: boolean;
+  gender: 'male' | 'female';
+  dateType: 'solar' | 'lunar';
+  isLeapMonth?: boolean;
+  ziHourMode: ZiHourMode;
+}
+
+/**
+ * 已保存命盘的概要（列表使用，不含星盘）
+ */
+export class StoredChartSummary {
+  @ApiProperty({ description: '命盘标识', example: '3f2b6c1e-8d4a-4c5e-9b7a-2e1f0d9c8b7a' })
+  id: string;
+
+  @ApiProperty({ description: '档案名', example: 'me', nullable: true })
+  profile: string | null;
+
+  @ApiProperty({ description: '备注名称', example: '本人', nullable: true })
+  name: string | null;
+
+  @ApiProperty({ description: '规范化后的出生信息' })
+  input: BirthInput;
+
+  @ApiProperty({ description: '创建时间' })
+  createdAt: string;
+
+  @ApiProperty({ description: '更新时间' })
+  updatedAt: string;
+}
+
+/**
+ * 已保存的命盘
+ */
+export class StoredChart extends StoredChartSummary {
+  @ApiProperty({ description: '保存时计算的星盘', type: ZiweiChartResult })
+  chart: ZiweiChartResult;
+}
+
+/**
+ * 命盘列表
+ */
+export class StoredChartList {
+  @ApiProperty({ description: '命盘概要，按创建时间排列', type: [StoredChartSummary] })
+  charts: StoredChartSummary[];
+
+  @ApiProperty({ description: '命盘总数', example: 2 })
+  total: number;
+}
+
+/**
+ * 命盘存储库
+ * 实现该接口即可接入其他存储方式
+ */
+export interface ChartRepository {
+  /** 存储方式名称 */
+  readonly driver: ChartStorageDriver;
+  /**
+   * 新增命盘
+   * @param record 命盘
+   */
+  insert(record: StoredChart): Promise<void>;
+  /**
+   * 按标识覆盖命盘
+   * @param record 命盘
+   */
+  update(record: StoredChart): Promise<void>;
+  /**
+   * 按标识查找命盘
+   * @param id 命盘标识
+   */
+  findById(id: string): Promise<StoredChart | null>;
+  /**
+   * 按档案名查找命盘
+   * @param profile 档案名
+   */
+  findByProfile(profile: string): Promise<StoredChart | null>;
+  /**
+   * 按创建时间列出全部命盘概要
+   */
+  list(): Promise<StoredChartSummary[]>;
+  /**
+   * 删除命盘
+   * @param id 命盘标识
+   * @returns 是否存在并已删除
+   */
+  delete(id: string): Promise<boolean>;
+  /**
+   * 释放连接等资源
+   */
+  close(): Promise<void>;
+}
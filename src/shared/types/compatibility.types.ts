@@ -0,0 +1,186 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { COMPATIBILITY_RELATIONSHIPS } from '../constants/compatibility.constants';
+import { TransformedStar } from './transformation.types';
+
+/**
+ * 合盘关系类型
+ */
+export type CompatibilityRelationship = (typeof COMPATIBILITY_RELATIONSHIPS)[number];
+
+/**
+ * 合盘双方标识
+ */
+export type CompatibilityPerson = 'personA' | 'personB';
+
+/**
+ * 叠入对方宫位的星曜
+ */
+export class OverlaidPalace {
+  @ApiProperty({ description: '对方宫位名称', example: '夫妻宫' })
+  palace: string;
+
+  @ApiProperty({ description: '宫支', example: '午' })
+  branch: string;
+
+  @ApiProperty({ description: '己方在同一地支的宫位', example: '迁移宫' })
+  sourcePalace: string;
+
+  @ApiProperty({ description: '叠入的全部星曜', type: [String] })
+  stars: string[];
+
+  @ApiProperty({ description: '叠入的主星', type: [String] })
+  mainStars: string[];
+
+  @ApiProperty({ description: '叠入的吉星', type: [String] })
+  luckyStars: string[];
+
+  @ApiProperty({ description: '叠入的凶星', type: [String] })
+  evilStars: string[];
+
+  @ApiProperty({ description: '得分（已按宫位权重加权）', example: 10 })
+  score: number;
+}
+
+/**
+ * 一方星曜叠入另一方命盘
+ */
+export class StarOverlay {
+  @ApiProperty({ description: '星曜来源方', enum: ['personA', 'personB'] })
+  from: CompatibilityPerson;
+
+  @ApiProperty({ description: '被叠入方', enum: ['personA', 'personB'] })
+  to: CompatibilityPerson;
+
+  @ApiProperty({ description: '叠入对方夫妻宫、交友宫、官禄宫的星曜', type: [OverlaidPalace] })
+  palaces: OverlaidPalace[];
+
+  @ApiProperty({ description: '得分', example: 14 })
+  score: number;
+}
+
+/**
+ * 一方生年四化飞入另一方命盘
+ */
+export class CrossTransformation {
+  @ApiProperty({ description: '起四化方', enum: ['personA', 'personB'] })
+  from: CompatibilityPerson;
+
+  @ApiProperty({ description: '四化飞入方', enum: ['personA', 'personB'] })
+  to: CompatibilityPerson;
+
+  @ApiProperty({ description: '起四化的生年天干', example: '庚' })
+  stem: string;
+
+  @ApiProperty({ description: '四化星及其在对方命盘的落宫', type: [TransformedStar] })
+  transformations: TransformedStar[];
+
+  @ApiProperty({ description: '得分', example: 4 })
+  score: number;
+}
+
+/**
+ * 双方年支或日支的关系
+ */
+export class BranchRelation {
+  @ApiProperty({ description: '比较的柱', enum: ['year', 'day'] })
+  pillar: 'year' | 'day';
+
+  @ApiProperty({ description: '甲方地支', example: '午' })
+  branchA: string;
+
+  @ApiProperty({ description: '乙方地支', example: '未' })
+  branchB: string;
+
+  @ApiProperty({ description: '甲方生肖', example: '马' })
+  zodiacA: string;
+
+  @ApiProperty({ description: '乙方生肖', example: '羊' })
+  zodiacB: string;
+
+  @ApiProperty({ description: '成立的关系（六合、三合、冲、刑、害），可同时成立多项', type: [String] })
+  relations: string[];
+
+  @ApiProperty({ description: '得分', example: 10 })
+  score: number;
+}
+
+/**
+ * 五行互补分析
+ */
+export class ElementComplement {
+  @ApiProperty({ description: '甲方日主五行及旺衰', example: '壬水 身弱' })
+  dayMasterA: string;
+
+  @ApiProperty({ description: '乙方日主五行及旺衰', example: '戊土 偏强' })
+  dayMasterB: string;
+
+  @ApiProperty({ description: '甲方所需五行', type: [String] })
+  neededA: string[];
+
+  @ApiProperty({ description: '乙方所需五行', type: [String] })
+  neededB: string[];
+
+  @ApiProperty({ description: '乙方旺盛且为甲方所需的五行', type: [String] })
+  suppliedToA: string[];
+
+  @ApiProperty({ description: '甲方旺盛且为乙方所需的五行', type: [String] })
+  suppliedToB: string[];
+
+  @ApiProperty({ description: '双方日主五行关系', example: '土克水' })
+  dayMasterRelation: string;
+
+  @ApiProperty({ description: '双方日干是否五合' })
+  stemCombination: boolean;
+
+  @ApiProperty({ description: '得分', example: 5 })
+  score: number;
+}
+
+/**
+ * 合盘分项得分
+ */
+export class CompatibilityScoreItem {
+  @ApiProperty({ description: '分项', enum: ['starOverlay', 'transformations', 'branches', 'elements'] })
+  category: 'starOverlay' | 'transformations' | 'branches' | 'elements';
+
+  @ApiProperty({ description: '分项名称', example: '星曜叠盘' })
+  label: string;
+
+  @ApiProperty({ description: '得分，正为加分、负为减分', example: 12 })
+  score: number;
+
+  @ApiProperty({ description: '计分依据', type: [String] })
+  details: string[];
+}
+
+/**
+ * 合盘结果
+ */
+export class CompatibilityResult {
+  @ApiProperty({ description: '关系类型', enum: COMPATIBILITY_RELATIONSHIPS })
+  relationship: CompatibilityRelationship;
+
+  @ApiProperty({ description: '总分 (0-100)', example: 72 })
+  totalScore: number;
+
+  @ApiProperty({ description: '合盘等级', enum: ['上佳', '良好', '中等', '欠佳', '较差'], example: '良好' })
+  level: string;
+
+  @ApiProperty({ description: '分项得分', type: [CompatibilityScoreItem] })
+  breakdown: CompatibilityScoreItem[];
+
+  @ApiProperty({ description: '双方星曜互叠', type: [StarOverlay] })
+  overlays: StarOverlay[];
+
+  @ApiProperty({ description: '双方生年四化互飞', type: [CrossTransformation] })
+  transformations: CrossTransformation[];
+
+  @ApiProperty({ description: '年支、日支关系', type: [BranchRelation] })
+  branches: BranchRelation[];
+
+  @ApiProperty({ description: '五行互补', type: ElementComplement })
+  elements: ElementComplement;
+
+  @ApiProperty({ description: '计算时间' })
+  calculationTime: string;
+}
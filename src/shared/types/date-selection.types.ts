@@ -0,0 +1,76 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+/**
+ * 候选日与参与者的冲刑害关系
+ */
+export class ParticipantConflict {
+  @ApiProperty({ description: '参与者名称', example: '新郎' })
+  participant: string;
+
+  @ApiProperty({ description: '关系类型', enum: ['冲', '刑', '害'], example: '冲' })
+  type: '冲' | '刑' | '害';
+
+  @ApiProperty({ description: '与之相犯的参与者年支或日支', enum: ['year', 'day'], example: 'year' })
+  pillar: 'year' | 'day';
+
+  @ApiProperty({ description: '参与者地支', example: '子' })
+  branch: string;
+}
+
+/**
+ * 择日候选日
+ */
+export class DateCandidate {
+  @ApiProperty({ description: '公历日期 (YYYY-MM-DD)', example: '2024-02-18' })
+  date: string;
+
+  @ApiProperty({ description: '农历日期', example: '正月初九' })
+  lunarDate: string;
+
+  @ApiProperty({ description: '日干支', example: '壬子' })
+  ganzhi: string;
+
+  @ApiProperty({ description: '建除十二神', example: '成' })
+  building: string;
+
+  @ApiProperty({ description: '黄道黑道十二神', example: '青龙' })
+  officer: string;
+
+  @ApiProperty({ description: '是否为黄道日' })
+  huangDao: boolean;
+
+  @ApiProperty({ description: '当日是否宜此事项' })
+  suitable: boolean;
+
+  @ApiProperty({ description: '当日是否忌此事项' })
+  avoid: boolean;
+
+  @ApiProperty({ description: '与参与者的冲刑害', type: [ParticipantConflict] })
+  conflicts: ParticipantConflict[];
+
+  @ApiProperty({ description: '综合评分，越高越吉', example: 75 })
+  score: number;
+
+  @ApiProperty({ description: '评分依据', type: [String], example: ['宜嫁娶', '青龙黄道日', '值天德'] })
+  reasons: string[];
+}
+
+/**
+ * 择日结果
+ */
+export class DateSelectionResult {
+  @ApiProperty({ description: '择日事项（黄历用语）', example: '嫁娶' })
+  activity: string;
+
+  @ApiProperty({ description: '起始日期', example: '2024-02-01' })
+  startDate: string;
+
+  @ApiProperty({ description: '结束日期', example: '2024-03-31' })
+  endDate: string;
+
+  @ApiProperty({ description: '参与评估的天数', example: 60 })
+  evaluated: number;
+
+  @ApiProperty({ description: '按评分从高到低排列的候选日', type: [DateCandidate] })
+  days: DateCandidate[];
+}
@@ -0,0 +1,97 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { LLM_PROVIDERS, NARRATIVE_SECTIONS } from '../constants/llm.constants';
+import { ZiweiChartResult } from './ziwei.types';
+import { PatternMatch } from './pattern.types';
+
+/**
+ * 大模型提供方名称
+ */
+export type LlmProviderName = (typeof LLM_PROVIDERS)[number];
+
+/**
+ * 解读分节
+ */
+export type NarrativeSection = keyof typeof NARRATIVE_SECTIONS;
+
+/**
+ * 渲染后的提示词
+ */
+export interface LlmPrompt {
+  /** 提示词版本 */
+  version: string;
+  /** 系统提示词 */
+  system: string;
+  /** 用户提示词 */
+  user: string;
+}
+
+/**
+ * 解读生成请求
+ */
+export interface LlmRequest {
+  /** 解读分节 */
+  section: NarrativeSection;
+  /** 星盘计算结果，供本地模板直接取数 */
+  chart: ZiweiChartResult;
+  /** 该分节引用的格局 */
+  patterns: PatternMatch[];
+  /** 提示词 */
+  prompt: LlmPrompt;
+}
+
+/**
+ * 远程提供方连接配置
+ */
+export interface LlmProviderOptions {
+  /** 接口地址 */
+  baseUrl: string;
+  /** 接口密钥 */
+  apiKey: string;
+  /** 模型名称 */
+  model: string;
+  /** 最大输出 token 数 */
+  maxTokens: number;
+  /** 采样温度 */
+  temperature: number;
+}
+
+/**
+ * 大模型提供方
+ */
+export interface LlmProvider {
+  /** 提供方名称 */
+  readonly name: LlmProviderName;
+  /** 模型名称，本地模板为 null */
+  readonly model: string | null;
+  /**
+   * 生成解读文本
+   * @param request 解读生成请求
+   * @param signal 超时中止信号
+   */
+  generate(request: LlmRequest, signal: AbortSignal): Promise<string>;
+}
+
+/**
+ * 分节解读
+ */
+export class AnalysisNarrative {
+  @ApiProperty({ description: '解读正文' })
+  content: string;
+
+  @ApiProperty({ description: '实际生成解读的提供方', enum: LLM_PROVIDERS })
+  provider: LlmProviderName;
+
+  @ApiProperty({ description: '模型名称，本地模板为 null', example: 'gpt-4o-mini', nullable: true })
+  model: string | null;
+
+  @ApiProperty({ description: '提示词版本', example: 'v2' })
+  promptVersion: string;
+
+  @ApiProperty({ description: '远程调用失败或超时后是否已回退到本地模板' })
+  fallback: boolean;
+}
+
+/**
+ * 附带解读及所引用格局的分析结果
+ */
+export type WithNarrative<T> = T & { narrative: AnalysisNarrative; patterns: PatternMatch[] };
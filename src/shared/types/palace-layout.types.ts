@@ -0,0 +1,48 @@
+/**
+ * 宫位排布相关类型定义
+ */
+
+/**
+ * 排布后的单个宫位
+ */
+export interface LayoutPalace {
+  /** 宫位名称 */
+  name: string;
+  /** 宫干 */
+  stem: string;
+  /** 宫支 */
+  branch: string;
+}
+
+/**
+ * 命盘宫位排布
+ */
+export interface PalaceLayout {
+  /** 农历出生年 */
+  birthYear: number;
+  /** 生年天干 */
+  yearStem: string;
+  /** 生年地支 */
+  yearBranch: string;
+  /** 性别 */
+  gender: 'male' | 'female';
+  /** 五行局 */
+  bureau: {
+    name: string;
+    number: number;
+  };
+  /** 大限是否顺行（阳男阴女顺行，阴男阳女逆行） */
+  forward: boolean;
+  /** 十二宫，顺序同 PALACE_NAMES */
+  palaces: LayoutPalace[];
+}
+
+/**
+ * 运限所在宫位
+ */
+export interface PeriodPalace extends LayoutPalace {
+  /** 起始虚岁 */
+  startAge: number;
+  /** 结束虚岁 */
+  endAge: number;
+}
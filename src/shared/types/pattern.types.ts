@@ -0,0 +1,72 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { PATTERN_CATEGORIES, PATTERN_RULES } from '../constants/pattern.constants';
+import { NarrativeSection } from './llm.types';
+
+/**
+ * 格局吉凶
+ */
+export type PatternCategory = (typeof PATTERN_CATEGORIES)[number];
+
+/**
+ * 格局规则
+ */
+export type PatternRule = (typeof PATTERN_RULES)[number];
+
+/**
+ * 格局条件
+ */
+export type PatternClause = PatternRule['clauses'][number];
+
+/**
+ * 构成格局的星曜
+ */
+export class PatternStar {
+  @ApiProperty({ description: '星曜', example: '紫微' })
+  star: string;
+
+  @ApiProperty({ description: '所在宫位', example: '命宫' })
+  palace: string;
+
+  @ApiPropertyOptional({ description: '生年四化', example: '化忌' })
+  transformation?: string;
+}
+
+/**
+ * 命中的格局
+ */
+export class PatternMatch {
+  @ApiProperty({ description: '规则标识', example: 'ziFuTongGong' })
+  id: string;
+
+  @ApiProperty({ description: '格局名称', example: '紫府同宫' })
+  name: string;
+
+  @ApiProperty({ description: '吉凶', enum: PATTERN_CATEGORIES })
+  category: PatternCategory;
+
+  @ApiProperty({ description: '成格宫位', example: '命宫' })
+  palace: string;
+
+  @ApiProperty({ description: '构成格局的星曜', type: [PatternStar] })
+  stars: PatternStar[];
+
+  @ApiProperty({ description: '断语' })
+  reading: string;
+
+  @ApiProperty({ description: '引用该格局的解读分节', type: [String] })
+  sections: NarrativeSection[];
+}
+
+/**
+ * 格局分析结果
+ */
+export class PatternAnalysisResult {
+  @ApiProperty({ description: '命中的格局，按规则顺序排列', type: [PatternMatch] })
+  patterns: PatternMatch[];
+
+  @ApiProperty({ description: '参与检查的规则数', example: 9 })
+  ruleCount: number;
+
+  @ApiProperty({ description: '计算时间' })
+  calculationTime: string;
+}
@@ -0,0 +1,63 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+/**
+ * 宜忌事项
+ */
+export class SuitabilityItems {
+  @ApiProperty({ description: '宜', type: [String], example: ['嫁娶', '开市', '入宅'] })
+  suitable: string[];
+
+  @ApiProperty({ description: '忌', type: [String], example: ['诉讼'] })
+  avoid: string[];
+}
+
+/**
+ * 单日宜忌推算结果
+ */
+export class SuitabilityAnalysis extends SuitabilityItems {
+  @ApiProperty({ description: '建除十二神', example: '成' })
+  building: string;
+
+  @ApiProperty({ description: '黄道黑道十二神', example: '青龙' })
+  officer: string;
+
+  @ApiProperty({ description: '是否为黄道日' })
+  huangDao: boolean;
+
+  @ApiProperty({ description: '是否为黄道吉日：黄道且不值重煞' })
+  lucky: boolean;
+
+  @ApiProperty({ description: '当日所值吉神', type: [String], example: ['天德', '天喜'] })
+  auspiciousGods: string[];
+
+  @ApiProperty({ description: '当日所值凶煞', type: [String], example: ['月厌'] })
+  inauspiciousGods: string[];
+}
+
+/**
+ * 时辰宜忌推算结果
+ */
+export class HourSuitabilityAnalysis extends SuitabilityItems {
+  @ApiProperty({ description: '黄道黑道十二神', example: '金匮' })
+  officer: string;
+
+  @ApiProperty({ description: '是否为黄道时' })
+  huangDao: boolean;
+
+  @ApiProperty({ description: '吉凶：黄道且不冲日为吉' })
+  lucky: boolean;
+
+  @ApiProperty({ description: '时支是否冲日支（时破）' })
+  clash: boolean;
+
+  @ApiProperty({ description: '是否为日干贵人所临之时' })
+  noble: boolean;
+}
+
+/**
+ * 宜忌查询结果
+ */
+export class SuitableAvoidResult extends SuitabilityAnalysis {
+  @ApiProperty({ description: '查询日期 (YYYY-MM-DD)', example: '2024-02-10' })
+  date: string;
+}
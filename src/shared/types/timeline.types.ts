@@ -0,0 +1,82 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { TransformedStar } from './transformation.types';
+
+/**
+ * 运限所在宫位
+ */
+export class TimelinePalace {
+  @ApiProperty({ description: '本命宫位名称', example: '福德宫' })
+  name: string;
+
+  @ApiProperty({ description: '宫干', example: '戊' })
+  stem: string;
+
+  @ApiProperty({ description: '宫支', example: '子' })
+  branch: string;
+}
+
+/**
+ * 大限时间线条目
+ */
+export class TimelineDecade extends TimelinePalace {
+  @ApiProperty({ description: '起始虚岁', example: 25 })
+  startAge: number;
+
+  @ApiProperty({ description: '结束虚岁', example: 34 })
+  endAge: number;
+
+  @ApiProperty({ description: '起始农历年', example: 2014 })
+  startYear: number;
+
+  @ApiProperty({ description: '结束农历年', example: 2023 })
+  endYear: number;
+
+  @ApiProperty({ description: '大限宫干四化', type: [TransformedStar] })
+  transformations: TransformedStar[];
+}
+
+/**
+ * 流年时间线条目
+ */
+export class TimelineYear {
+  @ApiProperty({ description: '农历年', example: 2025 })
+  year: number;
+
+  @ApiProperty({ description: '流年干支', example: '乙巳' })
+  ganzhi: string;
+
+  @ApiProperty({ description: '虚岁', example: 36 })
+  age: number;
+
+  @ApiProperty({ description: '所在大限宫位，未起运时为null', example: '田宅宫', nullable: true })
+  decadePalace: string | null;
+
+  @ApiProperty({ description: '流年命宫（流年地支所在宫位）', type: TimelinePalace })
+  annualPalace: TimelinePalace;
+
+  @ApiProperty({ description: '小限宫位', type: TimelinePalace })
+  minorPalace: TimelinePalace;
+
+  @ApiProperty({ description: '流年天干四化', type: [TransformedStar] })
+  transformations: TransformedStar[];
+}
+
+/**
+ * 紫微斗数运限时间线
+ */
+export class ZiweiTimelineResult {
+  @ApiProperty({ description: '农历出生年', example: 1990 })
+  birthYear: number;
+
+  @ApiProperty({ description: '五行局', example: '土五局' })
+  bureau: string;
+
+  @ApiProperty({ description: '大限是否顺行' })
+  forward: boolean;
+
+  @ApiProperty({ description: '全部大限', type: [TimelineDecade] })
+  decades: TimelineDecade[];
+
+  @ApiProperty({ description: '指定范围内的逐年流年与小限', type: [TimelineYear] })
+  years: TimelineYear[];
+}
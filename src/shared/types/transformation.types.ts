@@ -0,0 +1,121 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { TRANSFORMATION_TYPES } from '../constants/ziwei.constants';
+
+/**
+ * 四化类型：化禄、化权、化科、化忌
+ */
+export type TransformationType = (typeof TRANSFORMATION_TYPES)[number];
+
+/**
+ * 运限层次：本命、大限、流年
+ */
+export type TransformationLayerType = 'natal' | 'decade' | 'annual';
+
+/**
+ * 命中的四化星
+ */
+export class TransformationDetail {
+  @ApiProperty({ description: '四化星所在宫位', example: '官禄宫' })
+  palace: string;
+
+  @ApiProperty({ description: '四化星', example: '武曲' })
+  star: string;
+
+  @ApiProperty({ description: '四化名称', example: '化禄' })
+  transformation: string;
+}
+
+/**
+ * 单一运限层次的四化判断结果
+ */
+export class TransformationLayerResult {
+  @ApiProperty({ description: '运限层次', enum: ['natal', 'decade', 'annual'] })
+  layer: TransformationLayerType;
+
+  @ApiProperty({ description: '起四化的天干（本命取生年干，大限取大限宫干，流年取流年干）', example: '己' })
+  stem: string;
+
+  @ApiPropertyOptional({ description: '大限或流年所在的本命宫位', example: '福德宫' })
+  palace?: string;
+
+  @ApiPropertyOptional({ description: '运限范围，如 25-34岁 或 2025年', example: '25-34岁' })
+  period?: string;
+
+  @ApiProperty({ description: '目标宫位三方四正是否存在该四化' })
+  exists: boolean;
+
+  @ApiProperty({ description: '命中的四化星', type: [TransformationDetail] })
+  details: TransformationDetail[];
+}
+
+/**
+ * 宫位四化判断结果
+ */
+export class PalaceTransformationCheckResult {
+  @ApiProperty({ description: '目标宫位', example: '命宫' })
+  palaceName: string;
+
+  @ApiProperty({ description: '四化类型', enum: TRANSFORMATION_TYPES })
+  transformationType: TransformationType;
+
+  @ApiProperty({ description: '四化名称', example: '化禄' })
+  transformationName: string;
+
+  @ApiProperty({ description: '目标宫位的三方四正宫位', type: [String] })
+  relatedPalaces: string[];
+
+  @ApiProperty({ description: '任一运限层次是否存在该四化' })
+  exists: boolean;
+
+  @ApiProperty({ description: '本命四化判断结果', type: TransformationLayerResult })
+  natal: TransformationLayerResult;
+
+  @ApiProperty({ description: '大限四化判断结果，未起运时为null', type: TransformationLayerResult, nullable: true })
+  decade: TransformationLayerResult | null;
+
+  @ApiProperty({ description: '流年四化判断结果', type: TransformationLayerResult })
+  annual: TransformationLayerResult;
+}
+
+/**
+ * 某一天干所化四化星及其在本命盘中的落宫
+ */
+export class TransformedStar {
+  @ApiProperty({ description: '四化类型', enum: TRANSFORMATION_TYPES })
+  type: TransformationType;
+
+  @ApiProperty({ description: '四化名称', example: '化禄' })
+  name: string;
+
+  @ApiProperty({ description: '四化星', example: '廉贞' })
+  star: string;
+
+  @ApiProperty({ description: '四化星所在的本命宫位，星曜未入盘时为null', example: '官禄宫', nullable: true })
+  palace: string | null;
+}
+
+/**
+ * 宫干飞化：以宫干起禄权科忌，飞入四化星所在宫位
+ */
+export class PalaceFlyingTransformation {
+  @ApiProperty({ description: '宫位名称', example: '命宫' })
+  palace: string;
+
+  @ApiProperty({ description: '宫干', example: '戊' })
+  stem: string;
+
+  @ApiProperty({ description: '宫支', example: '辰' })
+  branch: string;
+
+  @ApiProperty({ description: '对宫名称', example: '迁移宫' })
+  oppositePalace: string;
+
+  @ApiProperty({ description: '宫干四化星及其飞入的宫位', type: [TransformedStar] })
+  transformations: TransformedStar[];
+
+  @ApiProperty({ description: '离心自化：本宫宫干化本宫星曜', type: [TransformedStar] })
+  outwardSelfTransformations: TransformedStar[];
+
+  @ApiProperty({ description: '向心自化：对宫宫干化入本宫星曜', type: [TransformedStar] })
+  inwardSelfTransformations: TransformedStar[];
+}
@@ -0,0 +1,194 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { SolarTimeCorrection, TimeZoneAdjustment, ZiHourConvention } from './birth-time.types';
+import { PalaceFlyingTransformation, TransformationType } from './transformation.types';
+import { STAR_TYPES, TRANSFORMATION_TYPES } from '../constants/ziwei.constants';
+
+/**
+ * 单柱干支
+ */
+export class Pillar {
+  @ApiProperty({ description: '天干', example: '庚' })
+  stem: string;
+
+  @ApiProperty({ description: '地支', example: '午' })
+  branch: string;
+}
+
+/**
+ * 四柱八字
+ */
+export class FourPillars {
+  @ApiProperty({ description: '年柱', type: Pillar })
+  year: Pillar;
+
+  @ApiProperty({ description: '月柱', type: Pillar })
+  month: Pillar;
+
+  @ApiProperty({ description: '日柱', type: Pillar })
+  day: Pillar;
+
+  @ApiProperty({ description: '时柱', type: Pillar })
+  hour: Pillar;
+}
+
+/**
+ * 星曜类别
+ */
+export type StarType = (typeof STAR_TYPES)[number];
+
+/**
+ * 星曜详细信息
+ */
+export class ZiweiStar {
+  @ApiProperty({ description: '星曜名称', example: '紫微' })
+  name: string;
+
+  @ApiProperty({ description: '星曜类别：主星、吉星、凶星、杂曜、长生十二神', enum: STAR_TYPES })
+  type: StarType;
+
+  @ApiProperty({ description: '在本宫的亮度（庙、旺、得、利、平、不、陷），无亮度者为 null', example: '庙', nullable: true })
+  brightness: string | null;
+
+  @ApiProperty({ description: '五行，无定论者为 null', example: '土', nullable: true })
+  fiveElement: string | null;
+
+  @ApiProperty({ description: '阴阳，无定论者为 null', enum: ['阴', '阳'], nullable: true })
+  yinYang: '阴' | '阳' | null;
+
+  @ApiProperty({ description: '生年四化类型，无四化者为 null', enum: TRANSFORMATION_TYPES, nullable: true })
+  transformation: TransformationType | null;
+
+  @ApiProperty({ description: '生年四化名称', example: '化科', nullable: true })
+  transformationName: string | null;
+}
+
+/**
+ * 宫位信息
+ */
+export class Palace {
+  @ApiProperty({ description: '宫位名称', example: '命宫' })
+  name: string;
+
+  @ApiProperty({ description: '宫位位置 (1-12)', example: 1 })
+  position: number;
+
+  @ApiProperty({ description: '宫内星耀', type: [String] })
+  stars: string[];
+
+  @ApiProperty({ description: '宫内星耀详细信息（含长生十二神）', type: [ZiweiStar] })
+  starDetails: ZiweiStar[];
+
+  @ApiPropertyOptional({ description: '是否空宫' })
+  isVoid?: boolean;
+
+  @ApiPropertyOptional({ description: '宫位方位', example: '正北' })
+  direction?: string;
+
+  @ApiPropertyOptional({ description: '宫位意义' })
+  significance?: string;
+}
+
+/**
+ * 运限信息
+ */
+export class LuckPeriod {
+  @ApiProperty({ description: '运限所在宫位', example: '命宫' })
+  palace: string;
+
+  @ApiProperty({ description: '起始虚岁', example: 5 })
+  startAge: number;
+
+  @ApiProperty({ description: '结束虚岁', example: 14 })
+  endAge: number;
+
+  @ApiPropertyOptional({ description: '运限天干', example: '丙' })
+  stem?: string;
+
+  @ApiPropertyOptional({ description: '运限地支', example: '戌' })
+  branch?: string;
+}
+
+/**
+ * 星耀分类信息
+ */
+export class StarInfo {
+  @ApiProperty({ description: '各宫主星' })
+  mainStars: Record<string, string[]>;
+
+  @ApiProperty({ description: '各宫吉星' })
+  luckyStars: Record<string, string[]>;
+
+  @ApiProperty({ description: '各宫凶星' })
+  evilStars: Record<string, string[]>;
+
+  @ApiProperty({ description: '关键星耀所在宫位' })
+  keyStarsLocation: Record<string, string>;
+}
+
+/**
+ * 四化信息
+ */
+export class TransformationInfo {
+  @ApiProperty({ description: '生年四化，按农历年干起' })
+  yearStem: {
+    stem: string;
+    transformations: string[];
+  };
+
+  @ApiProperty({ description: '日干四化' })
+  dayStem: {
+    stem: string;
+    transformations: string[];
+  };
+
+  @ApiProperty({ description: '四化星所在宫位' })
+  palaces: Record<string, string[]>;
+}
+
+/**
+ * 紫微斗数星盘计算结果
+ */
+export class ZiweiChartResult {
+  @ApiProperty({ description: '生肖', example: '马' })
+  zodiac: string;
+
+  @ApiProperty({ description: '星座', example: '金牛座' })
+  constellation: string;
+
+  @ApiProperty({ description: '四柱八字', type: FourPillars })
+  fourPillars: FourPillars;
+
+  @ApiProperty({ description: '十二宫', type: [Palace] })
+  palaces: Palace[];
+
+  @ApiProperty({ description: '运限信息（大限、小限、流年、流月、流日、流时）' })
+  luckPeriods: {
+    major: LuckPeriod[];
+    minor: LuckPeriod;
+    annual: LuckPeriod;
+    monthly: LuckPeriod;
+    daily: LuckPeriod;
+    hourly: LuckPeriod;
+  };
+
+  @ApiProperty({ description: '星耀信息', type: StarInfo })
+  starsInfo: StarInfo;
+
+  @ApiProperty({ description: '四化信息', type: TransformationInfo })
+  transformations: TransformationInfo;
+
+  @ApiProperty({ description: '各宫宫干飞化及自化（离心、向心）', type: [PalaceFlyingTransformation] })
+  flyingTransformations: PalaceFlyingTransformation[];
+
+  @ApiProperty({ description: '出生时间的时区与夏令时换算信息', type: TimeZoneAdjustment })
+  timeZone: TimeZoneAdjustment;
+
+  @ApiProperty({ description: '出生时间的真太阳时校正信息', type: SolarTimeCorrection })
+  solarTime: SolarTimeCorrection;
+
+  @ApiProperty({ description: '子时换日处理信息', type: ZiHourConvention })
+  ziHour: ZiHourConvention;
+
+  @ApiProperty({ description: '计算时间 (ISO 8601)' })
+  calculationTime: string;
+}
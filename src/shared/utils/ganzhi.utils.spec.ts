@@ -0,0 +1,65 @@
+import { SolarDay, SolarTime } from 'tyme4ts';
+import { BirthTimeService } from '../../core/ziwei/birth-time.service';
+import { ZiHourMode } from '../types/birth-time.types';
+import { getCycleIndex, getHourStem, getNayin } from './ganzhi.utils';
+
+describe('ganzhi.utils', () => {
+  describe('getCycleIndex / getNayin', () => {
+    it('六十甲子序号自甲子0至癸亥59，纳音每两柱相同', () => {
+      expect([getCycleIndex('甲', '子'), getCycleIndex('乙', '丑'), getCycleIndex('甲', '戌'), getCycleIndex('癸', '亥')])
+        .toEqual([0, 1, 10, 59]);
+      expect([getNayin('甲', '子'), getNayin('乙', '丑'), getNayin('庚', '午'), getNayin('癸', '亥')])
+        .toEqual(['海中金', '海中金', '路旁土', '大海水']);
+    });
+  });
+
+  describe('getHourStem', () => {
+    it('五鼠遁：甲己日起甲子，乙庚日起丙子，戊癸日起壬子', () => {
+      expect(getHourStem('甲', '子')).toBe('甲');
+      expect(getHourStem('己', '午')).toBe('庚');
+      expect(getHourStem('乙', '子')).toBe('丙');
+      expect(getHourStem('庚', '亥')).toBe('丁');
+      expect(getHourStem('癸', '子')).toBe('壬');
+    });
+
+    it('十二时辰时干与寿星万年历一致', () => {
+      const day = SolarDay.fromYmd(2024, 3, 1).getSixtyCycleDay().getSixtyCycle();
+      for (let hour = 0; hour < 23; hour++) {
+        const expected = SolarTime.fromYmdHms(2024, 3, 1, hour, 0, 0).getSixtyCycleHour().getSixtyCycle();
+        expect(getHourStem(day.getHeavenStem().getName(), expected.getEarthBranch().getName()))
+          .toBe(expected.getHeavenStem().getName());
+      }
+    });
+
+    /**
+     * 23:30 出生：按子时换日方式确定排盘日，日柱取排盘日，时柱按五鼠遁推算
+     * 寿星万年历按 23 点换日，其时柱即次日子时
+     */
+    describe('2024-03-01 23:30 出生', () => {
+      const birthTimeService = new BirthTimeService();
+      const expectedHour = SolarTime.fromYmdHms(2024, 3, 1, 23, 30, 0).getSixtyCycleHour().getSixtyCycle().getName();
+
+      const resolvePillars = (mode: ZiHourMode) => {
+        const { moment, ziHour } = birthTimeService.applyZiHourMode(
+          { year: 2024, month: 3, day: 1, hour: 23, minute: 30 },
+          mode
+        );
+        const day = SolarDay.fromYmd(moment.year, moment.month, moment.day).getSixtyCycleDay().getSixtyCycle();
+        const dayStem = day.getHeavenStem().getName();
+        return {
+          day: day.getName(),
+          hour: getHourStem(dayStem, '子', ziHour.lateZiHour && !ziHour.dayShifted) + '子'
+        };
+      };
+
+      it('switchAt23：日柱顺延为次日乙丑，时柱丙子', () => {
+        expect(resolvePillars('switchAt23')).toEqual({ day: '乙丑', hour: expectedHour });
+        expect(expectedHour).toBe('丙子');
+      });
+
+      it('switchAt0：日柱仍为当日甲子，时柱按次日日干起为丙子而非早子时甲子', () => {
+        expect(resolvePillars('switchAt0')).toEqual({ day: '甲子', hour: '丙子' });
+      });
+    });
+  });
+});
@@ -0,0 +1,39 @@
+/**
+ * 干支推算工具
+ */
+import { EARTHLY_BRANCHES, HEAVENLY_STEMS, NAYIN } from '../constants/ziwei.constants';
+import { mod } from './math.utils';
+
+/**
+ * 干支在六十甲子中的序号
+ * @param stem 天干
+ * @param branch 地支
+ * @returns 序号 (0-59)，甲子为0
+ */
+export function getCycleIndex(stem: string, branch: string): number {
+  return mod(6 * HEAVENLY_STEMS.indexOf(stem) - 5 * EARTHLY_BRANCHES.indexOf(branch), 60);
+}
+
+/**
+ * 获取干支纳音，六十甲子每两柱同一纳音
+ * @param stem 天干
+ * @param branch 地支
+ * @returns 纳音名称
+ */
+export function getNayin(stem: string, branch: string): string {
+  return NAYIN[Math.floor(getCycleIndex(stem, branch) / 2)];
+}
+
+/**
+ * 五鼠遁：由日干推时干
+ * 晚子时不换日时，日柱仍取当日，时干则按次日日干起子时
+ * @param dayStem 日干
+ * @param hourBranch 时支
+ * @param lateZiHour 是否为不换日的晚子时
+ * @returns 时干
+ */
+export function getHourStem(dayStem: string, hourBranch: string, lateZiHour = false): string {
+  const stemIndex = HEAVENLY_STEMS.indexOf(dayStem) + (lateZiHour ? 1 : 0);
+  const ziStemIndex = mod(stemIndex, 5) * 2;
+  return HEAVENLY_STEMS[(ziStemIndex + EARTHLY_BRANCHES.indexOf(hourBranch)) % 10];
+}
@@ -0,0 +1,13 @@
+/**
+ * 通用数值工具
+ */
+
+/**
+ * 取非负余数，用于干支、宫位等循环序号的推算
+ * @param value 被除数
+ * @param divisor 除数
+ * @returns 0 至 divisor-1 之间的余数
+ */
+export function mod(value: number, divisor: number): number {
+  return ((value % divisor) + divisor) % divisor;
+}